@@ -0,0 +1,127 @@
+import type { Env } from "./store";
+
+export type SessionUser = { id: string; email: string };
+
+/** `context.data` for authenticated routes, filled in by functions/api/_middleware.ts. */
+export type AuthData = { user: SessionUser };
+
+export const SESSION_COOKIE = "session";
+
+const LOGIN_TOKEN_TTL_MINUTES = 15;
+const SESSION_TTL_DAYS = 30;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeEmail = (value: unknown) => {
+  if (typeof value !== "string") return null;
+  const email = value.trim().toLowerCase();
+  return EMAIL.test(email) ? email : null;
+};
+
+export const randomToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+export const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+};
+
+/** Compares secrets in constant time: both are hashed first, so the loop never depends on their lengths. */
+export const secretsMatch = async (given: string, expected: string) => {
+  const [a, b] = await Promise.all([sha256(given), sha256(expected)]);
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const readCookie = (request: Request, name: string) => {
+  const header = request.headers.get("cookie") ?? "";
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return null;
+};
+
+export const sessionCookie = (value: string, maxAge: number) =>
+  `${SESSION_COOKIE}=${encodeURIComponent(value)}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${maxAge}`;
+
+/** Stores a single-use login token for `email` and returns it. */
+export const createLoginToken = async (db: D1Database, email: string) => {
+  const token = randomToken();
+  await db
+    .prepare(`INSERT INTO login_tokens (token_hash, email, expires_at) VALUES (?, ?, datetime('now', '+${LOGIN_TOKEN_TTL_MINUTES} minutes'))`)
+    .bind(await sha256(token), email)
+    .run();
+  return token;
+};
+
+/**
+ * Consumes a login token, returning the email it was issued for. Reading and
+ * deleting happen in one statement, so two requests racing on the same link
+ * can't both get the email back.
+ */
+export const consumeLoginToken = async (db: D1Database, token: string) => {
+  const row = await db
+    .prepare("DELETE FROM login_tokens WHERE token_hash = ? AND expires_at > datetime('now') RETURNING email")
+    .bind(await sha256(token))
+    .first<{ email: string }>();
+  await db.prepare("DELETE FROM login_tokens WHERE expires_at <= datetime('now')").run();
+  return row?.email ?? null;
+};
+
+const findUser = (db: D1Database, email: string) =>
+  db.prepare("SELECT id, email FROM users WHERE email = ?").bind(email).first<SessionUser>();
+
+/**
+ * Finds or creates the account for `email`. The first sign-in of
+ * `LEGACY_OWNER_EMAIL` takes over the data stored before accounts existed.
+ */
+export const findOrCreateUser = async (env: Env, email: string): Promise<SessionUser> => {
+  const existing = await findUser(env.DB, email);
+  if (existing) return existing;
+
+  // Two first sign-ins can race here: only the insert that creates the row
+  // takes over legacy data, and both end up with that row.
+  const id = crypto.randomUUID();
+  const statements = [env.DB.prepare("INSERT INTO users (id, email) VALUES (?, ?) ON CONFLICT (email) DO NOTHING").bind(id, email)];
+  if (env.LEGACY_OWNER_EMAIL && normalizeEmail(env.LEGACY_OWNER_EMAIL) === email) {
+    for (const table of ["app_state", "habits", "completions", "settings"]) {
+      statements.push(
+        env.DB.prepare(`UPDATE ${table} SET user_id = ? WHERE user_id = 'legacy' AND EXISTS (SELECT 1 FROM users WHERE id = ?)`).bind(id, id)
+      );
+    }
+  }
+  await env.DB.batch(statements);
+  return (await findUser(env.DB, email)) as SessionUser;
+};
+
+/** Creates a session and returns the cookie that carries it. */
+export const startSession = async (db: D1Database, userId: string) => {
+  const id = randomToken();
+  await db
+    .prepare(`INSERT INTO sessions (id_hash, user_id, expires_at) VALUES (?, ?, datetime('now', '+${SESSION_TTL_DAYS} days'))`)
+    .bind(await sha256(id), userId)
+    .run();
+  return sessionCookie(id, SESSION_TTL_DAYS * 24 * 60 * 60);
+};
+
+export const getSessionUser = async (db: D1Database, request: Request) => {
+  const id = readCookie(request, SESSION_COOKIE);
+  if (!id) return null;
+  return db
+    .prepare(
+      `SELECT users.id, users.email FROM sessions JOIN users ON users.id = sessions.user_id
+       WHERE sessions.id_hash = ? AND sessions.expires_at > datetime('now')`
+    )
+    .bind(await sha256(id))
+    .first<SessionUser>();
+};
+
+export const endSession = async (db: D1Database, request: Request) => {
+  const id = readCookie(request, SESSION_COOKIE);
+  if (id) await db.prepare("DELETE FROM sessions WHERE id_hash = ?").bind(await sha256(id)).run();
+  return sessionCookie("", 0);
+};
@@ -0,0 +1,37 @@
+import type { Badge } from "../../src/lib/shares";
+
+// Approximate Verdana 11px advance, the font badges are usually set in.
+const CHAR_WIDTH = 6.5;
+const PADDING = 8;
+const MAX_LABEL_LENGTH = 40;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+
+const truncate = (text: string) => (text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text);
+
+const colorFor = (level: number) => (level >= 0.8 ? "#00b3b3" : level >= 0.5 ? "#2a8f8f" : level > 0 ? "#a16207" : "#555555");
+
+const textWidth = (text: string) => Math.round(text.length * CHAR_WIDTH + PADDING * 2);
+
+/** A two-part flat badge, the shape README badges share: grey label, coloured value. */
+export const renderBadge = ({ label, message, level }: Badge) => {
+  const left = truncate(label);
+  const leftWidth = textWidth(left);
+  const rightWidth = textWidth(message);
+  const width = leftWidth + rightWidth;
+  const title = escapeXml(`${label}: ${message}`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">
+  <title>${title}</title>
+  <clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>
+  <g clip-path="url(#r)">
+    <rect width="${leftWidth}" height="20" fill="#222"/>
+    <rect x="${leftWidth}" width="${rightWidth}" height="20" fill="${colorFor(level)}"/>
+  </g>
+  <g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">
+    <text x="${leftWidth / 2}" y="14">${escapeXml(left)}</text>
+    <text x="${leftWidth + rightWidth / 2}" y="14">${escapeXml(message)}</text>
+  </g>
+</svg>`;
+};
@@ -0,0 +1,37 @@
+import { type CoachingFacts, type CoachingReport, draftNarrative, parseNarrative } from "../../src/lib/coaching";
+import type { ModelClient } from "./model";
+
+const SYSTEM = [
+  "You are a supportive, direct habit coach writing a short weekly review.",
+  "Use only the numbers in the facts you are given; never invent habits or figures.",
+  "Rates are percentages of due days completed. `change` compares last week with the weeks before it.",
+  'Reply with JSON only: { "headline": string, "summary": string, "tips": string[] }.',
+  "Keep the headline under 60 characters, the summary to two or three sentences and give at most four tips.",
+  "When schedule suggestions are listed, explain them in the tips rather than inventing new ones.",
+].join("\n");
+
+export const coachingPrompt = (facts: CoachingFacts) => ({
+  system: SYSTEM,
+  prompt: `Weekly facts for the week of ${facts.weekOf}:\n${JSON.stringify(facts, null, 2)}`,
+});
+
+/**
+ * Has `model` write the narrative for `facts`. A failed call or a reply that
+ * isn't the expected JSON falls back to the deterministic draft, so a report
+ * is always returned.
+ */
+export const writeReport = async (model: ModelClient, facts: CoachingFacts): Promise<CoachingReport> => {
+  let narrative = null;
+  try {
+    narrative = parseNarrative(await model.generate(coachingPrompt(facts)));
+  } catch (err) {
+    console.warn(`[coach] ${model.name} failed: ${String(err)}`);
+  }
+
+  return {
+    ...facts,
+    narrative: narrative ?? draftNarrative(facts),
+    model: narrative ? model.name : "draft",
+    generatedAt: new Date().toISOString(),
+  };
+};
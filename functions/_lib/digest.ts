@@ -0,0 +1,60 @@
+import { fromDateKey, hoursIntoDay, logicalToday, toDateKey } from "../../src/lib/dates";
+import { digestMessage, unloggedHabits } from "../../src/lib/reminders";
+import type { SessionUser } from "./auth";
+import type { Notifier } from "./notifier";
+import { ensureSchema } from "./schema";
+import { loadState } from "./store";
+
+export type DigestResult = { sent: number; skipped: number; failed: number };
+
+/** Without a `date`, an account's digest goes out once its day has this many hours left. */
+export const DIGEST_HOURS_BEFORE_DAY_ENDS = 3;
+
+/**
+ * Sends each account with `settings.dailyDigest` the habits it left unlogged
+ * on `date`, or by default on the day the account is in at `now` (its time
+ * zone and rollover hour) once that day is nearly over, so an hourly call
+ * reaches every account in its evening. Accounts that logged everything, were
+ * already sent that day's digest or aren't near the end of their day are
+ * skipped; one failed delivery doesn't stop the rest.
+ */
+export const sendDigests = async (db: D1Database, notifier: Notifier, date?: string, now = new Date()): Promise<DigestResult> => {
+  const { results: users } = await db
+    .prepare(
+      `SELECT users.id, users.email FROM users
+       JOIN settings ON settings.user_id = users.id AND settings.key = 'dailyDigest' AND settings.value_json = 'true'`
+    )
+    .all<SessionUser>();
+
+  const result: DigestResult = { sent: 0, skipped: 0, failed: 0 };
+  for (const user of users) {
+    try {
+      await ensureSchema(db, user.id);
+      const { habits, completions, settings } = await loadState(db, user.id);
+      if (!date && hoursIntoDay(settings, now) < 24 - DIGEST_HOURS_BEFORE_DAY_ENDS) {
+        result.skipped += 1;
+        continue;
+      }
+      const day = date ?? toDateKey(logicalToday(settings, now));
+      const sent = await db.prepare("SELECT 1 FROM digests_sent WHERE user_id = ? AND date = ?").bind(user.id, day).first();
+      if (sent) {
+        result.skipped += 1;
+        continue;
+      }
+
+      const message = digestMessage(unloggedHabits(habits, completions, fromDateKey(day)), day);
+      if (!message) {
+        result.skipped += 1;
+        continue;
+      }
+
+      await notifier.notify({ userId: user.id, email: user.email, ...message });
+      await db.prepare("INSERT OR IGNORE INTO digests_sent (user_id, date) VALUES (?, ?)").bind(user.id, day).run();
+      result.sent += 1;
+    } catch (err) {
+      console.error(`[digest] ${user.id}: ${String(err)}`);
+      result.failed += 1;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,25 @@
+export const json = (data: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "no-store",
+      ...headers,
+    },
+  });
+
+export const error = (message: string, status = 400) => json({ error: message }, status);
+
+export const invalid = (errors: string[]) => json({ error: "Invalid payload", errors }, 400);
+
+/** Parsed request body, or `undefined` when it isn't valid JSON. */
+export const readJson = async (request: Request): Promise<unknown> => {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
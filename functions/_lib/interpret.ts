@@ -0,0 +1,41 @@
+import { type ParsedCommand, parseCommand, readChanges } from "../../src/lib/commands";
+import { fromDateKey } from "../../src/lib/dates";
+import type { Habit } from "../../src/types";
+import type { ModelClient } from "./model";
+
+const SYSTEM = [
+  "You turn a habit tracker user's short note into cell updates.",
+  "Only use habit ids from the list you are given and never log a day after `today`.",
+  'Each change is { "date": "yyyy-MM-dd", "habitId": string, "status": ... } where status is',
+  '`true` (done), "skipped", a number (amount, in the habit\'s target unit), { "slips": n, "note"?: string }',
+  "for an avoid habit that slipped, or null to clear the day. A clean day of an avoid habit is null.",
+  'Reply with JSON only: { "changes": [...], "unmatched": [parts of the note you could not map] }.',
+].join("\n");
+
+export const interpretPrompt = (text: string, habits: Habit[], today: string) => ({
+  system: SYSTEM,
+  prompt: [
+    `today: ${today}`,
+    `habits: ${JSON.stringify(habits.map(({ id, name, target, polarity }) => ({ id, name, target, polarity })))}`,
+    `note: ${text}`,
+  ].join("\n"),
+});
+
+/**
+ * Has `model` read `text`; anything it proposes is checked against `habits`.
+ * A failed call or an unusable reply falls back to the rule-based parser.
+ */
+export const interpret = async (
+  model: ModelClient,
+  text: string,
+  habits: Habit[],
+  today: string
+): Promise<ParsedCommand & { model: string }> => {
+  try {
+    const parsed = readChanges(JSON.parse(await model.generate(interpretPrompt(text, habits, today))), habits, fromDateKey(today));
+    if (parsed) return { ...parsed, model: model.name };
+  } catch (err) {
+    console.warn(`[interpret] ${model.name} failed: ${String(err)}`);
+  }
+  return { ...parseCommand(text, habits, fromDateKey(today)), model: "rules" };
+};
@@ -0,0 +1,31 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/** Local stub: prints the message instead of sending it. */
+export const consoleMailer: Mailer = {
+  async send(message) {
+    console.log(`[mail] to=${message.to} subject=${message.subject}\n${message.text}`);
+  },
+};
+
+/** POSTs `{ to, subject, text }` as JSON to a transactional mail relay. */
+export const webhookMailer = (url: string): Mailer => ({
+  async send(message) {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(message),
+    });
+    if (!res.ok) throw new Error(`Mail webhook failed: ${res.status}`);
+  },
+});
+
+export const getMailer = (env: { MAIL_WEBHOOK_URL?: string }): Mailer =>
+  env.MAIL_WEBHOOK_URL ? webhookMailer(env.MAIL_WEBHOOK_URL) : consoleMailer;
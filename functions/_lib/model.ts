@@ -0,0 +1,42 @@
+import { GoogleGenAI } from "@google/genai";
+
+export interface ModelRequest {
+  system: string;
+  prompt: string;
+}
+
+/** Text-in, text-out language model. Replies are expected to be JSON. */
+export interface ModelClient {
+  name: string;
+  generate(request: ModelRequest): Promise<string>;
+}
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+/** Local stub: answers every request with `reply(request)`, for tests and offline development. */
+export const stubModel = (reply: (request: ModelRequest) => string): ModelClient => ({
+  name: "local-stub",
+  async generate(request) {
+    return reply(request);
+  },
+});
+
+export const geminiModel = (apiKey: string, model = DEFAULT_GEMINI_MODEL): ModelClient => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: model,
+    async generate({ system, prompt }) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { systemInstruction: system, responseMimeType: "application/json" },
+      });
+      return response.text ?? "";
+    },
+  };
+};
+
+export const getModelClient = (
+  env: { GEMINI_API_KEY?: string; GEMINI_MODEL?: string },
+  fallback: (request: ModelRequest) => string
+): ModelClient => (env.GEMINI_API_KEY ? geminiModel(env.GEMINI_API_KEY, env.GEMINI_MODEL) : stubModel(fallback));
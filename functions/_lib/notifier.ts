@@ -0,0 +1,46 @@
+import { type Mailer, getMailer } from "./mailer";
+
+export interface Notification {
+  userId: string;
+  email: string;
+  subject: string;
+  text: string;
+}
+
+/** Delivers digests. Pick one with `getNotifier`; tests use `fakeNotifier`. */
+export interface Notifier {
+  notify(notification: Notification): Promise<void>;
+}
+
+/** Sends the digest to the account's address through the sign-in mailer. */
+export const emailNotifier = (mailer: Mailer): Notifier => ({
+  async notify({ email, subject, text }) {
+    await mailer.send({ to: email, subject, text });
+  },
+});
+
+/** POSTs the whole notification as JSON, e.g. to a chat or push relay. */
+export const webhookNotifier = (url: string): Notifier => ({
+  async notify(notification) {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(notification),
+    });
+    if (!res.ok) throw new Error(`Digest webhook failed: ${res.status}`);
+  },
+});
+
+/** Local fake transport: keeps what would have been sent in `sent`. */
+export const fakeNotifier = (): Notifier & { sent: Notification[] } => {
+  const sent: Notification[] = [];
+  return {
+    sent,
+    async notify(notification) {
+      sent.push(notification);
+    },
+  };
+};
+
+export const getNotifier = (env: { DIGEST_WEBHOOK_URL?: string; MAIL_WEBHOOK_URL?: string }): Notifier =>
+  env.DIGEST_WEBHOOK_URL ? webhookNotifier(env.DIGEST_WEBHOOK_URL) : emailNotifier(getMailer(env));
@@ -0,0 +1,56 @@
+import { json } from "./http";
+
+/**
+ * `If-Match` as a revision number. `null` means the client didn't ask for a
+ * conditional write; an unparseable value never matches.
+ */
+export const expectedRevision = (request: Request) => {
+  const header = request.headers.get("if-match");
+  if (!header || header.trim() === "*") return null;
+  const value = Number(header.trim().replace(/^W\//, "").replace(/"/g, ""));
+  return Number.isInteger(value) ? value : -1;
+};
+
+export const etag = (revision: number) => ({ etag: `"${revision}"` });
+
+export const readRevision = async (db: D1Database, userId: string) => {
+  const row = await db
+    .prepare("SELECT revision FROM app_state WHERE user_id = ?")
+    .bind(userId)
+    .first<{ revision: number }>();
+  return row?.revision ?? 0;
+};
+
+export const conflict = (revision: number) => json({ error: "Revision conflict", revision }, 409, etag(revision));
+
+export type CommitResult = { ok: true; revision: number } | { ok: false; revision: number };
+
+/**
+ * Runs `statements` in one batch together with a revision bump. When the
+ * request's `If-Match` is stale the bump writes -1, which fails the CHECK on
+ * `app_state.revision` and rolls back the whole batch.
+ */
+export const commit = async (
+  db: D1Database,
+  request: Request,
+  userId: string,
+  statements: D1PreparedStatement[]
+): Promise<CommitResult> => {
+  const expected = expectedRevision(request);
+  const guard = db
+    .prepare(
+      `UPDATE app_state
+       SET revision = CASE WHEN ? IS NULL OR revision = ? THEN revision + 1 ELSE -1 END, updated_at = datetime('now')
+       WHERE user_id = ?`
+    )
+    .bind(expected, expected, userId);
+  const read = db.prepare("SELECT revision FROM app_state WHERE user_id = ?").bind(userId);
+
+  try {
+    const results = await db.batch<{ revision: number }>([guard, ...statements, read]);
+    return { ok: true, revision: results[results.length - 1].results[0]?.revision ?? 0 };
+  } catch (err) {
+    if (!String(err).includes("CHECK constraint failed")) throw err;
+    return { ok: false, revision: await readRevision(db, userId) };
+  }
+};
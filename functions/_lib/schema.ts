@@ -0,0 +1,61 @@
+import { SCHEMA_VERSION, parseState } from "../../src/lib/schema";
+import { loadState, replaceState } from "./store";
+
+type AppStateRow = { state_json: string; schema_version: number };
+
+// Users already checked by this isolate.
+const upgraded = new Set<string>();
+
+/**
+ * Brings the user's stored data up to `SCHEMA_VERSION` through the same
+ * migrations the client uses. If the normalized tables are still empty, a
+ * legacy `app_state.state_json` blob is imported instead.
+ */
+export const ensureSchema = async (db: D1Database, userId: string) => {
+  if (upgraded.has(userId)) return;
+
+  const row = await db
+    .prepare("SELECT state_json, schema_version FROM app_state WHERE user_id = ?")
+    .bind(userId)
+    .first<AppStateRow>();
+  if (!row) {
+    // New account: nothing to upgrade, just the row that carries the revision.
+    await db
+      .prepare("INSERT OR IGNORE INTO app_state (user_id, schema_version) VALUES (?, ?)")
+      .bind(userId, SCHEMA_VERSION)
+      .run();
+    upgraded.add(userId);
+    return;
+  }
+  if (row.schema_version >= SCHEMA_VERSION) {
+    upgraded.add(userId);
+    return;
+  }
+
+  const { schemaVersion: _, ...stored } = await loadState(db, userId);
+  let source: unknown = { ...stored, schemaVersion: row.schema_version };
+  if (stored.habits.length === 0) {
+    try {
+      const legacy = JSON.parse(row.state_json);
+      if (Array.isArray(legacy?.habits) && legacy.habits.length > 0) source = legacy;
+    } catch {
+      // Unreadable blob: keep the normalized data.
+    }
+  }
+
+  const parsed = parseState(source);
+  if (!parsed.ok) {
+    console.error("Stored state failed validation, leaving it untouched", parsed.errors);
+    return;
+  }
+
+  await db.batch([
+    ...replaceState(db, userId, parsed.value),
+    db
+      .prepare(
+        "UPDATE app_state SET schema_version = ?, revision = revision + 1, updated_at = datetime('now') WHERE user_id = ?"
+      )
+      .bind(SCHEMA_VERSION, userId),
+  ]);
+  upgraded.add(userId);
+};
@@ -0,0 +1,75 @@
+import { type ShareLink, type ShareScope, sharedDashboard } from "../../src/lib/shares";
+import { randomToken, sha256 } from "./auth";
+import { ensureSchema } from "./schema";
+import { loadState } from "./store";
+
+type ShareRow = {
+  id: string;
+  user_id: string;
+  label: string;
+  habit_ids_json: string | null;
+  from_date: string | null;
+  to_date: string | null;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+const COLUMNS = "id, user_id, label, habit_ids_json, from_date, to_date, created_at, last_used_at";
+
+const linkFromRow = (row: ShareRow): ShareLink => {
+  let habitIds: string[] | null = null;
+  try {
+    const parsed = row.habit_ids_json ? JSON.parse(row.habit_ids_json) : null;
+    if (Array.isArray(parsed)) habitIds = parsed.filter(id => typeof id === "string");
+  } catch {
+    // Unreadable list: share nothing rather than everything.
+    habitIds = [];
+  }
+  return {
+    id: row.id,
+    label: row.label,
+    habitIds,
+    from: row.from_date,
+    to: row.to_date,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  };
+};
+
+export const listShareLinks = async (db: D1Database, userId: string) => {
+  const { results } = await db
+    .prepare(`SELECT ${COLUMNS} FROM share_links WHERE user_id = ? ORDER BY created_at DESC, rowid DESC`)
+    .bind(userId)
+    .all<ShareRow>();
+  return results.map(linkFromRow);
+};
+
+/** Stores a link for `scope` and returns it with its token, which isn't kept. */
+export const createShareLink = async (db: D1Database, userId: string, scope: ShareScope) => {
+  const id = crypto.randomUUID();
+  const token = randomToken();
+  await db
+    .prepare("INSERT INTO share_links (id, token_hash, user_id, label, habit_ids_json, from_date, to_date) VALUES (?, ?, ?, ?, ?, ?, ?)")
+    .bind(id, await sha256(token), userId, scope.label, scope.habitIds ? JSON.stringify(scope.habitIds) : null, scope.from, scope.to)
+    .run();
+  const row = await db.prepare(`SELECT ${COLUMNS} FROM share_links WHERE id = ?`).bind(id).first<ShareRow>();
+  return { link: linkFromRow(row!), token };
+};
+
+/** Deletes the link; `false` when the user has no link `id`. */
+export const revokeShareLink = async (db: D1Database, userId: string, id: string) => {
+  const result = await db.prepare("DELETE FROM share_links WHERE id = ? AND user_id = ?").bind(id, userId).run();
+  return (result.meta.changes ?? 0) > 0;
+};
+
+/** The dashboard `token` opens, or `null` for a revoked or unknown token. */
+export const openShareLink = async (db: D1Database, token: string) => {
+  const hash = await sha256(token);
+  const row = await db.prepare(`SELECT ${COLUMNS} FROM share_links WHERE token_hash = ?`).bind(hash).first<ShareRow>();
+  if (!row) return null;
+
+  await db.prepare("UPDATE share_links SET last_used_at = datetime('now') WHERE id = ?").bind(row.id).run();
+  await ensureSchema(db, row.user_id);
+  const { id: _, createdAt: __, lastUsedAt: ___, ...scope } = linkFromRow(row);
+  return sharedDashboard(await loadState(db, row.user_id), scope);
+};
@@ -0,0 +1,225 @@
+import { withoutHabit } from "../../src/lib/journal";
+import { SCHEMA_VERSION } from "../../src/lib/schema";
+import { isAmount, isSlip } from "../../src/lib/scoring";
+import type { AppSettings, Habit, HabitCompletion, HabitStatus, Journal, JournalEntry, RemoteState } from "../../src/types";
+import { isRecord } from "./http";
+
+export interface Env {
+  DB: D1Database;
+  // Magic-link login; see functions/_lib/auth.ts.
+  MAIL_WEBHOOK_URL?: string;
+  AUTH_DEV_ECHO_LINK?: string;
+  LEGACY_OWNER_EMAIL?: string;
+  // Weekly coaching reports; see functions/_lib/model.ts.
+  GEMINI_API_KEY?: string;
+  GEMINI_MODEL?: string;
+  // End-of-day digests; see functions/api/cron/digest.ts.
+  CRON_SECRET?: string;
+  DIGEST_WEBHOOK_URL?: string;
+}
+
+type HabitRow = { id: string; name: string; position: number; data_json: string };
+type CompletionRow = {
+  date: string;
+  habit_id: string;
+  status: "done" | "skipped" | "amount" | "slip";
+  // Amount logged, or the slip count.
+  amount: number | null;
+  note: string | null;
+};
+type SettingRow = { key: string; value_json: string };
+type JournalRow = { date: string; entry_json: string };
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isDateKey = (value: unknown): value is string => typeof value === "string" && DATE_KEY.test(value);
+
+export type StoredStatus = Pick<CompletionRow, "status" | "amount" | "note">;
+
+/** Maps a client `HabitStatus` to its stored form; `null` means "no row". */
+export const statusToRow = (status: unknown): StoredStatus | null => {
+  if (status === true) return { status: "done", amount: null, note: null };
+  if (status === "skipped") return { status: "skipped", amount: null, note: null };
+  if (isAmount(status)) return { status: "amount", amount: status, note: null };
+  if (isSlip(status)) return { status: "slip", amount: status.slips, note: status.note ?? null };
+  return null;
+};
+
+const statusFromRow = (row: CompletionRow): HabitStatus => {
+  switch (row.status) {
+    case "done":
+      return true;
+    case "amount":
+      return row.amount;
+    case "slip":
+      return row.note ? { slips: row.amount, note: row.note } : { slips: row.amount };
+    default:
+      return "skipped";
+  }
+};
+
+const parseObject = (text: string) => {
+  try {
+    const value = JSON.parse(text);
+    return isRecord(value) ? value : {};
+  } catch {
+    return {};
+  }
+};
+
+const habitFromRow = (row: HabitRow): Habit => ({ ...parseObject(row.data_json), id: row.id, name: row.name });
+
+export const listHabits = async (db: D1Database, userId: string) => {
+  const { results } = await db
+    .prepare("SELECT id, name, position, data_json FROM habits WHERE user_id = ? ORDER BY position, rowid")
+    .bind(userId)
+    .all<HabitRow>();
+  return results.map(habitFromRow);
+};
+
+export const getHabit = async (db: D1Database, userId: string, id: string) => {
+  const row = await db
+    .prepare("SELECT id, name, position, data_json FROM habits WHERE user_id = ? AND id = ?")
+    .bind(userId, id)
+    .first<HabitRow>();
+  return row ? habitFromRow(row) : null;
+};
+
+export const upsertHabit = (db: D1Database, userId: string, habit: Habit, position: number) => {
+  const { id, name, ...data } = habit;
+  return db
+    .prepare(
+      `INSERT INTO habits (user_id, id, name, position, data_json) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (user_id, id) DO UPDATE SET
+         name = excluded.name, position = excluded.position, data_json = excluded.data_json, updated_at = datetime('now')`
+    )
+    .bind(userId, id, name.trim(), position, JSON.stringify(data));
+};
+
+export const nextHabitPosition = async (db: D1Database, userId: string) => {
+  const row = await db
+    .prepare("SELECT COALESCE(MAX(position) + 1, 0) AS next FROM habits WHERE user_id = ?")
+    .bind(userId)
+    .first<{ next: number }>();
+  return row?.next ?? 0;
+};
+
+/** Completions keyed like the client's `HabitCompletion`, optionally limited to an inclusive date range. */
+export const listCompletions = async (db: D1Database, userId: string, from?: string, to?: string) => {
+  const { results } = await db
+    .prepare("SELECT date, habit_id, status, amount, note FROM completions WHERE user_id = ? AND date >= ? AND date <= ? ORDER BY date")
+    .bind(userId, from ?? "0000-00-00", to ?? "9999-99-99")
+    .all<CompletionRow>();
+
+  const completions: HabitCompletion = {};
+  results.forEach(row => {
+    (completions[row.date] ??= {})[row.habit_id] = statusFromRow(row);
+  });
+  return completions;
+};
+
+export const putCompletion = (db: D1Database, userId: string, date: string, habitId: string, stored: StoredStatus) =>
+  db
+    .prepare(
+      `INSERT INTO completions (user_id, date, habit_id, status, amount, note) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (user_id, date, habit_id) DO UPDATE SET
+         status = excluded.status, amount = excluded.amount, note = excluded.note, updated_at = datetime('now')`
+    )
+    .bind(userId, date, habitId, stored.status, stored.amount, stored.note);
+
+export const deleteCompletion = (db: D1Database, userId: string, date: string, habitId: string) =>
+  db.prepare("DELETE FROM completions WHERE user_id = ? AND date = ? AND habit_id = ?").bind(userId, date, habitId);
+
+/** Journal entries keyed by date, optionally limited to an inclusive date range. */
+export const listJournal = async (db: D1Database, userId: string, from?: string, to?: string) => {
+  const { results } = await db
+    .prepare("SELECT date, entry_json FROM journal WHERE user_id = ? AND date >= ? AND date <= ? ORDER BY date")
+    .bind(userId, from ?? "0000-00-00", to ?? "9999-99-99")
+    .all<JournalRow>();
+
+  const journal: Journal = {};
+  results.forEach(row => {
+    journal[row.date] = parseObject(row.entry_json) as JournalEntry;
+  });
+  return journal;
+};
+
+export const putJournalEntry = (db: D1Database, userId: string, date: string, entry: JournalEntry) =>
+  db
+    .prepare(
+      `INSERT INTO journal (user_id, date, entry_json) VALUES (?, ?, ?)
+       ON CONFLICT (user_id, date) DO UPDATE SET entry_json = excluded.entry_json, updated_at = datetime('now')`
+    )
+    .bind(userId, date, JSON.stringify(entry));
+
+export const deleteJournalEntry = (db: D1Database, userId: string, date: string) =>
+  db.prepare("DELETE FROM journal WHERE user_id = ? AND date = ?").bind(userId, date);
+
+/** Statements that delete habit `id` with its completions and journal cell notes, to be run in one batch. */
+export const deleteHabit = async (db: D1Database, userId: string, id: string) => {
+  const journal = await listJournal(db, userId);
+  const kept = withoutHabit(journal, id);
+  return [
+    db.prepare("DELETE FROM habits WHERE user_id = ? AND id = ?").bind(userId, id),
+    db.prepare("DELETE FROM completions WHERE user_id = ? AND habit_id = ?").bind(userId, id),
+    ...Object.keys(journal)
+      .filter(date => kept[date] !== journal[date])
+      .map(date => (kept[date] ? putJournalEntry(db, userId, date, kept[date]) : deleteJournalEntry(db, userId, date))),
+  ];
+};
+
+export const readSettings = async (db: D1Database, userId: string) => {
+  const { results } = await db.prepare("SELECT key, value_json FROM settings WHERE user_id = ?").bind(userId).all<SettingRow>();
+  const settings: Record<string, unknown> = {};
+  results.forEach(row => {
+    try {
+      settings[row.key] = JSON.parse(row.value_json);
+    } catch {
+      // Ignore unreadable values; the client falls back to defaults.
+    }
+  });
+  return settings as Partial<AppSettings>;
+};
+
+export const writeSettings = (db: D1Database, userId: string, settings: Record<string, unknown>) =>
+  Object.entries(settings).map(([key, value]) =>
+    db
+      .prepare(
+        "INSERT INTO settings (user_id, key, value_json) VALUES (?, ?, ?) ON CONFLICT (user_id, key) DO UPDATE SET value_json = excluded.value_json"
+      )
+      .bind(userId, key, JSON.stringify(value))
+  );
+
+export const loadState = async (db: D1Database, userId: string): Promise<RemoteState> => {
+  const [habits, completions, journal, settings] = await Promise.all([
+    listHabits(db, userId),
+    listCompletions(db, userId),
+    listJournal(db, userId),
+    readSettings(db, userId),
+  ]);
+  return { schemaVersion: SCHEMA_VERSION, habits, completions, journal, settings: settings as AppSettings };
+};
+
+/** Statements that overwrite the user's data with `state`, to be run in one batch. */
+export const replaceState = (db: D1Database, userId: string, state: RemoteState) => {
+  const statements = [
+    db.prepare("DELETE FROM habits WHERE user_id = ?").bind(userId),
+    db.prepare("DELETE FROM completions WHERE user_id = ?").bind(userId),
+    db.prepare("DELETE FROM journal WHERE user_id = ?").bind(userId),
+    db.prepare("DELETE FROM settings WHERE user_id = ?").bind(userId),
+  ];
+
+  state.habits.forEach((habit, position) => statements.push(upsertHabit(db, userId, habit, position)));
+
+  Object.entries(state.completions).forEach(([date, cells]) => {
+    Object.entries(cells).forEach(([habitId, status]) => {
+      const stored = statusToRow(status);
+      if (stored) statements.push(putCompletion(db, userId, date, habitId, stored));
+    });
+  });
+
+  Object.entries(state.journal ?? {}).forEach(([date, entry]) => statements.push(putJournalEntry(db, userId, date, entry)));
+
+  if (state.settings) statements.push(...writeSettings(db, userId, { ...state.settings }));
+  return statements;
+};
@@ -0,0 +1,20 @@
+import { type AuthData, getSessionUser } from "../_lib/auth";
+import { error } from "../_lib/http";
+import { ensureSchema } from "../_lib/schema";
+import type { Env } from "../_lib/store";
+
+/**
+ * Everything under /api needs a session except the login flow, cron jobs
+ * (which check their own secret) and share links (the token is the key).
+ */
+export const onRequest: PagesFunction<Env, string, AuthData> = async ({ request, env, data, next }) => {
+  const { pathname } = new URL(request.url);
+  if (pathname.startsWith("/api/auth/") || pathname.startsWith("/api/cron/") || pathname.startsWith("/api/shared/")) return next();
+
+  const user = await getSessionUser(env.DB, request);
+  if (!user) return error("Not signed in", 401);
+
+  data.user = user;
+  await ensureSchema(env.DB, user.id);
+  return next();
+};
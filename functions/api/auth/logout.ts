@@ -0,0 +1,7 @@
+import { endSession } from "../../_lib/auth";
+import { json } from "../../_lib/http";
+import type { Env } from "../../_lib/store";
+
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  return json({ ok: true }, 200, { "set-cookie": await endSession(env.DB, request) });
+};
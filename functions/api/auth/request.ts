@@ -0,0 +1,23 @@
+import { createLoginToken, normalizeEmail } from "../../_lib/auth";
+import { error, isRecord, json, readJson } from "../../_lib/http";
+import { getMailer } from "../../_lib/mailer";
+import type { Env } from "../../_lib/store";
+
+/** POST { email } — sends a magic sign-in link. */
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  const body = await readJson(request);
+  const email = normalizeEmail(isRecord(body) ? body.email : undefined);
+  if (!email) return error("A valid email is required");
+
+  const token = await createLoginToken(env.DB, email);
+  const link = `${new URL(request.url).origin}/api/auth/verify?token=${encodeURIComponent(token)}`;
+
+  await getMailer(env).send({
+    to: email,
+    subject: "Your Habit Mastery sign-in link",
+    text: `Open this link within 15 minutes to sign in:\n\n${link}\n\nIf you didn't ask for it, ignore this email.`,
+  });
+
+  // Local development without a mail relay: hand the link straight back.
+  return json(env.AUTH_DEV_ECHO_LINK === "true" ? { ok: true, devLink: link } : { ok: true });
+};
@@ -0,0 +1,8 @@
+import { getSessionUser } from "../../_lib/auth";
+import { error, json } from "../../_lib/http";
+import type { Env } from "../../_lib/store";
+
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const user = await getSessionUser(env.DB, request);
+  return user ? json({ user }) : error("Not signed in", 401);
+};
@@ -0,0 +1,15 @@
+import { consumeLoginToken, findOrCreateUser, startSession } from "../../_lib/auth";
+import type { Env } from "../../_lib/store";
+
+const redirect = (location: string, headers: Record<string, string> = {}) =>
+  new Response(null, { status: 302, headers: { location, ...headers } });
+
+/** GET ?token= — the magic link. Signs in and returns to the dashboard. */
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const token = new URL(request.url).searchParams.get("token");
+  const email = token ? await consumeLoginToken(env.DB, token) : null;
+  if (!email) return redirect("/?login=expired");
+
+  const user = await findOrCreateUser(env, email);
+  return redirect("/", { "set-cookie": await startSession(env.DB, user.id) });
+};
@@ -0,0 +1,43 @@
+import { type CoachingReport, analyzeWeeks, draftNarrative, reportWeekOf } from "../../src/lib/coaching";
+import { logicalToday } from "../../src/lib/dates";
+import type { AuthData } from "../_lib/auth";
+import { writeReport } from "../_lib/coach";
+import { json } from "../_lib/http";
+import { getModelClient } from "../_lib/model";
+import { type Env, loadState, readSettings } from "../_lib/store";
+
+const readReport = async (db: D1Database, userId: string, weekOf: string) => {
+  const row = await db
+    .prepare("SELECT report_json FROM coaching_reports WHERE user_id = ? AND week_of = ?")
+    .bind(userId, weekOf)
+    .first<{ report_json: string }>();
+  return row ? (JSON.parse(row.report_json) as CoachingReport) : null;
+};
+
+const generate = async (env: Env, userId: string) => {
+  const state = await loadState(env.DB, userId);
+  // Weeks end on the user's Sunday, not the server's.
+  const facts = analyzeWeeks(state, logicalToday(state.settings));
+  // Without an API key the local stub answers with the deterministic draft.
+  const model = getModelClient(env, () => JSON.stringify(draftNarrative(facts)));
+  const report = await writeReport(model, facts);
+
+  await env.DB.prepare(
+    `INSERT INTO coaching_reports (user_id, week_of, report_json) VALUES (?, ?, ?)
+     ON CONFLICT (user_id, week_of) DO UPDATE SET report_json = excluded.report_json, created_at = datetime('now')`
+  )
+    .bind(userId, report.weekOf, JSON.stringify(report))
+    .run();
+  return report;
+};
+
+/** GET /api/coach — the report for the last full week, generated on first request and then cached. */
+export const onRequestGet: PagesFunction<Env, string, AuthData> = async ({ env, data }) => {
+  const today = logicalToday(await readSettings(env.DB, data.user.id));
+  return json((await readReport(env.DB, data.user.id, reportWeekOf(today))) ?? (await generate(env, data.user.id)));
+};
+
+/** POST /api/coach — regenerates the report, e.g. after backfilling last week. */
+export const onRequestPost: PagesFunction<Env, string, AuthData> = async ({ env, data }) => {
+  return json(await generate(env, data.user.id));
+};
@@ -0,0 +1,30 @@
+import type { AuthData } from "../../../_lib/auth";
+import { error, isRecord, json, readJson } from "../../../_lib/http";
+import { commit, conflict, etag } from "../../../_lib/revision";
+import { type Env, deleteCompletion, isDateKey, putCompletion, statusToRow } from "../../../_lib/store";
+
+type Params = "date" | "habitId";
+
+export const onRequestPut: PagesFunction<Env, Params, AuthData> = async ({ request, params, env, data }) => {
+  const date = params.date as string;
+  if (!isDateKey(date)) return error("date must be yyyy-MM-dd");
+
+  const body = await readJson(request);
+  const stored = isRecord(body) ? statusToRow(body.status) : null;
+  if (!stored) return error("status must be true, 'skipped', an amount >= 0 or { slips, note? }");
+
+  const result = await commit(env.DB, request, data.user.id, [putCompletion(env.DB, data.user.id, date, params.habitId as string, stored)]);
+  if (!result.ok) return conflict(result.revision);
+
+  return json({ ok: true }, 200, etag(result.revision));
+};
+
+export const onRequestDelete: PagesFunction<Env, Params, AuthData> = async ({ request, params, env, data }) => {
+  const date = params.date as string;
+  if (!isDateKey(date)) return error("date must be yyyy-MM-dd");
+
+  const result = await commit(env.DB, request, data.user.id, [deleteCompletion(env.DB, data.user.id, date, params.habitId as string)]);
+  if (!result.ok) return conflict(result.revision);
+
+  return json({ ok: true }, 200, etag(result.revision));
+};
@@ -0,0 +1,20 @@
+import { secretsMatch } from "../../_lib/auth";
+import { sendDigests } from "../../_lib/digest";
+import { error, json } from "../../_lib/http";
+import { getNotifier } from "../../_lib/notifier";
+import { type Env, isDateKey } from "../../_lib/store";
+
+/**
+ * POST /api/cron/digest[?date=yyyy-MM-dd] — sends the end-of-day digests, by
+ * default to each account whose day is nearly over (see `sendDigests`). Called
+ * hourly by a scheduler with `Authorization: Bearer $CRON_SECRET`, not by signed-in users.
+ */
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  if (!env.CRON_SECRET) return error("Digests are not configured", 404);
+  if (!(await secretsMatch(request.headers.get("authorization") ?? "", `Bearer ${env.CRON_SECRET}`))) return error("Forbidden", 403);
+
+  const date = new URL(request.url).searchParams.get("date") ?? undefined;
+  if (date !== undefined && !isDateKey(date)) return error("date must be yyyy-MM-dd");
+
+  return json({ date: date ?? null, ...(await sendDigests(env.DB, getNotifier(env), date)) });
+};
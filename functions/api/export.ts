@@ -0,0 +1,23 @@
+import { exportCsv, exportFileName, exportJson } from "../../src/lib/transfer";
+import type { AuthData } from "../_lib/auth";
+import { error } from "../_lib/http";
+import { etag, readRevision } from "../_lib/revision";
+import { type Env, loadState } from "../_lib/store";
+
+/** GET /api/export?format=json|csv — the whole account as a download. JSON round-trips through /api/import. */
+export const onRequestGet: PagesFunction<Env, string, AuthData> = async ({ request, env, data }) => {
+  const format = new URL(request.url).searchParams.get("format") ?? "json";
+  if (format !== "json" && format !== "csv") return error("format must be json or csv");
+
+  const [state, revision] = await Promise.all([loadState(env.DB, data.user.id), readRevision(env.DB, data.user.id)]);
+  const fileName = exportFileName(format, new Date().toISOString().slice(0, 10));
+
+  return new Response(format === "csv" ? exportCsv(state) : exportJson(state), {
+    headers: {
+      "content-type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+      "content-disposition": `attachment; filename="${fileName}"`,
+      "cache-control": "no-store",
+      ...etag(revision),
+    },
+  });
+};
@@ -0,0 +1,47 @@
+import { checkHabit } from "../../../src/lib/schema";
+import type { Habit } from "../../../src/types";
+import type { AuthData } from "../../_lib/auth";
+import { error, invalid, isRecord, json, readJson } from "../../_lib/http";
+import { commit, conflict, etag } from "../../_lib/revision";
+import { type Env, deleteHabit, getHabit, nextHabitPosition, upsertHabit } from "../../_lib/store";
+
+type Params = "id";
+
+const positionOf = async (db: D1Database, userId: string, id: string) => {
+  const row = await db
+    .prepare("SELECT position FROM habits WHERE user_id = ? AND id = ?")
+    .bind(userId, id)
+    .first<{ position: number }>();
+  return row ? row.position : await nextHabitPosition(db, userId);
+};
+
+export const onRequestGet: PagesFunction<Env, Params, AuthData> = async ({ params, env, data }) => {
+  const habit = await getHabit(env.DB, data.user.id, params.id as string);
+  return habit ? json(habit) : error("Habit not found", 404);
+};
+
+/** Creates or replaces the habit. `position` is optional and kept when omitted. */
+export const onRequestPut: PagesFunction<Env, Params, AuthData> = async ({ request, params, env, data }) => {
+  const body = await readJson(request);
+  if (!isRecord(body)) return error("Expected a habit object");
+
+  const id = params.id as string;
+  const { position, ...fields } = body;
+  const habit = { ...fields, id };
+  const errors = checkHabit(habit);
+  if (errors.length > 0) return invalid(errors);
+
+  const at = typeof position === "number" ? position : await positionOf(env.DB, data.user.id, id);
+  const result = await commit(env.DB, request, data.user.id, [upsertHabit(env.DB, data.user.id, habit as Habit, at)]);
+  if (!result.ok) return conflict(result.revision);
+
+  return json(habit, 200, etag(result.revision));
+};
+
+/** Removes the habit together with its completions and cell notes. */
+export const onRequestDelete: PagesFunction<Env, Params, AuthData> = async ({ request, params, env, data }) => {
+  const result = await commit(env.DB, request, data.user.id, await deleteHabit(env.DB, data.user.id, params.id as string));
+  if (!result.ok) return conflict(result.revision);
+
+  return json({ ok: true }, 200, etag(result.revision));
+};
@@ -0,0 +1,30 @@
+import { checkHabit } from "../../../src/lib/schema";
+import type { Habit } from "../../../src/types";
+import type { AuthData } from "../../_lib/auth";
+import { error, invalid, isRecord, json, readJson } from "../../_lib/http";
+import { commit, conflict, etag } from "../../_lib/revision";
+import { type Env, listHabits, nextHabitPosition, upsertHabit } from "../../_lib/store";
+
+export const onRequestGet: PagesFunction<Env, string, AuthData> = async ({ env, data }) => {
+  return json(await listHabits(env.DB, data.user.id));
+};
+
+export const onRequestPost: PagesFunction<Env, string, AuthData> = async ({ request, env, data }) => {
+  const body = await readJson(request);
+  if (!isRecord(body)) return error("Expected a habit object");
+
+  const { position, ...fields } = body;
+  const habit = {
+    createdAt: new Date().toISOString(),
+    ...fields,
+    id: typeof fields.id === "string" && fields.id ? fields.id : crypto.randomUUID()
+  };
+  const errors = checkHabit(habit);
+  if (errors.length > 0) return invalid(errors);
+
+  const at = typeof position === "number" ? position : await nextHabitPosition(env.DB, data.user.id);
+  const result = await commit(env.DB, request, data.user.id, [upsertHabit(env.DB, data.user.id, habit as Habit, at)]);
+  if (!result.ok) return conflict(result.revision);
+
+  return json(habit, 201, etag(result.revision));
+};
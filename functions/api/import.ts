@@ -0,0 +1,29 @@
+import { parseImport, planImport } from "../../src/lib/transfer";
+import type { AuthData } from "../_lib/auth";
+import { error, invalid, json } from "../_lib/http";
+import { commit, conflict, etag, readRevision } from "../_lib/revision";
+import { type Env, loadState, replaceState } from "../_lib/store";
+
+/**
+ * POST /api/import?mode=merge|replace[&preview=1] with a JSON export or a CSV
+ * body (`content-type: text/csv`). Imported habit ids are matched against the
+ * account's habits by name; `preview` only reports what would change.
+ */
+export const onRequestPost: PagesFunction<Env, string, AuthData> = async ({ request, env, data }) => {
+  const url = new URL(request.url);
+  const mode = url.searchParams.get("mode") ?? "merge";
+  if (mode !== "merge" && mode !== "replace") return error("mode must be merge or replace");
+
+  const format = (request.headers.get("content-type") ?? "").includes("csv") ? "csv" : "json";
+  const parsed = parseImport(await request.text(), format);
+  if (!parsed.ok) return invalid(parsed.errors);
+
+  const [current, revision] = await Promise.all([loadState(env.DB, data.user.id), readRevision(env.DB, data.user.id)]);
+  const { state, summary } = planImport(current, parsed.value, mode);
+  if (url.searchParams.get("preview") === "1") return json(summary, 200, etag(revision));
+
+  const result = await commit(env.DB, request, data.user.id, replaceState(env.DB, data.user.id, state));
+  if (!result.ok) return conflict(result.revision);
+
+  return json(summary, 200, etag(result.revision));
+};
@@ -0,0 +1,35 @@
+import { parseCommand } from "../../src/lib/commands";
+import { fromDateKey, logicalToday, toDateKey } from "../../src/lib/dates";
+import { activeHabits } from "../../src/lib/groups";
+import type { AuthData } from "../_lib/auth";
+import { invalid, isRecord, json, readJson } from "../_lib/http";
+import { interpret } from "../_lib/interpret";
+import { getModelClient } from "../_lib/model";
+import { type Env, isDateKey, listHabits, readSettings } from "../_lib/store";
+
+const MAX_TEXT_LENGTH = 500;
+
+/**
+ * POST /api/interpret { text, today } — reads a logging note such as "did gym
+ * yesterday, skipped MMA" into proposed cell changes. Nothing is written; the
+ * client confirms and saves them through /api/completions.
+ */
+export const onRequestPost: PagesFunction<Env, string, AuthData> = async ({ request, env, data }) => {
+  const body = await readJson(request);
+  if (!isRecord(body)) return invalid(["body: expected an object"]);
+
+  const errors: string[] = [];
+  if (typeof body.text !== "string" || body.text.trim() === "") errors.push("text: expected a non-empty string");
+  else if (body.text.length > MAX_TEXT_LENGTH) errors.push(`text: at most ${MAX_TEXT_LENGTH} characters`);
+  // The client's date, so "yesterday" means the user's yesterday.
+  if (body.today !== undefined && !isDateKey(body.today)) errors.push("today: expected yyyy-MM-dd");
+  if (errors.length > 0) return invalid(errors);
+
+  const text = body.text as string;
+  const today = (body.today as string | undefined) ?? toDateKey(logicalToday(await readSettings(env.DB, data.user.id)));
+  // Archived habits can't be logged from a note.
+  const habits = activeHabits(await listHabits(env.DB, data.user.id));
+  const model = getModelClient(env, () => JSON.stringify(parseCommand(text, habits, fromDateKey(today))));
+
+  return json(await interpret(model, text, habits, today));
+};
@@ -0,0 +1,36 @@
+import { cleanEntry } from "../../../src/lib/journal";
+import { checkJournalEntry } from "../../../src/lib/schema";
+import type { JournalEntry } from "../../../src/types";
+import type { AuthData } from "../../_lib/auth";
+import { error, invalid, json, readJson } from "../../_lib/http";
+import { commit, conflict, etag } from "../../_lib/revision";
+import { type Env, deleteJournalEntry, isDateKey, putJournalEntry } from "../../_lib/store";
+
+type Params = "date";
+
+/** PUT /api/journal/:date { mood?, energy?, note?, cells? } — replaces the day's entry; an empty one deletes it. */
+export const onRequestPut: PagesFunction<Env, Params, AuthData> = async ({ request, params, env, data }) => {
+  const date = params.date as string;
+  if (!isDateKey(date)) return error("date must be yyyy-MM-dd");
+
+  const body = await readJson(request);
+  const errors = checkJournalEntry(body);
+  if (errors.length > 0) return invalid(errors);
+
+  const entry = cleanEntry(body as JournalEntry);
+  const statement = entry ? putJournalEntry(env.DB, data.user.id, date, entry) : deleteJournalEntry(env.DB, data.user.id, date);
+  const result = await commit(env.DB, request, data.user.id, [statement]);
+  if (!result.ok) return conflict(result.revision);
+
+  return json({ ok: true }, 200, etag(result.revision));
+};
+
+export const onRequestDelete: PagesFunction<Env, Params, AuthData> = async ({ request, params, env, data }) => {
+  const date = params.date as string;
+  if (!isDateKey(date)) return error("date must be yyyy-MM-dd");
+
+  const result = await commit(env.DB, request, data.user.id, [deleteJournalEntry(env.DB, data.user.id, date)]);
+  if (!result.ok) return conflict(result.revision);
+
+  return json({ ok: true }, 200, etag(result.revision));
+};
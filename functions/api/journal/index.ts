@@ -0,0 +1,18 @@
+import type { AuthData } from "../../_lib/auth";
+import { error, json } from "../../_lib/http";
+import { etag, readRevision } from "../../_lib/revision";
+import { type Env, isDateKey, listJournal } from "../../_lib/store";
+
+/** GET /api/journal?from=yyyy-MM-dd&to=yyyy-MM-dd — both bounds inclusive and optional. */
+export const onRequestGet: PagesFunction<Env, string, AuthData> = async ({ request, env, data }) => {
+  const url = new URL(request.url);
+  const from = url.searchParams.get("from") ?? undefined;
+  const to = url.searchParams.get("to") ?? undefined;
+
+  if ((from !== undefined && !isDateKey(from)) || (to !== undefined && !isDateKey(to))) {
+    return error("from/to must be yyyy-MM-dd");
+  }
+
+  const [journal, revision] = await Promise.all([listJournal(env.DB, data.user.id, from, to), readRevision(env.DB, data.user.id)]);
+  return json(journal, 200, etag(revision));
+};
@@ -0,0 +1,21 @@
+import { checkSettings } from "../../src/lib/schema";
+import type { AuthData } from "../_lib/auth";
+import { invalid, json, readJson } from "../_lib/http";
+import { commit, conflict, etag } from "../_lib/revision";
+import { type Env, readSettings, writeSettings } from "../_lib/store";
+
+export const onRequestGet: PagesFunction<Env, string, AuthData> = async ({ env, data }) => {
+  return json(await readSettings(env.DB, data.user.id));
+};
+
+/** Merges the given keys into the stored settings. */
+export const onRequestPut: PagesFunction<Env, string, AuthData> = async ({ request, env, data }) => {
+  const body = await readJson(request);
+  const errors = checkSettings(body);
+  if (errors.length > 0) return invalid(errors);
+
+  const result = await commit(env.DB, request, data.user.id, writeSettings(env.DB, data.user.id, body as Record<string, unknown>));
+  if (!result.ok) return conflict(result.revision);
+
+  return json(await readSettings(env.DB, data.user.id), 200, etag(result.revision));
+};
@@ -0,0 +1,29 @@
+import { logicalToday } from "../../../../../src/lib/dates";
+import { BADGE_METRICS, type BadgeMetric, badgeFor } from "../../../../../src/lib/shares";
+import { renderBadge } from "../../../../_lib/badge";
+import { error } from "../../../../_lib/http";
+import { openShareLink } from "../../../../_lib/shares";
+import type { Env } from "../../../../_lib/store";
+
+type Params = "token" | "habitId";
+
+// Long enough for README proxies to cache, short enough to follow the day's logging.
+const BADGE_MAX_AGE = 300;
+
+/** GET /api/shared/:token/badge/:habitId?metric=streak|month — an SVG badge for a shared habit. */
+export const onRequestGet: PagesFunction<Env, Params> = async ({ request, params, env }) => {
+  const metric = (new URL(request.url).searchParams.get("metric") ?? "streak") as BadgeMetric;
+  if (!BADGE_METRICS.includes(metric)) return error(`metric must be one of ${BADGE_METRICS.join(", ")}`);
+
+  const dashboard = await openShareLink(env.DB, params.token as string);
+  const habit = dashboard?.habits.find(h => h.id === params.habitId);
+  if (!dashboard || !habit) return error("Share link not found", 404);
+
+  const badge = badgeFor(habit, dashboard, logicalToday(dashboard.settings), metric);
+  return new Response(renderBadge(badge), {
+    headers: {
+      "content-type": "image/svg+xml; charset=utf-8",
+      "cache-control": `public, max-age=${BADGE_MAX_AGE}`,
+    },
+  });
+};
@@ -0,0 +1,12 @@
+import { error, json } from "../../../_lib/http";
+import { openShareLink } from "../../../_lib/shares";
+import type { Env } from "../../../_lib/store";
+
+type Params = "token";
+
+/** GET /api/shared/:token — the read-only dashboard behind a share link. No session needed. */
+export const onRequestGet: PagesFunction<Env, Params> = async ({ params, env }) => {
+  const dashboard = await openShareLink(env.DB, params.token as string);
+  if (!dashboard) return error("Share link not found", 404);
+  return json(dashboard);
+};
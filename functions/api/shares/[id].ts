@@ -0,0 +1,12 @@
+import type { AuthData } from "../../_lib/auth";
+import { error, json } from "../../_lib/http";
+import { revokeShareLink } from "../../_lib/shares";
+import type { Env } from "../../_lib/store";
+
+type Params = "id";
+
+/** DELETE /api/shares/:id — revokes the link; its dashboard and badges stop working at once. */
+export const onRequestDelete: PagesFunction<Env, Params, AuthData> = async ({ params, env, data }) => {
+  if (!(await revokeShareLink(env.DB, data.user.id, params.id as string))) return error("Share link not found", 404);
+  return json({ ok: true });
+};
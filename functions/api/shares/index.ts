@@ -0,0 +1,19 @@
+import { checkShareScope, readShareScope } from "../../../src/lib/shares";
+import type { AuthData } from "../../_lib/auth";
+import { invalid, json, readJson } from "../../_lib/http";
+import { createShareLink, listShareLinks } from "../../_lib/shares";
+import type { Env } from "../../_lib/store";
+
+/** GET /api/shares — the account's share links, newest first. Tokens are never returned here. */
+export const onRequestGet: PagesFunction<Env, string, AuthData> = async ({ env, data }) => {
+  return json(await listShareLinks(env.DB, data.user.id));
+};
+
+/** POST /api/shares { label?, habitIds?, from?, to? } — creates a read-only link and returns `{ link, token }` once. */
+export const onRequestPost: PagesFunction<Env, string, AuthData> = async ({ request, env, data }) => {
+  const body = await readJson(request);
+  const errors = checkShareScope(body);
+  if (errors.length > 0) return invalid(errors);
+
+  return json(await createShareLink(env.DB, data.user.id, readShareScope(body as Record<string, unknown>)), 201);
+};
@@ -1,37 +1,27 @@
-export interface Env {
-  DB: D1Database;
-}
+import { parseState } from "../../src/lib/schema";
+import type { AuthData } from "../_lib/auth";
+import { invalid, json, readJson } from "../_lib/http";
+import { commit, conflict, etag, readRevision } from "../_lib/revision";
+import { type Env, loadState, replaceState } from "../_lib/store";
 
-const json = (data: unknown, status = 200) =>
-  new Response(JSON.stringify(data), {
-    status,
-    headers: {
-      "content-type": "application/json; charset=utf-8",
-      "cache-control": "no-store",
-    },
-  });
-
-export const onRequestGet: PagesFunction<Env> = async ({ env }) => {
-  const row = await env.DB
-    .prepare("SELECT state_json FROM app_state WHERE id = 1")
-    .first<{ state_json: string }>();
-
-  if (!row) return json({ habits: [], completions: {} });
-
-  try {
-    return json(JSON.parse(row.state_json));
-  } catch {
-    return json({ habits: [], completions: {} });
-  }
+export const onRequestGet: PagesFunction<Env, string, AuthData> = async ({ env, data }) => {
+  const [state, revision] = await Promise.all([loadState(env.DB, data.user.id), readRevision(env.DB, data.user.id)]);
+  return json(state, 200, etag(revision));
 };
 
-export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
-  const body = await request.json();
+/**
+ * Whole-state replace. Day-to-day edits go through /api/habits and /api/completions.
+ * Older `schemaVersion`s are migrated before validation.
+ */
+export const onRequestPost: PagesFunction<Env, string, AuthData> = async ({ request, env, data }) => {
+  const body = await readJson(request);
+  if (body === undefined) return invalid(["body: expected JSON"]);
+
+  const parsed = parseState(body);
+  if (!parsed.ok) return invalid(parsed.errors);
 
-  await env.DB
-    .prepare("UPDATE app_state SET state_json = ?, updated_at = datetime('now') WHERE id = 1")
-    .bind(JSON.stringify(body))
-    .run();
+  const result = await commit(env.DB, request, data.user.id, replaceState(env.DB, data.user.id, parsed.value));
+  if (!result.ok) return conflict(result.revision);
 
-  return json({ ok: true });
+  return json({ ok: true }, 200, etag(result.revision));
 };
@@ -0,0 +1,8 @@
+-- Original single-blob storage read by the first version of /api/state.
+CREATE TABLE IF NOT EXISTS app_state (
+  id INTEGER PRIMARY KEY,
+  state_json TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+INSERT OR IGNORE INTO app_state (id, state_json) VALUES (1, '{"habits":[],"completions":{}}');
@@ -0,0 +1,49 @@
+-- One row per habit; fields beyond id/name (schedule, ...) live in data_json.
+CREATE TABLE IF NOT EXISTS habits (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  data_json TEXT NOT NULL DEFAULT '{}',
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- One row per logged cell. Unlogged cells have no row.
+CREATE TABLE IF NOT EXISTS completions (
+  date TEXT NOT NULL,
+  habit_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('done', 'skipped')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (date, habit_id)
+);
+
+CREATE INDEX IF NOT EXISTS completions_habit_date ON completions (habit_id, date);
+
+CREATE TABLE IF NOT EXISTS settings (
+  key TEXT PRIMARY KEY,
+  value_json TEXT NOT NULL
+);
+
+-- Copy the existing blob into the new tables.
+INSERT OR IGNORE INTO habits (id, name, position, data_json)
+SELECT
+  json_extract(h.value, '$.id'),
+  json_extract(h.value, '$.name'),
+  h.key,
+  json_remove(h.value, '$.id', '$.name')
+FROM app_state, json_each(app_state.state_json, '$.habits') AS h
+WHERE app_state.id = 1;
+
+INSERT OR IGNORE INTO completions (date, habit_id, status)
+SELECT
+  d.key,
+  c.key,
+  CASE WHEN c.type = 'true' THEN 'done' ELSE 'skipped' END
+FROM app_state,
+  json_each(app_state.state_json, '$.completions') AS d,
+  json_each(d.value) AS c
+WHERE app_state.id = 1 AND (c.type = 'true' OR c.value = 'skipped');
+
+INSERT OR IGNORE INTO settings (key, value_json)
+SELECT s.key, CASE WHEN s.type IN ('true', 'false') THEN s.type ELSE json_quote(s.value) END
+FROM app_state, json_each(app_state.state_json, '$.settings') AS s
+WHERE app_state.id = 1;
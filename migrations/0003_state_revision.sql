@@ -0,0 +1,6 @@
+-- Revision counter for optimistic concurrency. Every write bumps it and
+-- clients send it back in If-Match. The CHECK lets a stale write abort its
+-- whole batch by setting the counter to -1 (see functions/_lib/revision.ts).
+ALTER TABLE app_state ADD COLUMN revision INTEGER NOT NULL DEFAULT 0 CHECK (revision >= 0);
+
+INSERT OR IGNORE INTO app_state (id, state_json) VALUES (1, '{"habits":[],"completions":{}}');
@@ -0,0 +1,3 @@
+-- Version of the stored RemoteState shape (SCHEMA_VERSION in src/lib/schema.ts).
+-- The API upgrades older data on first use; see functions/_lib/schema.ts.
+ALTER TABLE app_state ADD COLUMN schema_version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,73 @@
+-- Accounts, magic-link logins and sessions. Tokens and session ids are only
+-- stored as SHA-256 hashes.
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS login_tokens (
+  token_hash TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id_hash TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Key all state by user. Existing rows belong to the 'legacy' owner until
+-- LEGACY_OWNER_EMAIL signs in and claims them.
+CREATE TABLE app_state_new (
+  user_id TEXT PRIMARY KEY,
+  state_json TEXT NOT NULL DEFAULT '{}',
+  revision INTEGER NOT NULL DEFAULT 0 CHECK (revision >= 0),
+  schema_version INTEGER NOT NULL DEFAULT 1,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+INSERT INTO app_state_new (user_id, state_json, revision, schema_version, updated_at)
+SELECT 'legacy', state_json, revision, schema_version, updated_at FROM app_state WHERE id = 1;
+DROP TABLE app_state;
+ALTER TABLE app_state_new RENAME TO app_state;
+
+CREATE TABLE habits_new (
+  user_id TEXT NOT NULL,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  data_json TEXT NOT NULL DEFAULT '{}',
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, id)
+);
+INSERT INTO habits_new (user_id, id, name, position, data_json, updated_at)
+SELECT 'legacy', id, name, position, data_json, updated_at FROM habits;
+DROP TABLE habits;
+ALTER TABLE habits_new RENAME TO habits;
+
+CREATE TABLE completions_new (
+  user_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  habit_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('done', 'skipped')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, date, habit_id)
+);
+INSERT INTO completions_new (user_id, date, habit_id, status, updated_at)
+SELECT 'legacy', date, habit_id, status, updated_at FROM completions;
+DROP TABLE completions;
+ALTER TABLE completions_new RENAME TO completions;
+CREATE INDEX IF NOT EXISTS completions_user_habit_date ON completions (user_id, habit_id, date);
+
+CREATE TABLE settings_new (
+  user_id TEXT NOT NULL,
+  key TEXT NOT NULL,
+  value_json TEXT NOT NULL,
+  PRIMARY KEY (user_id, key)
+);
+INSERT INTO settings_new (user_id, key, value_json)
+SELECT 'legacy', key, value_json FROM settings;
+DROP TABLE settings;
+ALTER TABLE settings_new RENAME TO settings;
@@ -0,0 +1,16 @@
+-- Measured habits log an amount instead of a tick (schema version 3). Rebuilt
+-- because SQLite can't change a CHECK constraint in place.
+CREATE TABLE completions_new (
+  user_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  habit_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('done', 'skipped', 'amount')),
+  amount REAL CHECK ((status = 'amount') = (amount IS NOT NULL) AND (amount IS NULL OR amount >= 0)),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, date, habit_id)
+);
+INSERT INTO completions_new (user_id, date, habit_id, status, updated_at)
+SELECT user_id, date, habit_id, status, updated_at FROM completions;
+DROP TABLE completions;
+ALTER TABLE completions_new RENAME TO completions;
+CREATE INDEX IF NOT EXISTS completions_user_habit_date ON completions (user_id, habit_id, date);
@@ -0,0 +1,17 @@
+-- Avoid habits log slips with an optional note (schema version 4); `amount`
+-- holds the slip count. Rebuilt to widen the CHECK constraints.
+CREATE TABLE completions_new (
+  user_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  habit_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('done', 'skipped', 'amount', 'slip')),
+  amount REAL CHECK ((status IN ('amount', 'slip')) = (amount IS NOT NULL) AND (amount IS NULL OR amount >= 0)),
+  note TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, date, habit_id)
+);
+INSERT INTO completions_new (user_id, date, habit_id, status, amount, updated_at)
+SELECT user_id, date, habit_id, status, amount, updated_at FROM completions;
+DROP TABLE completions;
+ALTER TABLE completions_new RENAME TO completions;
+CREATE INDEX IF NOT EXISTS completions_user_habit_date ON completions (user_id, habit_id, date);
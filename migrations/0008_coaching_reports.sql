@@ -0,0 +1,9 @@
+-- Generated weekly coaching reports, one per user and week (the Monday of the
+-- week reviewed). Regenerating a week overwrites its row.
+CREATE TABLE IF NOT EXISTS coaching_reports (
+  user_id TEXT NOT NULL,
+  week_of TEXT NOT NULL,
+  report_json TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, week_of)
+);
@@ -0,0 +1,7 @@
+-- Days an end-of-day digest went out, so a retried cron run doesn't send twice.
+CREATE TABLE IF NOT EXISTS digests_sent (
+  user_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  sent_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, date)
+);
@@ -0,0 +1,10 @@
+-- Day journal (schema version 9): mood, energy, a note and per-cell notes
+-- and skip reasons, one JSON entry per user and day. Days without any of
+-- those have no row.
+CREATE TABLE IF NOT EXISTS journal (
+  user_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  entry_json TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, date)
+);
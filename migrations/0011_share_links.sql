@@ -0,0 +1,15 @@
+-- Read-only share links. Like login tokens, only the SHA-256 hash of a link's
+-- token is stored; revoking a link deletes its row.
+CREATE TABLE IF NOT EXISTS share_links (
+  id TEXT PRIMARY KEY,
+  token_hash TEXT NOT NULL UNIQUE,
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  label TEXT NOT NULL DEFAULT '',
+  -- JSON array of habit ids, or NULL for every habit.
+  habit_ids_json TEXT,
+  from_date TEXT,
+  to_date TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  last_used_at TEXT
+);
+CREATE INDEX IF NOT EXISTS share_links_user ON share_links (user_id);
@@ -0,0 +1,74 @@
+// Keeps the app shell cached so the dashboard opens offline and installs as
+// a PWA, shows habit reminders (see src/hooks/useReminders.ts) and brings the
+// dashboard to the front when one is clicked. API calls are never cached;
+// offline edits wait in the IndexedDB queue of src/hooks/useSync.ts.
+const CACHE = 'habit-shell-v1';
+
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png', '/apple-touch-icon.png'];
+
+// The built index.html links its hashed bundles; cache those with it.
+const linkedAssets = html => Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), match => match[1]);
+
+const precache = async () => {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(SHELL);
+  const page = await cache.match('/');
+  if (page) await cache.addAll(linkedAssets(await page.text()));
+};
+
+self.addEventListener('install', event => event.waitUntil(precache().then(() => self.skipWaiting())));
+
+self.addEventListener('activate', event =>
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+);
+
+// Pages: network first so deploys show up at once, the cached shell offline.
+const fromNetworkOrShell = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE);
+      await cache.put('/', response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match('/')) || Response.error();
+  }
+};
+
+// Hashed bundles never change, so a cached copy is always current.
+const fromCacheOrNetwork = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') event.respondWith(fromNetworkOrShell(request));
+  else if (url.pathname.startsWith('/assets/') || SHELL.includes(url.pathname)) event.respondWith(fromCacheOrNetwork(request));
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => 'focus' in client);
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
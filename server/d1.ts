@@ -0,0 +1,81 @@
+import Database from 'better-sqlite3';
+
+type Row = Record<string, unknown>;
+
+export interface D1Result<T = Row> {
+  results: T[];
+  success: true;
+  meta: { changes: number; last_row_id: number };
+}
+
+// D1 binds booleans as integers and has no `undefined`.
+const toSqlite = (value: unknown) => (typeof value === 'boolean' ? Number(value) : value === undefined ? null : value);
+
+/** One statement, mirroring the parts of `D1PreparedStatement` the Functions use. */
+export class SqliteStatement {
+  constructor(
+    private readonly db: Database.Database,
+    readonly sql: string,
+    private readonly params: unknown[] = []
+  ) {}
+
+  bind(...values: unknown[]) {
+    return new SqliteStatement(this.db, this.sql, values.map(toSqlite));
+  }
+
+  /** Runs synchronously; used by `batch` inside a transaction. */
+  execute<T = Row>(): D1Result<T> {
+    const statement = this.db.prepare(this.sql);
+    if (statement.reader) {
+      return { results: statement.all(...this.params) as T[], success: true, meta: { changes: 0, last_row_id: 0 } };
+    }
+    const info = statement.run(...this.params);
+    return { results: [], success: true, meta: { changes: info.changes, last_row_id: Number(info.lastInsertRowid) } };
+  }
+
+  async first<T = Row>(column?: string): Promise<T | null> {
+    const row = this.db.prepare(this.sql).get(...this.params) as Row | undefined;
+    if (!row) return null;
+    return (column ? row[column] : row) as T;
+  }
+
+  async all<T = Row>() {
+    return this.execute<T>();
+  }
+
+  async run<T = Row>() {
+    return this.execute<T>();
+  }
+
+  async raw<T = unknown[]>() {
+    return this.db.prepare(this.sql).raw().all(...this.params) as T[];
+  }
+}
+
+/**
+ * A `D1Database` stand-in over a local SQLite file, so the Pages Functions in
+ * `functions/` run unchanged under Node.
+ */
+export class SqliteD1 {
+  readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+  }
+
+  prepare(sql: string) {
+    return new SqliteStatement(this.db, sql);
+  }
+
+  /** Like D1, all statements succeed or none do. */
+  async batch<T = Row>(statements: SqliteStatement[]) {
+    return this.db.transaction(() => statements.map(statement => statement.execute<T>()))();
+  }
+
+  async exec(sql: string) {
+    this.db.exec(sql);
+    return { count: 0, duration: 0 };
+  }
+}
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+type Context = {
+  request: Request;
+  env: Record<string, unknown>;
+  params: Record<string, string>;
+  data: Record<string, unknown>;
+  next: () => Promise<Response>;
+};
+
+type Handler = (context: Context) => Response | Promise<Response>;
+type FunctionModule = Partial<Record<string, Handler>>;
+
+interface Route {
+  segments: string[];
+  file: string;
+  // `_middleware.ts` files from the outermost directory inwards.
+  middleware: string[];
+}
+
+const isParam = (segment: string) => segment.startsWith('[') && segment.endsWith(']');
+
+/**
+ * Builds the route table the way Cloudflare Pages does: every `.ts` file under
+ * `dir` is a route, `index` maps to its directory, `[name]` is a parameter and
+ * `_middleware.ts` wraps everything below it. Folders starting with `_` are
+ * shared code, not routes.
+ */
+export function discoverRoutes(dir: string) {
+  const routes: Route[] = [];
+
+  const walk = (folder: string, segments: string[], middleware: string[]) => {
+    const entries = fs.readdirSync(folder, { withFileTypes: true });
+    const own = path.join(folder, '_middleware.ts');
+    const chain = fs.existsSync(own) ? [...middleware, own] : middleware;
+
+    for (const entry of entries) {
+      const full = path.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('_')) walk(full, [...segments, entry.name], chain);
+      } else if (entry.name.endsWith('.ts') && !entry.name.startsWith('_')) {
+        const name = entry.name.slice(0, -3);
+        routes.push({ segments: name === 'index' ? segments : [...segments, name], file: full, middleware: chain });
+      }
+    }
+  };
+  walk(dir, [], []);
+
+  // Static segments win over parameters, like Pages.
+  const rank = (route: Route) => route.segments.map(s => (isParam(s) ? '1' : '0')).join('');
+  return routes.sort((a, b) => b.segments.length - a.segments.length || rank(a).localeCompare(rank(b)));
+}
+
+const match = (route: Route, parts: string[]) => {
+  if (route.segments.length !== parts.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < parts.length; i++) {
+    const segment = route.segments[i];
+    if (isParam(segment)) params[segment.slice(1, -1)] = decodeURIComponent(parts[i]);
+    else if (segment !== parts[i]) return null;
+  }
+  return params;
+};
+
+const load = (file: string) => import(pathToFileURL(file).href) as Promise<FunctionModule>;
+
+const handlerFor = (mod: FunctionModule, method: string) => {
+  const name = `onRequest${method.charAt(0)}${method.slice(1).toLowerCase()}`;
+  return mod[name] ?? mod.onRequest;
+};
+
+/** Runs `request` through the matching Function and its middleware, or returns `null` when nothing matches. */
+export async function dispatch(routes: Route[], request: Request, env: Record<string, unknown>) {
+  const parts = new URL(request.url).pathname.split('/').filter(Boolean);
+
+  for (const route of routes) {
+    const params = match(route, parts);
+    if (!params) continue;
+
+    const handler = handlerFor(await load(route.file), request.method);
+    const middleware = await Promise.all(route.middleware.map(async file => handlerFor(await load(file), request.method)));
+    const data: Record<string, unknown> = {};
+
+    const run = async (index: number): Promise<Response> => {
+      if (index < middleware.length) {
+        const outer = middleware[index];
+        return outer ? outer({ request, env, params, data, next: () => run(index + 1) }) : run(index + 1);
+      }
+      if (!handler) return new Response('Method Not Allowed', { status: 405 });
+      return handler({ request, env, params, data, next: () => Promise.resolve(new Response('Not Found', { status: 404 })) });
+    };
+    return run(0);
+  }
+
+  return null;
+}
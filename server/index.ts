@@ -0,0 +1,68 @@
+import 'dotenv/config';
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { createServer as createViteServer } from 'vite';
+import { SqliteD1 } from './d1';
+import { discoverRoutes, dispatch } from './functions';
+import { applyMigrations } from './migrations';
+
+/**
+ * Local stand-in for Cloudflare Pages: serves the app through Vite and runs
+ * the Functions in `functions/` against SQLite with the D1 migrations applied.
+ *
+ *   npm run dev:local
+ */
+const root = path.resolve(import.meta.dirname, '..');
+const port = Number(process.env.PORT ?? 3000);
+const dbFile = process.env.LOCAL_DB ?? path.join(root, '.data', 'dev.sqlite');
+
+if (dbFile !== ':memory:') fs.mkdirSync(path.dirname(dbFile), { recursive: true });
+const db = new SqliteD1(dbFile);
+const applied = applyMigrations(db, path.join(root, 'migrations'));
+if (applied.length > 0) console.log(`Applied migrations: ${applied.join(', ')}`);
+
+const env: Record<string, unknown> = {
+  // Without a mail relay the sign-in link comes back in the response.
+  AUTH_DEV_ECHO_LINK: 'true',
+  ...process.env,
+  DB: db
+};
+const routes = discoverRoutes(path.join(root, 'functions'));
+
+const app = express();
+
+app.use('/api', express.raw({ type: '*/*', limit: '10mb' }), async (req, res, next) => {
+  try {
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+    });
+    const hasBody = !['GET', 'HEAD'].includes(req.method) && Buffer.isBuffer(req.body) && req.body.length > 0;
+    const request = new Request(`http://${req.headers.host ?? `localhost:${port}`}${req.originalUrl}`, {
+      method: req.method,
+      headers,
+      body: hasBody ? req.body : undefined
+    });
+
+    const response = await dispatch(routes, request, env);
+    if (!response) return res.status(404).json({ error: 'Not found' });
+
+    res.status(response.status);
+    response.headers.forEach((value, key) => {
+      if (key !== 'set-cookie') res.setHeader(key, value);
+    });
+    const cookies = response.headers.getSetCookie();
+    if (cookies.length > 0) res.setHeader('set-cookie', cookies);
+    res.end(Buffer.from(await response.arrayBuffer()));
+  } catch (err) {
+    next(err);
+  }
+});
+
+const vite = await createViteServer({ root, server: { middlewareMode: true }, appType: 'spa' });
+app.use(vite.middlewares);
+
+app.listen(port, '0.0.0.0', () => {
+  console.log(`Local server on http://localhost:${port} (database: ${dbFile})`);
+});
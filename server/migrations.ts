@@ -0,0 +1,32 @@
+import fs from 'fs';
+import path from 'path';
+import type { SqliteD1 } from './d1';
+
+/**
+ * Applies `migrations/*.sql` that haven't run yet, tracked in the same
+ * `d1_migrations` table `wrangler d1 migrations apply` uses.
+ */
+export function applyMigrations(d1: SqliteD1, dir: string) {
+  d1.db.exec(`CREATE TABLE IF NOT EXISTS d1_migrations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE,
+    applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  const applied = new Set(
+    (d1.db.prepare('SELECT name FROM d1_migrations').all() as { name: string }[]).map(row => row.name)
+  );
+  const pending = fs
+    .readdirSync(dir)
+    .filter(name => name.endsWith('.sql') && !applied.has(name))
+    .sort();
+
+  for (const name of pending) {
+    const sql = fs.readFileSync(path.join(dir, name), 'utf8');
+    d1.db.transaction(() => {
+      d1.db.exec(sql);
+      d1.db.prepare('INSERT INTO d1_migrations (name) VALUES (?)').run(name);
+    })();
+  }
+  return pending;
+}
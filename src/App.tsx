@@ -1,12 +1,18 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import {
   format,
   startOfMonth,
   endOfMonth,
+  startOfWeek,
+  endOfWeek,
   eachDayOfInterval,
   isSameDay,
+  addDays,
   addMonths,
-  subMonths
+  addWeeks,
+  differenceInCalendarDays,
+  startOfDay,
+  subDays
 } from 'date-fns';
 import {
   BarChart,
@@ -21,9 +27,10 @@ import {
   Cell,
   LineChart,
   Line,
-  AreaChart,
+  ComposedChart,
   Area,
-  LabelList
+  LabelList,
+  ReferenceLine
 } from 'recharts';
 import {
   ChevronLeft,
@@ -38,179 +45,361 @@ import {
   Minus,
   Plus,
   Pencil,
-  Trash2,
   X,
   Save,
   Undo2,
-  Calendar
+  Redo2,
+  Keyboard,
+  Calendar,
+  CalendarClock,
+  Flame,
+  LogOut,
+  ArrowDownUp,
+  Target,
+  ShieldCheck,
+  Terminal,
+  History,
+  Archive,
+  ArchiveRestore,
+  GripVertical,
+  ChevronDown,
+  Bell,
+  BellOff,
+  BookOpen,
+  Link2,
+  Mail
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { cn } from './lib/utils';
-import { INITIAL_HABITS, type Habit, type HabitCompletion } from './types';
+import { fromDateKey, logicalToday, toDateKey } from './lib/dates';
+import { describeSchedule, isHabitDue } from './lib/schedule';
+import { computeStreaks, summarizeSlips } from './lib/streaks';
+import { creditFor, describeStatus, describeTarget, formatAmount, isAmount, isAvoid, isDone, isSlip, sameStatus } from './lib/scoring';
+import { useSync, type SyncStatus } from './hooks/useSync';
+import { useReminders } from './hooks/useReminders';
+import { useHistory } from './hooks/useHistory';
+import { useToday } from './hooks/useToday';
+import { type HistoryState, cellLabel, diffStates } from './lib/history';
+import { cellNoteOf, describeNote, journalScores, withEntry, withoutHabit } from './lib/journal';
+import { combinedStats, dailyProgress, habitStats, overallStats, yearStats } from './lib/stats';
+import { activeHabits, groupHabits, groupNames, habitsShownIn, isArchived, moveHabit, moveToGroup } from './lib/groups';
+import type { ImportMode, TransferFormat } from './lib/transfer';
+import LoginScreen from './components/LoginScreen';
+import ScheduleEditor from './components/ScheduleEditor';
+import SlipEditor from './components/SlipEditor';
+import DataTransfer from './components/DataTransfer';
+import YearHeatmap from './components/YearHeatmap';
+import HabitAnalytics from './components/HabitAnalytics';
+import CoachReport from './components/CoachReport';
+import QuickLog from './components/QuickLog';
+import HistoryPanel from './components/HistoryPanel';
+import ArchivedHabits from './components/ArchivedHabits';
+import DayJournal from './components/DayJournal';
+import DaySettings from './components/DaySettings';
+import DayLog from './components/DayLog';
+import SharePanel from './components/SharePanel';
+import {
+  DEFAULT_SETTINGS,
+  INITIAL_HABITS,
+  type AppSettings,
+  type Habit,
+  type HabitCompletion,
+  type HabitStatus,
+  type Journal,
+  type JournalEntry,
+  type RemoteState,
+  type SlipLog
+} from './types';
 
 const COLORS = ['#00ffff', 'rgba(255, 255, 255, 0.05)'];
 
-type RemoteState = {
-  habits: Habit[];
-  completions: HabitCompletion;
+type MatrixView = 'month' | 'week' | 'range' | 'day';
+
+const MATRIX_VIEWS: { value: MatrixView; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'range', label: 'Range' }
+];
+
+// Phones and the manifest's "Log today" shortcut (`?view=day`) open on the single-day view.
+const initialView = (): MatrixView =>
+  new URLSearchParams(window.location.search).get('view') === 'day' || window.matchMedia('(max-width: 767px)').matches ? 'day' : 'month';
+
+// Keeps a custom range readable as table columns.
+const MAX_RANGE_DAYS = 92;
+
+// Habit Description column bounds, in px; arrow keys move the resizer by RESIZE_STEP.
+const MIN_DESCRIPTION_WIDTH = 200;
+const MAX_DESCRIPTION_WIDTH = 600;
+const RESIZE_STEP = 16;
+
+// Default habits start counting (and avoid habits counting clean days) from the first run.
+const initialHabits = (today = new Date()) => {
+  const todayKey = toDateKey(today);
+  return INITIAL_HABITS.map(h => ({
+    ...h,
+    createdAt: new Date().toISOString(),
+    startDate: todayKey,
+    ...(h.polarity === 'avoid' && !h.avoidSince ? { avoidSince: todayKey } : {})
+  }));
+};
+
+const SYNC_STATUS: Record<SyncStatus, { label: string; dot: string }> = {
+  loading: { label: 'Loading', dot: 'bg-white/30 animate-pulse' },
+  synced: { label: 'Synced', dot: 'bg-emerald-500' },
+  syncing: { label: 'Syncing', dot: 'bg-[#00ffff] animate-pulse' },
+  offline: { label: 'Offline', dot: 'bg-amber-500' },
+  error: { label: 'Save failed, retrying', dot: 'bg-red-600 animate-pulse' },
+  signedOut: { label: 'Signed out', dot: 'bg-white/30' }
 };
 
 export default function App() {
-  const [currentDate, setCurrentDate] = useState(new Date());
+  // Periods start from the user's day, not the device clock; see the effect below `today`.
+  const [currentDate, setCurrentDate] = useState(() => logicalToday(DEFAULT_SETTINGS));
+  const [view, setView] = useState<MatrixView>(initialView);
+  const [customRange, setCustomRange] = useState(() => ({
+    from: toDateKey(subDays(logicalToday(DEFAULT_SETTINGS), 13)),
+    to: toDateKey(logicalToday(DEFAULT_SETTINGS))
+  }));
 
   // IMPORTANT: No UI/layout changes. Only persistence logic changed.
-  const [habits, setHabits] = useState<Habit[]>(INITIAL_HABITS);
+  const [habits, setHabits] = useState<Habit[]>(initialHabits);
   const [completions, setCompletions] = useState<HabitCompletion>({});
-  const [hydrated, setHydrated] = useState(false);
+  const [journal, setJournal] = useState<Journal>({});
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  // The user's day, in their time zone and past their rollover hour; every "today" below is this.
+  const today = useToday(settings);
+  const todayKey = toDateKey(today);
+
+  // The Daily Matrix follows the user's day when settings load or it rolls
+  // over, so "Log today" opens on it; a period navigated to elsewhere stays.
+  const followedToday = useRef(today);
+  useEffect(() => {
+    const previous = followedToday.current;
+    followedToday.current = today;
+    setCurrentDate(date => (isSameDay(date, previous) ? today : date));
+    const shift = differenceInCalendarDays(today, previous);
+    setCustomRange(range =>
+      range.to === toDateKey(previous) && shift !== 0
+        ? { from: toDateKey(addDays(fromDateKey(range.from), shift)), to: toDateKey(today) }
+        : range
+    );
+  }, [today]);
 
-  // Undo History
-  const [history, setHistory] = useState<{ habits: Habit[]; completions: HabitCompletion }[]>([]);
+  // -----------------------
+  // Persistence: IndexedDB snapshot + queued writes to /api/habits,
+  // /api/completions and /api/settings (see useSync).
+  // -----------------------
+  const remoteState = useMemo<RemoteState>(
+    () => ({ habits, completions, journal, settings }),
+    [habits, completions, journal, settings]
+  );
 
-  const pushToHistory = (currentHabits: Habit[], currentCompletions: HabitCompletion) => {
-    setHistory(prev => {
-      const newHistory = [
-        ...prev,
-        {
-          habits: JSON.parse(JSON.stringify(currentHabits)),
-          completions: JSON.parse(JSON.stringify(currentCompletions))
-        }
-      ];
-      if (newHistory.length > 50) return newHistory.slice(1);
-      return newHistory;
-    });
+  const applyRemoteState = useCallback((state: RemoteState) => {
+    setHabits(state.habits);
+    setCompletions(state.completions);
+    setJournal(state.journal ?? {});
+    setSettings({ ...DEFAULT_SETTINGS, ...(state.settings && typeof state.settings === 'object' ? state.settings : {}) });
+  }, []);
+
+  // An empty server gets the default habits, same as a first run always did.
+  const seedRemoteState = useCallback(
+    (state: RemoteState): RemoteState => ({
+      ...state,
+      habits: state.habits.length > 0 ? state.habits : initialHabits(logicalToday({ ...DEFAULT_SETTINGS, ...state.settings })),
+      settings: { ...DEFAULT_SETTINGS, ...state.settings }
+    }),
+    []
+  );
+
+  const sync = useSync(remoteState, applyRemoteState, seedRemoteState);
+  const reminders = useReminders(habits, completions, settings);
+
+  // Undo History: each action is stored as a labelled patch (see lib/history).
+  const history = useHistory(sync.user?.id ?? null);
+
+  const showState = (state: HistoryState | null) => {
+    if (!state) return;
+    setHabits(state.habits);
+    setCompletions(state.completions);
+    setJournal(state.journal);
   };
 
-  const undo = () => {
-    if (history.length === 0) return;
-    const lastState = history[history.length - 1];
-    setHabits(lastState.habits);
-    setCompletions(lastState.completions);
-    setHistory(prev => prev.slice(0, -1));
+  /** Moves to `next` as one undoable step called `label`; parts left out stay as they are. */
+  const commit = (label: string, next: Partial<HistoryState>) => {
+    const after = { habits, completions, journal, ...next };
+    const entry = diffStates(label, { habits, completions, journal }, after);
+    if (!entry) return;
+    showState(after);
+    history.record(entry);
   };
 
+  const undo = () => showState(history.undo({ habits, completions, journal }));
+
+  const redo = () => showState(history.redo({ habits, completions, journal }));
+
+  const jumpToEntry = (entryId: string) => showState(history.jumpTo({ habits, completions, journal }, entryId));
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, except while typing.
+  const historyKeys = useRef({ undo, redo });
+  historyKeys.current = { undo, redo };
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) historyKeys.current.undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') historyKeys.current.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const [editingHabitId, setEditingHabitId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
   const [isAdding, setIsAdding] = useState(false);
+  const [schedulingHabitId, setSchedulingHabitId] = useState<string | null>(null);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isQuickLogOpen, setIsQuickLogOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isDaySettingsOpen, setIsDaySettingsOpen] = useState(false);
+  const [draggedHabitId, setDraggedHabitId] = useState<string | null>(null);
+  const [editingCell, setEditingCell] = useState<{ dateKey: string; habitId: string } | null>(null);
+  const [slipCell, setSlipCell] = useState<{ dateKey: string; habitId: string } | null>(null);
+  // Day open in the journal panel, and the habit whose note to focus.
+  const [journalDay, setJournalDay] = useState<{ dateKey: string; habitId?: string } | null>(null);
+  const [cellValue, setCellValue] = useState('');
+  const [chartHabitId, setChartHabitId] = useState<string | null>(null);
   const [newValue, setNewValue] = useState('');
+  // Backdating a new habit makes the days since then count.
+  const [newStartDate, setNewStartDate] = useState(todayKey);
   const [descriptionWidth, setDescriptionWidth] = useState(300);
   const [isResizing, setIsResizing] = useState(false);
 
-  const startResizing = (e: React.MouseEvent) => {
+  const clampWidth = (width: number) => Math.max(MIN_DESCRIPTION_WIDTH, Math.min(MAX_DESCRIPTION_WIDTH, width));
+
+  // Pointer events cover mouse, pen and touch alike.
+  const startResizing = (e: React.PointerEvent) => {
     e.preventDefault();
     setIsResizing(true);
   };
 
+  const resizeWithKeys = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? RESIZE_STEP * 4 : RESIZE_STEP;
+    const next =
+      e.key === 'ArrowLeft'
+        ? descriptionWidth - step
+        : e.key === 'ArrowRight'
+          ? descriptionWidth + step
+          : e.key === 'Home'
+            ? MIN_DESCRIPTION_WIDTH
+            : e.key === 'End'
+              ? MAX_DESCRIPTION_WIDTH
+              : null;
+    if (next === null) return;
+    e.preventDefault();
+    setDescriptionWidth(clampWidth(next));
+  };
+
   useEffect(() => {
     if (!isResizing) return;
 
-    const handleMouseMove = (e: MouseEvent) => {
-      const newWidth = Math.max(200, Math.min(600, e.clientX - 32)); // 32 is roughly the padding/offset
-      setDescriptionWidth(newWidth);
+    const handlePointerMove = (e: PointerEvent) => {
+      setDescriptionWidth(clampWidth(e.clientX - 32)); // 32 is roughly the padding/offset
     };
 
-    const handleMouseUp = () => {
+    const handlePointerUp = () => {
       setIsResizing(false);
     };
 
-    window.addEventListener('mousemove', handleMouseMove);
-    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
     return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
     };
   }, [isResizing]);
 
-  // -----------------------
-  // Remote load (GET /api/state)
-  // -----------------------
-  useEffect(() => {
-    let cancelled = false;
-
-    const load = async () => {
-      try {
-        const res = await fetch('/api/state', { method: 'GET' });
-
-        // If the endpoint returns something unexpected, we still hydrate with defaults.
-        if (!res.ok) throw new Error(`GET /api/state failed: ${res.status}`);
-
-        const data = (await res.json()) as Partial<RemoteState> | unknown;
-
-        if (cancelled) return;
-
-        const obj = (data && typeof data === 'object') ? (data as Partial<RemoteState>) : null;
-
-        const nextHabits =
-          obj?.habits && Array.isArray(obj.habits) && obj.habits.length > 0
-            ? obj.habits
-            : INITIAL_HABITS;
-
-        const nextCompletions =
-          obj?.completions && typeof obj.completions === 'object'
-            ? (obj.completions as HabitCompletion)
-            : {};
-
-        setHabits(nextHabits);
-        setCompletions(nextCompletions);
-      } catch {
-        // If loading fails, still allow app to run with defaults
-        setHabits(INITIAL_HABITS);
-        setCompletions({});
-      } finally {
-        if (!cancelled) setHydrated(true);
-      }
-    };
-
-    load();
-
-    return () => {
-      cancelled = true;
-    };
-  }, []);
-
-  // -----------------------
-  // Remote save (POST /api/state)
-  // Debounced so we don't spam writes on rapid clicking.
-  // -----------------------
-  useEffect(() => {
-    if (!hydrated) return;
-
-    const timer = window.setTimeout(() => {
-      const payload: RemoteState = { habits, completions };
-
-      fetch('/api/state', {
-        method: 'POST',
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify(payload)
-      }).catch(() => {
-        // Intentionally silent: app must keep working even if save fails
-      });
-    }, 300);
-
-    return () => {
-      window.clearTimeout(timer);
-    };
-  }, [habits, completions, hydrated]);
-
   const addHabit = () => {
     if (!newValue.trim()) return;
-    pushToHistory(habits, completions);
     const newHabit: Habit = {
       id:
         typeof crypto !== 'undefined' && (crypto as any).randomUUID
           ? (crypto as any).randomUUID()
           : Math.random().toString(36).substring(2, 11),
-      name: newValue.trim()
+      name: newValue.trim(),
+      createdAt: new Date().toISOString(),
+      startDate: newStartDate || todayKey
     };
-    setHabits(prev => [...prev, newHabit]);
+    commit(`Added habit ${newHabit.name}`, { habits: [...habits, newHabit], completions });
     setNewValue('');
+    setNewStartDate(todayKey);
     setIsAdding(false);
   };
 
+  // Deleting also drops the habit's entries and notes so none are left orphaned.
   const deleteHabit = (id: string) => {
-    pushToHistory(habits, completions);
-    setHabits(prev => prev.filter(h => h.id !== id));
+    const habit = habits.find(h => h.id === id);
+    const next: HabitCompletion = {};
+    Object.keys(completions).forEach(date => {
+      const { [id]: _, ...rest } = completions[date];
+      if (Object.keys(rest).length > 0) next[date] = rest;
+    });
+    commit(`Deleted habit ${habit?.name ?? ''}`.trim(), {
+      habits: habits.filter(h => h.id !== id),
+      completions: next,
+      journal: withoutHabit(journal, id)
+    });
   };
 
+  const archiveHabit = (id: string) => {
+    const habit = habits.find(h => h.id === id);
+    commit(`Archived ${habit?.name}`, {
+      habits: habits.map(h => (h.id === id ? { ...h, archivedOn: todayKey } : h)),
+      completions
+    });
+  };
+
+  const restoreHabit = (id: string) => {
+    const habit = habits.find(h => h.id === id);
+    commit(`Restored ${habit?.name}`, {
+      habits: habits.map(h => {
+        if (h.id !== id) return h;
+        const { archivedOn: _, ...rest } = h;
+        return rest;
+      }),
+      completions
+    });
+  };
+
+  const reorderHabit = (id: string, targetId: string) => {
+    const habit = habits.find(h => h.id === id);
+    commit(`Moved ${habit?.name}`, { habits: moveHabit(habits, id, targetId), completions });
+  };
+
+  const moveHabitToGroup = (id: string, group: string) => {
+    const habit = habits.find(h => h.id === id);
+    commit(group ? `Moved ${habit?.name} to ${group}` : `Ungrouped ${habit?.name}`, { habits: moveToGroup(habits, id, group), completions });
+  };
+
+  // Folding is a view preference, so it syncs with settings but isn't an undo step.
+  const toggleGroup = (group: string) =>
+    setSettings(prev => {
+      const collapsed = prev.collapsedGroups ?? [];
+      return {
+        ...prev,
+        collapsedGroups: collapsed.includes(group) ? collapsed.filter(g => g !== group) : [...collapsed, group]
+      };
+    });
+
   const startEditing = (habit: Habit) => {
     setEditingHabitId(habit.id);
     setEditValue(habit.name);
@@ -218,148 +407,307 @@ export default function App() {
 
   const saveEdit = () => {
     if (!editValue.trim()) return;
-    pushToHistory(habits, completions);
-    setHabits(prev => prev.map(h => (h.id === editingHabitId ? { ...h, name: editValue.trim() } : h)));
+    const habit = habits.find(h => h.id === editingHabitId);
+    commit(`Renamed ${habit?.name} to ${editValue.trim()}`, {
+      habits: habits.map(h => (h.id === editingHabitId ? { ...h, name: editValue.trim() } : h)),
+      completions
+    });
     setEditingHabitId(null);
   };
 
-  const daysInMonth = useMemo(() => {
-    const start = startOfMonth(currentDate);
-    const end = endOfMonth(currentDate);
-    return eachDayOfInterval({ start, end });
-  }, [currentDate]);
+  const saveSchedule = (
+    habitId: string,
+    changes: Partial<Pick<Habit, 'schedule' | 'target' | 'polarity' | 'avoidSince' | 'reminders' | 'group' | 'startDate' | 'endDate'>>,
+    label = `Changed schedule of ${habits.find(h => h.id === habitId)?.name}`
+  ) => {
+    commit(label, { habits: habits.map(h => (h.id === habitId ? { ...h, ...changes } : h)), completions });
+    setSchedulingHabitId(null);
+  };
+
+  // The server applies the import in one batch; the UI then shows its result.
+  const importFile = async (text: string, format: TransferFormat, mode: ImportMode) => {
+    const before = { habits, completions, journal };
+    const state = await sync.importFile(text, format, mode);
+    const entry = diffStates('Imported data', before, { ...state, journal: state.journal ?? {} });
+    if (entry) history.record(entry);
+    setIsTransferOpen(false);
+  };
+
+  const schedulingHabit = habits.find(h => h.id === schedulingHabitId);
+  const slipHabit = slipCell ? habits.find(h => h.id === slipCell.habitId) : undefined;
+
+  // Days shown as Daily Matrix columns; every per-period stat follows them.
+  const visibleDays = useMemo(() => {
+    if (view === 'day') return [startOfDay(currentDate)];
+    if (view === 'week') {
+      return eachDayOfInterval({ start: startOfWeek(currentDate, { weekStartsOn: 1 }), end: endOfWeek(currentDate, { weekStartsOn: 1 }) });
+    }
+    if (view === 'range') {
+      const [from, to] = [customRange.from, customRange.to].sort().map(fromDateKey);
+      return eachDayOfInterval({ start: from, end: to }).slice(0, MAX_RANGE_DAYS);
+    }
+    return eachDayOfInterval({ start: startOfMonth(currentDate), end: endOfMonth(currentDate) });
+  }, [view, currentDate, customRange]);
+
+  const firstVisible = visibleDays[0];
+  const lastVisible = visibleDays[visibleDays.length - 1];
+
+  // Daily Matrix rows: habits with no active day in the period are left out,
+  // folded groups keep only their header.
+  const firstVisibleKey = toDateKey(firstVisible);
+  const lastVisibleKey = toDateKey(lastVisible);
+  const matrixGroups = useMemo(
+    () => groupHabits(habitsShownIn(habits, firstVisibleKey, lastVisibleKey)),
+    [habits, firstVisibleKey, lastVisibleKey]
+  );
+  const showGroupHeaders = matrixGroups.some(group => group.name !== '');
+  const collapsedGroups = settings.collapsedGroups ?? [];
+  const isCollapsed = (group: string) => showGroupHeaders && collapsedGroups.includes(group);
+  const matrixRows = matrixGroups.flatMap(group => (isCollapsed(group.name) ? [] : group.habits));
+  const archivedHabits = habits.filter(isArchived);
+  const periodLabel =
+    view === 'month'
+      ? format(currentDate, 'MMMM')
+      : view === 'day'
+        ? format(currentDate, 'EEE, MMM d')
+        : `${format(firstVisible, 'MMM d')} – ${format(lastVisible, 'MMM d')}`;
+
+  const shiftPeriod = (direction: 1 | -1) => {
+    if (view === 'month') setCurrentDate(prev => addMonths(prev, direction));
+    else if (view === 'week') setCurrentDate(prev => addWeeks(prev, direction));
+    else if (view === 'day') setCurrentDate(prev => addDays(prev, direction));
+    else {
+      const offset = visibleDays.length * direction;
+      setCustomRange({
+        from: toDateKey(addDays(firstVisible, offset)),
+        to: toDateKey(addDays(lastVisible, offset))
+      });
+    }
+  };
+
+  const showWeekOf = (date: Date) => {
+    setView('week');
+    setCurrentDate(date);
+  };
+
+  // Several cells as one undo step; `null` clears a cell.
+  const applyCellChanges = (changes: { date: string; habitId: string; status: HabitStatus | null }[], label?: string) => {
+    const next = { ...completions };
+    changes.forEach(({ date, habitId, status }) => {
+      next[date] = { ...(next[date] || {}), [habitId]: status ?? undefined };
+    });
+    const [first] = changes;
+    commit(
+      label ?? (changes.length === 1 ? cellLabel(habits.find(h => h.id === first.habitId), first.date, first.status ?? undefined) : `Logged ${changes.length} cells`),
+      { habits, completions: next }
+    );
+  };
+
+  const setCellStatus = (dateKey: string, habitId: string, status: HabitStatus) =>
+    applyCellChanges([{ date: dateKey, habitId, status }]);
 
   const cycleHabitState = (date: Date, habitId: string, e?: React.MouseEvent) => {
     if (e) e.preventDefault();
-    pushToHistory(habits, completions);
-    const dateKey = format(date, 'yyyy-MM-dd');
-    setCompletions(prev => {
-      const currentStatus = prev[dateKey]?.[habitId];
-      let nextStatus: any;
+    const dateKey = toDateKey(date);
+    const currentStatus = completions[dateKey]?.[habitId];
+    let nextStatus: HabitStatus;
 
-      if (!currentStatus) nextStatus = true;
-      else if (currentStatus === true) nextStatus = 'skipped';
-      else nextStatus = undefined;
+    if (!currentStatus) nextStatus = true;
+    else if (currentStatus === true) nextStatus = 'skipped';
+    else nextStatus = undefined;
 
-      return {
-        ...prev,
-        [dateKey]: {
-          ...(prev[dateKey] || {}),
-          [habitId]: nextStatus
-        }
-      };
-    });
+    setCellStatus(dateKey, habitId, nextStatus);
   };
 
-  const getHabitStats = (habitId: string) => {
-    let count = 0;
-    let total = 0;
-
-    daysInMonth.forEach(day => {
-      const dateKey = format(day, 'yyyy-MM-dd');
-      const status = completions[dateKey]?.[habitId];
-      if (status !== 'skipped') {
-        total += 1;
-        if (status === true) count += 1;
-      }
-    });
+  // Measured habits: click to type an amount, right-click to toggle skipped.
+  const startCellEntry = (dateKey: string, habitId: string) => {
+    const status = completions[dateKey]?.[habitId];
+    setEditingCell({ dateKey, habitId });
+    setCellValue(isAmount(status) ? String(status) : '');
+  };
 
-    const percentage = total === 0 ? 0 : Math.round((count / total) * 100);
-    return { count, total, percentage };
+  const saveCellEntry = () => {
+    if (!editingCell) return;
+    const { dateKey, habitId } = editingCell;
+    const amount = cellValue.trim() === '' ? undefined : Number(cellValue);
+    setEditingCell(null);
+    if (amount !== undefined && !isAmount(amount)) return;
+    if (amount !== completions[dateKey]?.[habitId]) setCellStatus(dateKey, habitId, amount);
   };
 
-  const dailyProgressData = useMemo(() => {
-    return daysInMonth.map(day => {
-      const dateKey = format(day, 'yyyy-MM-dd');
-      const dayCompletions = completions[dateKey] || {};
+  // Avoid habits: click to log or edit a slip, right-click to toggle skipped.
+  const saveSlip = (slip: SlipLog | undefined) => {
+    if (!slipCell) return;
+    setCellStatus(slipCell.dateKey, slipCell.habitId, slip);
+    setSlipCell(null);
+  };
 
-      let dayTotal = 0;
-      let dayCompleted = 0;
+  const saveJournal = (entry: JournalEntry | undefined) => {
+    if (!journalDay) return;
+    commit(`Edited journal for ${format(fromDateKey(journalDay.dateKey), 'MMM d')}`, { journal: withEntry(journal, journalDay.dateKey, entry) });
+    setJournalDay(null);
+  };
 
-      habits.forEach(habit => {
-        const status = (dayCompletions as any)[habit.id];
-        if (status !== 'skipped') {
-          dayTotal += 1;
-          if (status === true) dayCompleted += 1;
-        }
-      });
+  const toggleSkipped = (dateKey: string, habitId: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    setCellStatus(dateKey, habitId, completions[dateKey]?.[habitId] === 'skipped' ? undefined : 'skipped');
+  };
 
-      const percentage = dayTotal === 0 ? 0 : Math.round((dayCompleted / dayTotal) * 100);
-      return {
-        day: format(day, 'd'),
-        percentage,
-        completed: dayCompleted
-      };
-    });
-  }, [daysInMonth, completions, habits]);
-
-  const monthlyOverallStats = useMemo(() => {
-    let totalPossible = 0;
-    let totalCompleted = 0;
-
-    daysInMonth.forEach(day => {
-      const dateKey = format(day, 'yyyy-MM-dd');
-      const dayCompletions = completions[dateKey] || {};
-
-      habits.forEach(habit => {
-        const status = (dayCompletions as any)[habit.id];
-        if (status !== 'skipped') {
-          totalPossible += 1;
-          if (status === true) totalCompleted += 1;
-        }
-      });
-    });
+  // Daily Matrix keyboard focus: one cell is tabbable, arrows move it.
+  const [focusedCell, setFocusedCell] = useState({ row: 0, col: 0 });
+  const [announcement, setAnnouncement] = useState('');
+  const gridRef = useRef<HTMLTableElement>(null);
+  const activeCell = {
+    row: Math.min(focusedCell.row, matrixRows.length - 1),
+    col: Math.min(focusedCell.col, visibleDays.length - 1)
+  };
 
-    const percentage = totalPossible === 0 ? 0 : Math.round((totalCompleted / totalPossible) * 100);
-    return {
-      completed: percentage,
-      incomplete: totalPossible === 0 ? 0 : 100 - percentage
+  const focusCell = (row: number, col: number) => {
+    const next = {
+      row: Math.max(0, Math.min(matrixRows.length - 1, row)),
+      col: Math.max(0, Math.min(visibleDays.length - 1, col))
     };
-  }, [daysInMonth, habits, completions]);
-
-  const yearlyStats = useMemo(() => {
-    const months = [];
-    const currentYear = currentDate.getFullYear();
-
-    for (let i = 0; i < 12; i++) {
-      const monthDate = new Date(currentYear, i, 1);
-      const start = startOfMonth(monthDate);
-      const end = endOfMonth(monthDate);
-      const days = eachDayOfInterval({ start, end });
-
-      let totalPossible = 0;
-      let totalCompleted = 0;
-
-      days.forEach(day => {
-        const dateKey = format(day, 'yyyy-MM-dd');
-        const dayCompletions = completions[dateKey] || {};
-        habits.forEach(habit => {
-          const status = (dayCompletions as any)[habit.id];
-          if (status !== 'skipped') {
-            totalPossible += 1;
-            if (status === true) totalCompleted += 1;
-          }
-        });
-      });
+    setFocusedCell(next);
+    gridRef.current?.querySelector<HTMLElement>(`[data-cell="${next.row}-${next.col}"]`)?.focus();
+  };
 
-      const percentage = totalPossible === 0 ? 0 : Math.round((totalCompleted / totalPossible) * 100);
-      months.push({
-        name: format(monthDate, 'MMM'),
-        fullName: format(monthDate, 'MMMM'),
-        percentage,
-        totalPossible,
-        totalCompleted,
-        isFuture: monthDate > new Date()
-      });
+  /**
+   * Arrows, Home/End (Ctrl for the first/last habit) move between cells; D
+   * marks done (clean for avoid habits), S skipped, C/Delete/Backspace clears,
+   * N opens the day's journal at the cell's note. Alt+Up/Down moves the habit
+   * itself. Enter and Space act like a click.
+   */
+  const handleCellKey = (e: React.KeyboardEvent, row: number, col: number) => {
+    const habit = matrixRows[row];
+    const dateKey = toDateKey(visibleDays[col]);
+    if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      const target = matrixRows[e.key === 'ArrowUp' ? row - 1 : row + 1];
+      e.preventDefault();
+      if (!target) return;
+      reorderHabit(habit.id, target.id);
+      // Follow the row once it has re-rendered in its new place.
+      requestAnimationFrame(() => focusCell(e.key === 'ArrowUp' ? row - 1 : row + 1, col));
+      setAnnouncement(`${habit.name} moved ${e.key === 'ArrowUp' ? 'up' : 'down'}`);
+      return;
     }
-    return months;
-  }, [completions, habits, currentDate]);
+    const moves: Record<string, [number, number]> = {
+      ArrowUp: [row - 1, col],
+      ArrowDown: [row + 1, col],
+      ArrowLeft: [row, col - 1],
+      ArrowRight: [row, col + 1],
+      Home: [e.ctrlKey ? 0 : row, 0],
+      End: [e.ctrlKey ? matrixRows.length - 1 : row, visibleDays.length - 1]
+    };
+    if (moves[e.key]) {
+      e.preventDefault();
+      focusCell(...moves[e.key]);
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'n') {
+      e.preventDefault();
+      setJournalDay({ dateKey, habitId: habit.id });
+      return;
+    }
+    let next: HabitStatus;
+    if (key === 'd') next = isAvoid(habit) ? undefined : true;
+    else if (key === 's') next = 'skipped';
+    else if (key === 'c' || key === 'delete' || key === 'backspace') next = undefined;
+    else return;
+
+    e.preventDefault();
+    if (!sameStatus(completions[dateKey]?.[habit.id], next)) setCellStatus(dateKey, habit.id, next);
+    setAnnouncement(`${habit.name}, ${format(visibleDays[col], 'MMMM d')}: ${describeStatus(habit, next)}`);
+  };
+
+  const getHabitStats = (habit: Habit) => habitStats(habit, visibleDays, completions, today);
+
+  const getGroupStats = (members: Habit[]) => combinedStats(members, visibleDays, completions, today);
+
+  const groupEfficiencyData = showGroupHeaders
+    ? matrixGroups.map(group => ({ name: group.name || 'Ungrouped', ...getGroupStats(group.habits) }))
+    : [];
+
+  const dailyProgressData = useMemo(
+    () => dailyProgress(habits, visibleDays, completions, view === 'month' ? 'd' : 'MMM d', today),
+    [visibleDays, view, completions, habits, today]
+  );
+
+  // Mood and energy ride along on the Performance Curve, on a 1-5 axis of their own.
+  const performanceData = useMemo(() => {
+    const scores = journalScores(journal, visibleDays);
+    return dailyProgressData.map((point, i) => ({ ...point, ...scores[i] }));
+  }, [dailyProgressData, journal, visibleDays]);
+
+  const hasJournalScores = performanceData.some(point => point.mood !== null || point.energy !== null);
+
+  const monthlyOverallStats = useMemo(() => overallStats(habits, visibleDays, completions, today), [visibleDays, habits, completions, today]);
+
+  const yearlyStats = useMemo(
+    () => yearStats(habits, completions, currentDate.getFullYear(), today),
+    [completions, habits, currentDate, today]
+  );
+
+  const streaks = useMemo(
+    () => computeStreaks(habits, completions, today, { skipPreservesStreak: settings.skipPreservesStreak }),
+    [habits, completions, today, settings.skipPreservesStreak]
+  );
+
+  const streakLeaders = useMemo(
+    () =>
+      activeHabits(habits).sort((a, b) => streaks[b.id].current - streaks[a.id].current || streaks[b.id].longest - streaks[a.id].longest),
+    [habits, streaks]
+  );
+
+  const avoidHabits = useMemo(() => activeHabits(habits).filter(isAvoid), [habits]);
+
+  const slipLedger = useMemo(
+    () =>
+      avoidHabits.map(habit => {
+        let monthSlips = 0;
+        visibleDays.forEach(day => {
+          const status = completions[toDateKey(day)]?.[habit.id];
+          if (isSlip(status)) monthSlips += status.slips;
+        });
+        const summary = summarizeSlips(habit, completions, today);
+        const lastNote = summary.lastSlipOn ? completions[summary.lastSlipOn]?.[habit.id] : undefined;
+        return { habit, monthSlips, ...summary, lastNote: isSlip(lastNote) ? lastNote.note : undefined };
+      }),
+    [avoidHabits, completions, visibleDays, today]
+  );
+
+  const measuredHabits = activeHabits(habits).filter(h => h.target);
+  const chartHabit = measuredHabits.find(h => h.id === chartHabitId) ?? measuredHabits[0];
+
+  const targetProgressData = useMemo(() => {
+    if (!chartHabit?.target) return [];
+    return visibleDays.map(day => {
+      const status = completions[toDateKey(day)]?.[chartHabit.id];
+      return {
+        day: format(day, view === 'month' ? 'd' : 'MMM d'),
+        // A plain tick on a measured habit counts as meeting the target.
+        actual: isAmount(status) ? status : status === true ? chartHabit.target.amount : 0,
+        due: isHabitDue(chartHabit, day, completions, today)
+      };
+    });
+  }, [chartHabit, visibleDays, view, completions, today]);
+
+  const targetTotals = useMemo(() => {
+    if (!chartHabit?.target) return null;
+    const due = targetProgressData.filter(d => d.due).length;
+    const actual = targetProgressData.reduce((sum, d) => sum + d.actual, 0);
+    return { actual, target: due * chartHabit.target.amount };
+  }, [chartHabit, targetProgressData]);
 
   const pieData = [
     { name: 'Completed', value: monthlyOverallStats.completed },
     { name: 'Incomplete', value: monthlyOverallStats.incomplete }
   ];
 
+  if (sync.status === 'signedOut') return <LoginScreen />;
+
   return (
     <div className="min-h-screen bg-[#050505] text-[#FFFFFF] selection:bg-[#00ffff] selection:text-black">
       {/* Background Grid Pattern */}
@@ -385,27 +733,80 @@ export default function App() {
             <motion.button
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
-              disabled={history.length === 0}
+              disabled={!history.canUndo}
               onClick={undo}
-              className={cn('btn-secondary flex items-center gap-2', history.length === 0 && 'opacity-20 cursor-not-allowed')}
+              title="Ctrl+Z"
+              className={cn('btn-secondary flex items-center gap-2', !history.canUndo && 'opacity-20 cursor-not-allowed')}
             >
               <Undo2 size={14} />
               Undo Action
             </motion.button>
 
+            <motion.button
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              disabled={!history.canRedo}
+              onClick={redo}
+              title="Ctrl+Shift+Z"
+              className={cn('btn-secondary flex items-center gap-2', !history.canRedo && 'opacity-20 cursor-not-allowed')}
+            >
+              <Redo2 size={14} />
+              Redo
+            </motion.button>
+
+            <motion.button
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              disabled={reminders.permission !== 'default'}
+              onClick={reminders.enable}
+              title={reminders.permission === 'denied' ? 'Notifications are blocked in the browser settings' : undefined}
+              className={cn(
+                'btn-secondary flex items-center gap-2',
+                reminders.permission === 'granted' && 'text-[#00ffff]',
+                (reminders.permission === 'denied' || reminders.permission === 'unsupported') && 'opacity-20 cursor-not-allowed'
+              )}
+            >
+              {reminders.permission === 'granted' ? <Bell size={14} /> : <BellOff size={14} />}
+              {reminders.permission === 'granted' ? 'Reminders On' : reminders.permission === 'default' ? 'Enable Reminders' : 'Reminders Off'}
+            </motion.button>
+
+            <motion.button
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              onClick={() => setSettings(prev => ({ ...prev, dailyDigest: !prev.dailyDigest }))}
+              title="Email at the end of the day listing habits still unlogged"
+              className={cn('btn-secondary flex items-center gap-2', settings.dailyDigest && 'text-[#00ffff]')}
+            >
+              <Mail size={14} />
+              Digest: {settings.dailyDigest ? 'On' : 'Off'}
+            </motion.button>
+
+            <motion.button
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              onClick={() => setIsDaySettingsOpen(prev => !prev)}
+              title="When a day starts and in which time zone"
+              className={cn('btn-secondary flex items-center gap-2', (settings.dayStartHour > 0 || settings.timeZone) && 'text-[#00ffff]')}
+            >
+              <Clock size={14} />
+              Day: {String(settings.dayStartHour).padStart(2, '0')}:00
+            </motion.button>
+
             <motion.div
               initial={{ opacity: 0, scale: 0.95 }}
               animate={{ opacity: 1, scale: 1 }}
               className="flex items-center gap-1 bg-[#0A0A0A] border border-white/10 p-1 rounded-none shadow-sm"
             >
-              <button onClick={() => setCurrentDate(prev => subMonths(prev, 1))} className="p-4 hover:bg-[#00ffff] hover:text-black transition-all">
+              <button onClick={() => shiftPeriod(-1)} className="p-4 hover:bg-[#00ffff] hover:text-black transition-all">
                 <ChevronLeft size={20} />
               </button>
               <div className="px-8 py-2 flex flex-col items-center min-w-[160px]">
-                <span className="text-xs font-mono font-bold uppercase tracking-[0.2em] opacity-70 mb-1">{format(currentDate, 'yyyy')}</span>
-                <span className="text-xl font-bold tracking-tight uppercase">{format(currentDate, 'MMMM')}</span>
+                <span className="text-xs font-mono font-bold uppercase tracking-[0.2em] opacity-70 mb-1">
+                  {format(view === 'month' ? currentDate : lastVisible, 'yyyy')}
+                </span>
+                <span className="text-xl font-bold tracking-tight uppercase whitespace-nowrap">{periodLabel}</span>
               </div>
-              <button onClick={() => setCurrentDate(prev => addMonths(prev, 1))} className="p-4 hover:bg-[#00ffff] hover:text-black transition-all">
+              <button onClick={() => shiftPeriod(1)} className="p-4 hover:bg-[#00ffff] hover:text-black transition-all">
                 <ChevronRight size={20} />
               </button>
             </motion.div>
@@ -416,8 +817,8 @@ export default function App() {
         <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
           {/* Habit Grid - Main Panel */}
           <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.1 }} className="xl:col-span-12 bg-[#0A0A0A] border border-white/10 shadow-sm">
-            <div className="flex items-center justify-between p-6 border-b border-white/10 bg-[#0F0F0F]">
-              <div className="flex items-center gap-6">
+            <div className="flex flex-wrap items-center justify-between gap-4 p-4 md:p-6 border-b border-white/10 bg-[#0F0F0F]">
+              <div className="flex flex-wrap items-center gap-3 md:gap-6">
                 <div className="flex items-center gap-3">
                   <LayoutGrid size={18} />
                   <h2 className="text-sm font-bold uppercase tracking-widest">Daily Matrix</h2>
@@ -426,6 +827,59 @@ export default function App() {
                   <Plus size={12} />
                   Add Habit
                 </button>
+                <button onClick={() => setIsQuickLogOpen(prev => !prev)} className="btn-secondary flex items-center gap-2">
+                  <Terminal size={12} />
+                  Quick Log
+                </button>
+                <button onClick={() => setIsHistoryOpen(prev => !prev)} className="btn-secondary flex items-center gap-2">
+                  <History size={12} />
+                  History
+                </button>
+                {archivedHabits.length > 0 && (
+                  <button onClick={() => setIsArchiveOpen(prev => !prev)} className="btn-secondary flex items-center gap-2">
+                    <Archive size={12} />
+                    Archived ({archivedHabits.length})
+                  </button>
+                )}
+                <button onClick={() => setIsTransferOpen(prev => !prev)} className="btn-secondary flex items-center gap-2">
+                  <ArrowDownUp size={12} />
+                  Import / Export
+                </button>
+                <button onClick={() => setIsShareOpen(prev => !prev)} className="btn-secondary flex items-center gap-2">
+                  <Link2 size={12} />
+                  Share
+                </button>
+                <div className="flex items-center gap-1">
+                  {MATRIX_VIEWS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setView(option.value)}
+                      className={cn(
+                        'px-3 py-2 text-[10px] font-mono font-bold uppercase border transition-all',
+                        view === option.value ? 'bg-[#00ffff] border-[#00ffff] text-black' : 'border-white/10 hover:border-[#00ffff]/40'
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {view === 'range' && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="date"
+                      value={customRange.from}
+                      onChange={e => e.target.value && setCustomRange(prev => ({ ...prev, from: e.target.value }))}
+                      className="bg-[#141414] border-none px-3 py-2 text-[10px] font-mono focus:ring-1 focus:ring-[#00ffff] outline-none text-white"
+                    />
+                    <span className="text-[10px] font-mono opacity-40">→</span>
+                    <input
+                      type="date"
+                      value={customRange.to}
+                      onChange={e => e.target.value && setCustomRange(prev => ({ ...prev, to: e.target.value }))}
+                      className="bg-[#141414] border-none px-3 py-2 text-[10px] font-mono focus:ring-1 focus:ring-[#00ffff] outline-none text-white"
+                    />
+                  </div>
+                )}
               </div>
               <div className="flex items-center gap-4 md:gap-6 text-[10px] font-mono uppercase opacity-50">
                 <div className="flex items-center gap-2">
@@ -437,6 +891,25 @@ export default function App() {
                 <div className="flex items-center gap-2">
                   <Minus size={12} /> <span className="hidden sm:inline">Skipped</span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 border border-dashed border-white/10" /> <span className="hidden sm:inline">Not Due</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 border border-white/10 bg-gradient-to-t from-[#00ffff]/40 from-50% to-transparent to-50%" />
+                  <span className="hidden sm:inline">Partial</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 bg-red-600/80" /> <span className="hidden sm:inline">Slip</span>
+                </div>
+                <div className="flex items-center gap-2" title="Click a date to open its journal">
+                  <div className="w-3 h-3 border border-white/10 relative overflow-hidden">
+                    <span className="absolute top-0 right-0 border-t-[5px] border-l-[5px] border-t-amber-400 border-l-transparent" />
+                  </div>
+                  <span className="hidden sm:inline">Note</span>
+                </div>
+                <div className="hidden lg:flex items-center gap-2" title="Arrows move · D done · S skip · C clear · N note · Enter edit · Ctrl+Z undo">
+                  <Keyboard size={12} /> <span>D / S / C / N</span>
+                </div>
               </div>
             </div>
 
@@ -458,6 +931,16 @@ export default function App() {
                       onKeyDown={e => e.key === 'Enter' && addHabit()}
                       className="flex-1 bg-[#141414] border-none px-4 py-2 text-sm font-bold focus:ring-1 focus:ring-[#00ffff] outline-none text-white"
                     />
+                    <label className="flex items-center gap-2" title="Backdate to count earlier days">
+                      <span className="text-[10px] font-mono uppercase tracking-widest opacity-50">Starts</span>
+                      <input
+                        type="date"
+                        max={todayKey}
+                        value={newStartDate}
+                        onChange={e => setNewStartDate(e.target.value)}
+                        className="bg-[#141414] border-none px-3 py-2 text-sm font-bold focus:ring-1 focus:ring-[#00ffff] outline-none text-white"
+                      />
+                    </label>
                     <button onClick={addHabit} className="p-2 bg-[#00ffff] text-black hover:bg-[#00ffff]/80 transition-all">
                       <Save size={18} />
                     </button>
@@ -467,138 +950,497 @@ export default function App() {
                   </div>
                 </motion.div>
               )}
+              {schedulingHabit && (
+                <motion.div
+                  key={schedulingHabit.id}
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden border-b border-white/10 bg-[#0A0A0A]"
+                >
+                  <ScheduleEditor
+                    habit={schedulingHabit}
+                    groups={groupNames(habits)}
+                    onSave={schedule => saveSchedule(schedulingHabit.id, schedule)}
+                    onCancel={() => setSchedulingHabitId(null)}
+                  />
+                </motion.div>
+              )}
+              {slipCell && slipHabit && (
+                <motion.div
+                  key={`slip-${slipCell.dateKey}-${slipCell.habitId}`}
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden border-b border-white/10 bg-[#0A0A0A]"
+                >
+                  <SlipEditor
+                    habit={slipHabit}
+                    dateKey={slipCell.dateKey}
+                    status={completions[slipCell.dateKey]?.[slipCell.habitId]}
+                    onSave={saveSlip}
+                    onCancel={() => setSlipCell(null)}
+                  />
+                </motion.div>
+              )}
+              {journalDay && (
+                <motion.div
+                  key={`journal-${journalDay.dateKey}-${journalDay.habitId ?? ''}`}
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden border-b border-white/10 bg-[#0A0A0A]"
+                >
+                  <DayJournal
+                    dateKey={journalDay.dateKey}
+                    habits={habitsShownIn(habits, journalDay.dateKey, journalDay.dateKey)}
+                    statuses={completions[journalDay.dateKey] ?? {}}
+                    entry={journal[journalDay.dateKey]}
+                    focusHabitId={journalDay.habitId}
+                    onSave={saveJournal}
+                    onClose={() => setJournalDay(null)}
+                  />
+                </motion.div>
+              )}
+              {isQuickLogOpen && (
+                <motion.div
+                  key="quick-log"
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden border-b border-white/10 bg-[#0A0A0A]"
+                >
+                  <QuickLog
+                    habits={activeHabits(habits)}
+                    completions={completions}
+                    today={today}
+                    onApply={changes => applyCellChanges(changes, `Quick Log: ${changes.length} change${changes.length === 1 ? '' : 's'}`)}
+                    onClose={() => setIsQuickLogOpen(false)}
+                  />
+                </motion.div>
+              )}
+              {isHistoryOpen && (
+                <motion.div
+                  key="history"
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden border-b border-white/10 bg-[#0A0A0A]"
+                >
+                  <HistoryPanel stacks={history.stacks} onJump={jumpToEntry} onClose={() => setIsHistoryOpen(false)} />
+                </motion.div>
+              )}
+              {isArchiveOpen && (
+                <motion.div
+                  key="archive"
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden border-b border-white/10 bg-[#0A0A0A]"
+                >
+                  <ArchivedHabits
+                    habits={archivedHabits}
+                    completions={completions}
+                    onRestore={restoreHabit}
+                    onDelete={deleteHabit}
+                    onClose={() => setIsArchiveOpen(false)}
+                  />
+                </motion.div>
+              )}
+              {isDaySettingsOpen && (
+                <motion.div
+                  key="day-settings"
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden border-b border-white/10 bg-[#0A0A0A]"
+                >
+                  <DaySettings
+                    timeZone={settings.timeZone}
+                    dayStartHour={settings.dayStartHour}
+                    today={today}
+                    onChange={patch => setSettings(prev => ({ ...prev, ...patch }))}
+                    onClose={() => setIsDaySettingsOpen(false)}
+                  />
+                </motion.div>
+              )}
+              {isTransferOpen && (
+                <motion.div
+                  key="transfer"
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden border-b border-white/10 bg-[#0A0A0A]"
+                >
+                  <DataTransfer state={remoteState} onImport={importFile} onClose={() => setIsTransferOpen(false)} />
+                </motion.div>
+              )}
+              {isShareOpen && (
+                <motion.div
+                  key="share"
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden border-b border-white/10 bg-[#0A0A0A]"
+                >
+                  <SharePanel habits={activeHabits(habits)} onClose={() => setIsShareOpen(false)} />
+                </motion.div>
+              )}
             </AnimatePresence>
 
-            <div className="overflow-auto custom-scrollbar max-h-[75vh] relative">
-              <table className="w-full border-separate border-spacing-0">
-                <thead>
-                  <tr className="border-b border-white/10">
-                    <th
-                      style={{ width: `${descriptionWidth}px`, minWidth: `${descriptionWidth}px` }}
-                      className="sticky top-0 left-0 z-40 bg-[#0F0F0F] p-6 text-left border-r border-b border-white/10 relative group/header"
-                    >
-                      <span className="col-header">Habit Description</span>
-                      <div
-                        onMouseDown={startResizing}
-                        className={cn(
-                          'absolute top-0 right-0 w-1 h-full cursor-col-resize hover:bg-[#00ffff]/50 transition-colors z-30',
-                          isResizing ? 'bg-[#00ffff] w-0.5' : 'bg-transparent'
-                        )}
-                      />
-                    </th>
-                    {daysInMonth.map(day => (
+            {view === 'day' ? (
+              <DayLog
+                date={firstVisible}
+                today={today}
+                groups={matrixGroups}
+                completions={completions}
+                journal={journal}
+                onCycle={habitId => cycleHabitState(firstVisible, habitId)}
+                onAmount={(habitId, amount) => setCellStatus(firstVisibleKey, habitId, amount)}
+                onSlip={habitId => setSlipCell({ dateKey: firstVisibleKey, habitId })}
+                onToggleSkipped={habitId =>
+                  setCellStatus(firstVisibleKey, habitId, completions[firstVisibleKey]?.[habitId] === 'skipped' ? undefined : 'skipped')
+                }
+                onOpenJournal={habitId => setJournalDay({ dateKey: firstVisibleKey, habitId })}
+              />
+            ) : (
+              <div className="overflow-auto custom-scrollbar max-h-[75vh] relative">
+                <p id="matrix-keys" className="sr-only">
+                  Arrow keys move between days and habits. D marks done, S skipped, C or Delete clears, Enter edits, N opens the day's
+                  journal. Control Z undoes, Control Shift Z redoes.
+                </p>
+                <div aria-live="polite" className="sr-only">
+                  {announcement}
+                </div>
+                <table ref={gridRef} role="grid" aria-label="Daily Matrix" aria-describedby="matrix-keys" className="w-full border-separate border-spacing-0">
+                  <thead>
+                    <tr className="border-b border-white/10">
                       <th
-                        key={day.toString()}
-                        className={cn(
-                          'p-3 text-center min-w-[45px] border-r border-b border-white/5 relative transition-colors duration-500 sticky top-0 z-30 bg-[#0F0F0F]'
-                        )}
+                        style={{ width: `${descriptionWidth}px`, minWidth: `${descriptionWidth}px` }}
+                        className="sticky top-0 left-0 z-40 bg-[#0F0F0F] p-6 text-left border-r border-b border-white/10 relative group/header"
                       >
-                        <div className="flex flex-col items-center relative z-10">
-                          <span className="text-[10px] font-mono opacity-60 mb-1">{format(day, 'EEE').toUpperCase()}</span>
-                          <span
-                            className={cn(
-                              'text-sm font-bold data-value',
-                              isSameDay(day, new Date())
-                                ? 'text-[#00ffff] drop-shadow-[0_0_12px_rgba(0,255,255,0.8)] underline underline-offset-4'
-                                : 'opacity-80'
-                            )}
-                          >
-                            {format(day, 'dd')}
-                          </span>
-                        </div>
-                        {isSameDay(day, new Date()) && (
-                          <>
-                            <div className="absolute inset-0 bg-[#00ffff]/10 border-x border-[#00ffff]/30 pointer-events-none" />
-                            <div className="absolute top-0 left-0 right-0 h-[2px] bg-[#00ffff] shadow-[0_0_10px_#00ffff] pointer-events-none" />
-                          </>
-                        )}
+                        <span className="col-header">Habit Description</span>
+                        <div
+                          role="separator"
+                          aria-orientation="vertical"
+                          aria-label="Resize habit column"
+                          aria-valuenow={descriptionWidth}
+                          aria-valuemin={MIN_DESCRIPTION_WIDTH}
+                          aria-valuemax={MAX_DESCRIPTION_WIDTH}
+                          tabIndex={0}
+                          onPointerDown={startResizing}
+                          onKeyDown={resizeWithKeys}
+                          className={cn(
+                            'absolute top-0 right-0 w-1 h-full cursor-col-resize touch-none hover:bg-[#00ffff]/50 focus-visible:bg-[#00ffff] outline-none transition-colors z-30',
+                            isResizing ? 'bg-[#00ffff] w-0.5' : 'bg-transparent'
+                          )}
+                        />
                       </th>
-                    ))}
-                    <th className="p-6 text-center border-l border-b border-white/10 bg-[#0F0F0F] sticky top-0 z-30">
-                      <span className="col-header">Efficiency</span>
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {habits.map((habit, idx) => {
-                    const stats = getHabitStats(habit.id);
-                    return (
-                      <tr key={habit.id} className="group hover:bg-white/5 transition-colors last:border-0">
-                        <td
-                          style={{ width: `${descriptionWidth}px`, minWidth: `${descriptionWidth}px` }}
-                          className="sticky left-0 z-20 bg-[#0A0A0A] group-hover:bg-[#0F0F0F] p-6 border-r border-b border-white/10"
+                      {visibleDays.map(day => (
+                        <th
+                          key={day.toString()}
+                          aria-label={format(day, 'EEEE, MMMM d')}
+                          className={cn(
+                            'p-3 text-center min-w-[45px] border-r border-b border-white/5 relative transition-colors duration-500 sticky top-0 z-30 bg-[#0F0F0F]'
+                          )}
                         >
-                          <div className="flex items-center justify-between gap-4">
-                            <div className="flex items-center gap-4 flex-1">
-                              <span className="text-[10px] font-mono opacity-60 w-4">{(idx + 1).toString().padStart(2, '0')}</span>
-                              {editingHabitId === habit.id ? (
-                                <input
-                                  autoFocus
-                                  type="text"
-                                  value={editValue}
-                                  onChange={e => setEditValue(e.target.value)}
-                                  onKeyDown={e => e.key === 'Enter' && saveEdit()}
-                                  onBlur={saveEdit}
-                                  className="flex-1 bg-[#141414] border-none px-2 py-1 text-sm font-bold outline-none text-white"
-                                />
-                              ) : (
-                                <span className="text-sm font-bold tracking-tight">{habit.name}</span>
-                              )}
-                            </div>
-                            <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                              <button onClick={() => startEditing(habit)} className="p-1.5 hover:bg-[#00ffff] hover:text-black transition-all">
-                                <Pencil size={12} />
-                              </button>
-                              <button onClick={() => deleteHabit(habit.id)} className="p-1.5 hover:bg-red-600 hover:text-white transition-all">
-                                <Trash2 size={12} />
-                              </button>
-                            </div>
-                          </div>
-                        </td>
-                        {daysInMonth.map(day => {
-                          const dateKey = format(day, 'yyyy-MM-dd');
-                          const status = completions[dateKey]?.[habit.id];
-                          return (
-                            <td
-                              key={day.toString()}
+                          <button
+                            onClick={() => setJournalDay({ dateKey: toDateKey(day) })}
+                            title={journal[toDateKey(day)]?.note ?? 'Open journal'}
+                            className="flex flex-col items-center relative z-10 w-full outline-none focus-visible:ring-1 focus-visible:ring-[#00ffff]"
+                          >
+                            <span className="text-[10px] font-mono opacity-60 mb-1">{format(day, 'EEE').toUpperCase()}</span>
+                            <span
                               className={cn(
-                                'p-1 border-r border-b border-white/5 text-center relative transition-colors duration-500',
-                                isSameDay(day, new Date()) && 'bg-[#00ffff]/[0.05]'
+                                'text-sm font-bold data-value',
+                                isSameDay(day, today)
+                                  ? 'text-[#00ffff] drop-shadow-[0_0_12px_rgba(0,255,255,0.8)] underline underline-offset-4'
+                                  : 'opacity-80'
                               )}
                             >
-                              <button
-                                onClick={e => cycleHabitState(day, habit.id, e)}
-                                onContextMenu={e => cycleHabitState(day, habit.id, e)}
-                                className={cn(
-                                  'w-9 h-9 transition-all flex items-center justify-center border relative z-10',
-                                  status === true
-                                    ? 'bg-[#00ffff] border-[#00ffff] text-black shadow-[0_0_20px_rgba(0,255,255,0.5)]'
-                                    : status === 'skipped'
-                                      ? 'bg-transparent border-transparent opacity-20 hover:opacity-50'
-                                      : 'bg-transparent border-white/10 text-transparent hover:border-[#00ffff]/40'
-                                )}
+                              {format(day, 'dd')}
+                            </span>
+                            <span
+                              aria-hidden
+                              className={cn('mt-1 w-1 h-1', journal[toDateKey(day)] ? 'bg-amber-400' : 'bg-transparent')}
+                            />
+                          </button>
+                          {isSameDay(day, today) && (
+                            <>
+                              <div className="absolute inset-0 bg-[#00ffff]/10 border-x border-[#00ffff]/30 pointer-events-none" />
+                              <div className="absolute top-0 left-0 right-0 h-[2px] bg-[#00ffff] shadow-[0_0_10px_#00ffff] pointer-events-none" />
+                            </>
+                          )}
+                        </th>
+                      ))}
+                      <th className="p-6 text-center border-l border-b border-white/10 bg-[#0F0F0F] sticky top-0 z-30">
+                        <span className="col-header">Efficiency</span>
+                      </th>
+                      <th className="p-6 text-center border-l border-b border-white/10 bg-[#0F0F0F] sticky top-0 z-30">
+                        <span className="col-header">Streak</span>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matrixGroups.map(group => {
+                      const collapsed = isCollapsed(group.name);
+                      const groupStats = getGroupStats(group.habits);
+                      return (
+                        <React.Fragment key={`group:${group.name}`}>
+                          {showGroupHeaders && (
+                            <tr
+                              onDragOver={e => draggedHabitId && e.preventDefault()}
+                              onDrop={() => draggedHabitId && moveHabitToGroup(draggedHabitId, group.name)}
+                            >
+                              <td
+                                style={{ width: `${descriptionWidth}px`, minWidth: `${descriptionWidth}px` }}
+                                className="sticky left-0 z-20 bg-[#0F0F0F] px-6 py-3 border-r border-b border-white/10"
                               >
-                                {status === true && <Check size={14} strokeWidth={4} />}
-                                {status === 'skipped' && <Minus size={14} strokeWidth={4} />}
-                              </button>
-                              {isSameDay(day, new Date()) && <div className="absolute inset-0 border-x border-[#00ffff]/15 pointer-events-none" />}
-                            </td>
-                          );
-                        })}
-                        <td className="p-6 bg-[#0F0F0F] border-l border-b border-white/10">
-                          <div className="flex items-center justify-between gap-4 min-w-[120px]">
-                            <span className="text-xs font-mono font-bold">{stats.percentage}%</span>
-                            <div className="flex-1 h-[2px] bg-white/10 overflow-hidden">
-                              <motion.div initial={{ width: 0 }} animate={{ width: `${stats.percentage}%` }} className="h-full bg-[#00ffff]" />
-                            </div>
-                          </div>
-                        </td>
-                      </tr>
-                    );
-                  })}
-                </tbody>
-              </table>
-            </div>
+                                <button
+                                  onClick={() => toggleGroup(group.name)}
+                                  aria-expanded={!collapsed}
+                                  className="flex items-center gap-2 text-[10px] font-mono font-bold uppercase tracking-[0.2em] hover:text-[#00ffff] transition-colors"
+                                >
+                                  {collapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+                                  {group.name || 'Ungrouped'}
+                                  <span className="opacity-40">{group.habits.length}</span>
+                                </button>
+                              </td>
+                              <td colSpan={visibleDays.length} className="bg-[#0F0F0F] border-b border-white/5" />
+                              <td className="px-6 py-3 bg-[#0F0F0F] border-l border-b border-white/10">
+                                <div className="flex items-center justify-between gap-4 min-w-[120px]" title={`${groupStats.percentage}% of due ${group.name || 'ungrouped'} habits`}>
+                                  <span className="text-xs font-mono font-bold text-[#00ffff]">{groupStats.percentage}%</span>
+                                  <div className="flex-1 h-[2px] bg-white/10 overflow-hidden">
+                                    <motion.div initial={{ width: 0 }} animate={{ width: `${groupStats.percentage}%` }} className="h-full bg-[#00ffff]/60" />
+                                  </div>
+                                </div>
+                              </td>
+                              <td className="bg-[#0F0F0F] border-l border-b border-white/10" />
+                            </tr>
+                          )}
+                          {(collapsed ? [] : group.habits).map(habit => {
+                            const idx = matrixRows.indexOf(habit);
+                            const stats = getHabitStats(habit);
+                            const streak = streaks[habit.id];
+                            return (
+                              <tr
+                                key={habit.id}
+                                onDragOver={e => draggedHabitId && e.preventDefault()}
+                                onDrop={() => draggedHabitId && reorderHabit(draggedHabitId, habit.id)}
+                                className={cn('group hover:bg-white/5 transition-colors last:border-0', draggedHabitId === habit.id && 'opacity-40')}
+                              >
+                                <td
+                                  role="rowheader"
+                                  style={{ width: `${descriptionWidth}px`, minWidth: `${descriptionWidth}px` }}
+                                  className="sticky left-0 z-20 bg-[#0A0A0A] group-hover:bg-[#0F0F0F] p-6 border-r border-b border-white/10"
+                                >
+                                  <div className="flex items-center justify-between gap-4">
+                                    <div className="flex items-center gap-4 flex-1">
+                                      <span
+                                        draggable
+                                        onDragStart={e => {
+                                          e.dataTransfer.effectAllowed = 'move';
+                                          e.dataTransfer.setData('text/plain', habit.id);
+                                          setDraggedHabitId(habit.id);
+                                        }}
+                                        onDragEnd={() => setDraggedHabitId(null)}
+                                        title="Drag to reorder or move to another group (Alt+Up/Down from a cell)"
+                                        className="flex items-center gap-1 cursor-grab active:cursor-grabbing"
+                                      >
+                                        <GripVertical size={12} className="opacity-20 group-hover:opacity-60 transition-opacity" />
+                                        <span className="text-[10px] font-mono opacity-60 w-4">{(idx + 1).toString().padStart(2, '0')}</span>
+                                      </span>
+                                      {editingHabitId === habit.id ? (
+                                        <input
+                                          autoFocus
+                                          type="text"
+                                          value={editValue}
+                                          onChange={e => setEditValue(e.target.value)}
+                                          onKeyDown={e => e.key === 'Enter' && saveEdit()}
+                                          onBlur={saveEdit}
+                                          className="flex-1 bg-[#141414] border-none px-2 py-1 text-sm font-bold outline-none text-white"
+                                        />
+                                      ) : (
+                                        <div className="flex flex-col">
+                                          <span className="text-sm font-bold tracking-tight">{habit.name}</span>
+                                          {(habit.schedule || habit.target || isAvoid(habit) || habit.archivedOn) && (
+                                            <span className="text-[10px] font-mono uppercase opacity-40">
+                                              {[
+                                                habit.archivedOn && `Archived ${format(fromDateKey(habit.archivedOn), 'MMM d')}`,
+                                                isAvoid(habit) && 'Avoid',
+                                                habit.schedule && describeSchedule(habit.schedule),
+                                                describeTarget(habit)
+                                              ]
+                                                .filter(Boolean)
+                                                .join(' · ')}
+                                            </span>
+                                          )}
+                                        </div>
+                                      )}
+                                    </div>
+                                    <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                      <button onClick={() => startEditing(habit)} className="p-1.5 hover:bg-[#00ffff] hover:text-black transition-all">
+                                        <Pencil size={12} />
+                                      </button>
+                                      <button onClick={() => setSchedulingHabitId(habit.id)} className="p-1.5 hover:bg-[#00ffff] hover:text-black transition-all">
+                                        <CalendarClock size={12} />
+                                      </button>
+                                      {isArchived(habit) ? (
+                                        <button onClick={() => restoreHabit(habit.id)} title="Restore" className="p-1.5 hover:bg-[#00ffff] hover:text-black transition-all">
+                                          <ArchiveRestore size={12} />
+                                        </button>
+                                      ) : (
+                                        <button onClick={() => archiveHabit(habit.id)} title="Archive" className="p-1.5 hover:bg-[#00ffff] hover:text-black transition-all">
+                                          <Archive size={12} />
+                                        </button>
+                                      )}
+                                    </div>
+                                  </div>
+                                </td>
+                                {visibleDays.map((day, col) => {
+                                  const dateKey = toDateKey(day);
+                                  const status = completions[dateKey]?.[habit.id];
+                                  const isDue = isHabitDue(habit, day, completions, today);
+                                  // Avoid habits only score once the day has started.
+                                  const done = isDone(habit, status) && (isDue || !isAvoid(habit));
+                                  const slip = isSlip(status) ? status : null;
+                                  const isEntering = editingCell?.dateKey === dateKey && editingCell.habitId === habit.id;
+                                  const note = describeNote(cellNoteOf(journal, dateKey, habit.id));
+                                  return (
+                                    <td
+                                      key={day.toString()}
+                                      className={cn(
+                                        'p-1 border-r border-b border-white/5 text-center relative transition-colors duration-500',
+                                        isSameDay(day, today) && 'bg-[#00ffff]/[0.05]'
+                                      )}
+                                    >
+                                      {isEntering ? (
+                                        <input
+                                          autoFocus
+                                          type="number"
+                                          min={0}
+                                          step="any"
+                                          value={cellValue}
+                                          onChange={e => setCellValue(e.target.value)}
+                                          onKeyDown={e => {
+                                            if (e.key === 'Enter') saveCellEntry();
+                                            if (e.key === 'Escape') setEditingCell(null);
+                                          }}
+                                          onBlur={saveCellEntry}
+                                          className="w-9 h-9 bg-[#141414] border border-[#00ffff] text-center text-[10px] font-mono font-bold outline-none text-white relative z-10 [appearance:textfield]"
+                                        />
+                                      ) : (
+                                        <button
+                                          data-cell={`${idx}-${col}`}
+                                          tabIndex={activeCell.row === idx && activeCell.col === col ? 0 : -1}
+                                          aria-label={`${habit.name}, ${format(day, 'EEEE, MMMM d')}: ${describeStatus(habit, status)}${isDue ? '' : ', not due'}${note ? `, note: ${note}` : ''}`}
+                                          onFocus={() => setFocusedCell({ row: idx, col })}
+                                          onKeyDown={e => handleCellKey(e, idx, col)}
+                                          onClick={e =>
+                                            isAvoid(habit)
+                                              ? setSlipCell({ dateKey, habitId: habit.id })
+                                              : habit.target
+                                                ? startCellEntry(dateKey, habit.id)
+                                                : cycleHabitState(day, habit.id, e)
+                                          }
+                                          onContextMenu={e =>
+                                            habit.target || isAvoid(habit) ? toggleSkipped(dateKey, habit.id, e) : cycleHabitState(day, habit.id, e)
+                                          }
+                                          title={
+                                            [
+                                              slip
+                                                ? `${slip.slips} slip${slip.slips === 1 ? '' : 's'}${slip.note ? `: ${slip.note}` : ''}`
+                                                : habit.target && isAmount(status)
+                                                  ? `${formatAmount(status)} / ${describeTarget(habit)}`
+                                                  : '',
+                                              note
+                                            ]
+                                              .filter(Boolean)
+                                              .join('\n') || undefined
+                                          }
+                                          className={cn(
+                                            'w-9 h-9 transition-all flex items-center justify-center border relative z-10 overflow-hidden outline-none focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-offset-1 focus-visible:ring-offset-black',
+                                            slip
+                                              ? 'bg-red-600/80 border-red-600 text-white'
+                                              : done && isAvoid(habit) && status === undefined
+                                                ? 'bg-[#00ffff]/10 border-[#00ffff]/40 text-[#00ffff] hover:bg-[#00ffff]/20'
+                                                : done
+                                                  ? 'bg-[#00ffff] border-[#00ffff] text-black shadow-[0_0_20px_rgba(0,255,255,0.5)]'
+                                                  : status === 'skipped'
+                                                    ? 'bg-transparent border-transparent opacity-20 hover:opacity-50'
+                                                    : !isDue
+                                                      ? 'bg-transparent border-dashed border-white/5 text-transparent hover:border-[#00ffff]/20'
+                                                      : 'bg-transparent border-white/10 text-transparent hover:border-[#00ffff]/40'
+                                          )}
+                                        >
+                                          {!done && isAmount(status) && (
+                                            <div
+                                              className="absolute inset-x-0 bottom-0 bg-[#00ffff]/25 pointer-events-none"
+                                              style={{ height: `${Math.round(creditFor(habit, status) * 100)}%` }}
+                                            />
+                                          )}
+                                          {slip ? (
+                                            <span className="relative text-[10px] font-mono font-bold">{slip.slips}</span>
+                                          ) : isAmount(status) ? (
+                                            <span className={cn('relative text-[10px] font-mono font-bold', !done && 'text-[#00ffff]')}>{formatAmount(status)}</span>
+                                          ) : (
+                                            done && <Check size={14} strokeWidth={4} />
+                                          )}
+                                          {status === 'skipped' && <Minus size={14} strokeWidth={4} />}
+                                          {note && (
+                                            <span className="absolute top-0 right-0 border-t-[6px] border-l-[6px] border-t-amber-400 border-l-transparent pointer-events-none" />
+                                          )}
+                                        </button>
+                                      )}
+                                      {isSameDay(day, today) && <div className="absolute inset-0 border-x border-[#00ffff]/15 pointer-events-none" />}
+                                    </td>
+                                  );
+                                })}
+                                <td className="p-6 bg-[#0F0F0F] border-l border-b border-white/10">
+                                  <div className="flex items-center justify-between gap-4 min-w-[120px]">
+                                    <span className="text-xs font-mono font-bold">{stats.percentage}%</span>
+                                    <div className="flex-1 h-[2px] bg-white/10 overflow-hidden">
+                                      <motion.div initial={{ width: 0 }} animate={{ width: `${stats.percentage}%` }} className="h-full bg-[#00ffff]" />
+                                    </div>
+                                  </div>
+                                </td>
+                                <td className="p-6 bg-[#0F0F0F] border-l border-b border-white/10">
+                                  <div className="flex items-center justify-center gap-2 min-w-[80px]" title={`Longest: ${streak.longest}`}>
+                                    <Flame size={12} className={streak.current > 0 ? 'text-[#00ffff]' : 'opacity-20'} />
+                                    <span className="text-xs font-mono font-bold">{streak.current}</span>
+                                    <span className="text-[10px] font-mono opacity-30">/ {streak.longest}</span>
+                                  </div>
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </React.Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </motion.div>
+
+          {/* Year in Review - Heatmap */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.15 }}
+            className="xl:col-span-12 bg-[#0A0A0A] border border-white/10"
+          >
+            <YearHeatmap habits={habits} completions={completions} today={today} onSelectDay={showWeekOf} />
+          </motion.div>
+
+          {/* Habit Analytics - correlations, keystones, weekdays */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.15 }}
+            className="xl:col-span-12 bg-[#0A0A0A] border border-white/10"
+          >
+            <HabitAnalytics habits={habits} completions={completions} today={today} />
           </motion.div>
 
           {/* Stats Bento Section */}
@@ -617,16 +1459,30 @@ export default function App() {
                   </h3>
                   <p className="text-xs opacity-30 font-mono">Daily completion percentage across all metrics</p>
                 </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-[#00ffff]" />
-                  <span className="text-[10px] font-mono uppercase opacity-30">Efficiency</span>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <div className="w-2 h-2 bg-[#00ffff]" />
+                    <span className="text-[10px] font-mono uppercase opacity-30">Efficiency</span>
+                  </div>
+                  {hasJournalScores && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-amber-400" />
+                        <span className="text-[10px] font-mono uppercase opacity-30">Mood</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-white" />
+                        <span className="text-[10px] font-mono uppercase opacity-30">Energy</span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
 
               <div className="overflow-x-auto custom-scrollbar -mx-4 px-4 md:mx-0 md:px-0">
                 <div className="h-[300px] min-w-[600px] md:min-w-0 w-full">
                   <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={dailyProgressData}>
+                    <ComposedChart data={performanceData}>
                       <defs>
                         <linearGradient id="colorPerc" x1="0" y1="0" x2="0" y2="1">
                           <stop offset="5%" stopColor="#00ffff" stopOpacity={0.2} />
@@ -641,11 +1497,22 @@ export default function App() {
                         tick={{ fontSize: 10, fill: '#FFFFFF', opacity: 0.3, fontWeight: 600, fontFamily: 'JetBrains Mono' }}
                       />
                       <YAxis
+                        yAxisId="percentage"
                         axisLine={false}
                         tickLine={false}
                         tick={{ fontSize: 10, fill: '#FFFFFF', opacity: 0.3, fontWeight: 600, fontFamily: 'JetBrains Mono' }}
                         domain={[0, 100]}
                       />
+                      <YAxis
+                        yAxisId="score"
+                        orientation="right"
+                        hide={!hasJournalScores}
+                        axisLine={false}
+                        tickLine={false}
+                        tick={{ fontSize: 10, fill: '#FFFFFF', opacity: 0.3, fontWeight: 600, fontFamily: 'JetBrains Mono' }}
+                        domain={[1, 5]}
+                        ticks={[1, 2, 3, 4, 5]}
+                      />
                       <Tooltip
                         contentStyle={{
                           backgroundColor: '#0A0A0A',
@@ -655,16 +1522,188 @@ export default function App() {
                           fontSize: '12px',
                           fontFamily: 'JetBrains Mono'
                         }}
-                        itemStyle={{ color: '#00ffff' }}
                         cursor={{ stroke: '#00ffff', strokeWidth: 1, opacity: 0.2 }}
                       />
-                      <Area type="monotone" dataKey="percentage" stroke="#00ffff" strokeWidth={2} fillOpacity={1} fill="url(#colorPerc)" animationDuration={1500} />
-                    </AreaChart>
+                      <Area
+                        yAxisId="percentage"
+                        type="monotone"
+                        dataKey="percentage"
+                        stroke="#00ffff"
+                        strokeWidth={2}
+                        fillOpacity={1}
+                        fill="url(#colorPerc)"
+                        animationDuration={1500}
+                      />
+                      {hasJournalScores && (
+                        <Line yAxisId="score" type="monotone" dataKey="mood" name="mood" stroke="#fbbf24" strokeWidth={2} dot={{ r: 2 }} connectNulls />
+                      )}
+                      {hasJournalScores && (
+                        <Line
+                          yAxisId="score"
+                          type="monotone"
+                          dataKey="energy"
+                          name="energy"
+                          stroke="#FFFFFF"
+                          strokeWidth={1.5}
+                          strokeDasharray="4 4"
+                          dot={{ r: 2 }}
+                          connectNulls
+                        />
+                      )}
+                    </ComposedChart>
                   </ResponsiveContainer>
                 </div>
               </div>
             </motion.div>
 
+            {/* Measured Habits - Actual vs Target */}
+            {chartHabit?.target && targetTotals && (
+              <motion.div
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.3 }}
+                className="bg-[#0A0A0A] border border-white/10 p-8"
+              >
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-6 mb-10">
+                  <div className="space-y-1">
+                    <h3 className="text-sm font-bold uppercase tracking-widest flex items-center gap-2">
+                      <Target size={16} />
+                      Actual vs Target
+                    </h3>
+                    <p className="text-xs opacity-30 font-mono">
+                      {formatAmount(targetTotals.actual)} / {formatAmount(targetTotals.target)} {chartHabit.target.unit} · {periodLabel}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {measuredHabits.map(habit => (
+                      <button
+                        key={habit.id}
+                        onClick={() => setChartHabitId(habit.id)}
+                        className={cn(
+                          'px-3 py-2 text-[10px] font-mono uppercase border transition-all max-w-[180px] truncate',
+                          habit.id === chartHabit.id ? 'border-[#00ffff] text-[#00ffff]' : 'border-white/10 opacity-50 hover:opacity-100'
+                        )}
+                      >
+                        {habit.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto custom-scrollbar -mx-4 px-4 md:mx-0 md:px-0">
+                  <div className="h-[260px] min-w-[600px] md:min-w-0 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={targetProgressData}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(255,255,255,0.05)" />
+                        <XAxis
+                          dataKey="day"
+                          axisLine={false}
+                          tickLine={false}
+                          tick={{ fontSize: 10, fill: '#FFFFFF', opacity: 0.3, fontWeight: 600, fontFamily: 'JetBrains Mono' }}
+                        />
+                        <YAxis
+                          axisLine={false}
+                          tickLine={false}
+                          tick={{ fontSize: 10, fill: '#FFFFFF', opacity: 0.3, fontWeight: 600, fontFamily: 'JetBrains Mono' }}
+                        />
+                        <Tooltip
+                          contentStyle={{
+                            backgroundColor: '#0A0A0A',
+                            border: '1px solid rgba(255,255,255,0.1)',
+                            borderRadius: '0px',
+                            color: '#FFFFFF',
+                            fontSize: '12px',
+                            fontFamily: 'JetBrains Mono'
+                          }}
+                          itemStyle={{ color: '#00ffff' }}
+                          formatter={(value: number) => [`${formatAmount(value)} ${chartHabit.target.unit}`, 'Actual']}
+                          cursor={{ fill: 'rgba(0, 255, 255, 0.03)' }}
+                        />
+                        <ReferenceLine y={chartHabit.target.amount} stroke="rgba(255,255,255,0.4)" strokeDasharray="4 4" />
+                        <Bar dataKey="actual" radius={[2, 2, 0, 0]} animationDuration={1500}>
+                          {targetProgressData.map((entry, index) => (
+                            <Cell
+                              key={`cell-${index}`}
+                              fill={entry.actual >= chartHabit.target.amount ? '#00ffff' : entry.due ? 'rgba(0, 255, 255, 0.35)' : 'rgba(255, 255, 255, 0.15)'}
+                            />
+                          ))}
+                        </Bar>
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              </motion.div>
+            )}
+
+            {/* Group Efficiency */}
+            {groupEfficiencyData.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.35 }}
+                className="bg-[#0A0A0A] border border-white/10 p-8"
+              >
+                <div className="space-y-1 mb-8">
+                  <h3 className="text-sm font-bold uppercase tracking-widest flex items-center gap-2">
+                    <LayoutGrid size={16} className="text-[#00ffff]" />
+                    Group Efficiency
+                  </h3>
+                  <p className="text-xs opacity-30 font-mono">Credit earned over due days, per group, for {periodLabel}</p>
+                </div>
+
+                <div style={{ height: `${Math.max(120, groupEfficiencyData.length * 48)}px` }} className="w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={groupEfficiencyData} layout="vertical" margin={{ top: 0, right: 40, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="rgba(255,255,255,0.05)" />
+                      <XAxis
+                        type="number"
+                        domain={[0, 100]}
+                        axisLine={false}
+                        tickLine={false}
+                        tick={{ fontSize: 10, fill: '#FFFFFF', opacity: 0.3, fontWeight: 600, fontFamily: 'JetBrains Mono' }}
+                      />
+                      <YAxis
+                        type="category"
+                        dataKey="name"
+                        width={120}
+                        axisLine={false}
+                        tickLine={false}
+                        tick={{ fill: 'rgba(255,255,255,0.7)', fontSize: 11, fontFamily: 'monospace', fontWeight: 600 }}
+                      />
+                      <Tooltip
+                        content={({ active, payload }) => {
+                          if (active && payload && payload.length) {
+                            const data: any = payload[0].payload;
+                            return (
+                              <div className="bg-[#0F0F0F] border border-[#00ffff]/30 p-3 shadow-2xl">
+                                <p className="text-[10px] font-mono uppercase opacity-40 mb-1">{data.name}</p>
+                                <p className="text-sm font-bold text-[#00ffff]">{data.percentage}% Efficiency</p>
+                                <p className="text-[9px] opacity-30 mt-1">
+                                  {Math.round(data.count * 10) / 10} / {data.total} Due
+                                </p>
+                              </div>
+                            );
+                          }
+                          return null;
+                        }}
+                        cursor={{ fill: 'rgba(0, 255, 255, 0.03)' }}
+                      />
+                      <Bar dataKey="percentage" fill="#00ffff" radius={[0, 2, 2, 0]} barSize={20}>
+                        <LabelList
+                          dataKey="percentage"
+                          position="right"
+                          fill="rgba(255,255,255,0.7)"
+                          fontSize={10}
+                          fontFamily="monospace"
+                          formatter={(val: number) => `${val}%`}
+                        />
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </motion.div>
+            )}
+
             {/* Yearly Overview - 12 Months Summary */}
             <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.4 }} className="bg-[#0A0A0A] border border-white/10 p-8">
               <div className="flex items-center justify-between mb-8">
@@ -726,7 +1765,7 @@ export default function App() {
                         {yearlyStats.map((entry: any, index: number) => (
                           <Cell
                             key={`cell-${index}`}
-                            fill={entry.name === format(new Date(), 'MMM') ? '#00ffff' : 'rgba(0, 255, 255, 0.2)'}
+                            fill={entry.name === format(today, 'MMM') ? '#00ffff' : 'rgba(0, 255, 255, 0.2)'}
                             className="transition-all duration-500 hover:fill-[#00ffff]"
                           />
                         ))}
@@ -738,78 +1777,171 @@ export default function App() {
             </motion.div>
           </div>
 
-          {/* Monthly Summary Pie - Sidebar Panel */}
-          <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: 0.5 }} className="xl:col-span-4 bg-[#0A0A0A] border border-white/10 p-8 self-start">
-            <div className="space-y-1 mb-4">
-              <h3 className="text-sm font-bold uppercase tracking-widest">Monthly Quota</h3>
-              <p className="text-xs opacity-30 font-mono">Distribution of completed tasks</p>
-            </div>
-
-            <div className="flex flex-col items-center justify-start mt-4">
-              <div className="relative h-[280px] w-full">
-                <ResponsiveContainer width="100%" height="100%">
-                  <PieChart>
-                    <Pie
-                      data={pieData}
-                      cx="50%"
-                      cy="50%"
-                      innerRadius={80}
-                      outerRadius={110}
-                      paddingAngle={0}
-                      dataKey="value"
-                      stroke="none"
-                      startAngle={90}
-                      endAngle={-270}
-                    >
-                      {pieData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={index === 0 ? '#00ffff' : 'rgba(255,255,255,0.05)'} />
-                      ))}
-                    </Pie>
-                  </PieChart>
-                </ResponsiveContainer>
-                <div className="absolute inset-0 flex flex-col items-center justify-center">
-                  <span className="text-5xl font-bold tracking-tighter text-[#00ffff]">{monthlyOverallStats.completed}%</span>
-                  <span className="text-[10px] font-mono uppercase opacity-30 mt-1">{format(currentDate, 'MMMM')} Yield</span>
-                </div>
+          <div className="xl:col-span-4 space-y-8 self-start">
+            {/* Monthly Summary Pie - Sidebar Panel */}
+            <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: 0.5 }} className="bg-[#0A0A0A] border border-white/10 p-8">
+              <div className="space-y-1 mb-4">
+                <h3 className="text-sm font-bold uppercase tracking-widest">{view === 'month' ? 'Monthly' : 'Period'} Quota</h3>
+                <p className="text-xs opacity-30 font-mono">Distribution of completed tasks</p>
               </div>
 
-              <div className="w-full mt-6 border border-white/10 overflow-hidden">
-                <div className="bg-white/5 py-2 px-4 border-b border-white/10 text-center">
-                  <span className="text-[10px] font-bold uppercase tracking-[0.2em] opacity-50">Monthly Progress</span>
+              <div className="flex flex-col items-center justify-start mt-4">
+                <div className="relative h-[280px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie
+                        data={pieData}
+                        cx="50%"
+                        cy="50%"
+                        innerRadius={80}
+                        outerRadius={110}
+                        paddingAngle={0}
+                        dataKey="value"
+                        stroke="none"
+                        startAngle={90}
+                        endAngle={-270}
+                      >
+                        {pieData.map((entry, index) => (
+                          <Cell key={`cell-${index}`} fill={index === 0 ? '#00ffff' : 'rgba(255,255,255,0.05)'} />
+                        ))}
+                      </Pie>
+                    </PieChart>
+                  </ResponsiveContainer>
+                  <div className="absolute inset-0 flex flex-col items-center justify-center">
+                    <span className="text-5xl font-bold tracking-tighter text-[#00ffff]">{monthlyOverallStats.completed}%</span>
+                    <span className="text-[10px] font-mono uppercase opacity-30 mt-1">{periodLabel} Yield</span>
+                  </div>
                 </div>
 
-                <div className="grid grid-cols-[100px_1fr_60px] items-center border-b border-white/10">
-                  <div className="px-4 py-3 border-r border-white/10 text-[10px] font-bold uppercase tracking-widest">Completed</div>
-                  <div className="px-4 py-3 border-r border-white/10">
-                    <div className="h-3 bg-white/5 relative overflow-hidden">
-                      <motion.div
-                        initial={{ width: 0 }}
-                        animate={{ width: `${monthlyOverallStats.completed}%` }}
-                        transition={{ duration: 1, ease: 'easeOut' }}
-                        className="absolute inset-y-0 left-0 bg-[#00ffff]"
-                      />
+                <div className="w-full mt-6 border border-white/10 overflow-hidden">
+                  <div className="bg-white/5 py-2 px-4 border-b border-white/10 text-center">
+                    <span className="text-[10px] font-bold uppercase tracking-[0.2em] opacity-50">Monthly Progress</span>
+                  </div>
+
+                  <div className="grid grid-cols-[100px_1fr_60px] items-center border-b border-white/10">
+                    <div className="px-4 py-3 border-r border-white/10 text-[10px] font-bold uppercase tracking-widest">Completed</div>
+                    <div className="px-4 py-3 border-r border-white/10">
+                      <div className="h-3 bg-white/5 relative overflow-hidden">
+                        <motion.div
+                          initial={{ width: 0 }}
+                          animate={{ width: `${monthlyOverallStats.completed}%` }}
+                          transition={{ duration: 1, ease: 'easeOut' }}
+                          className="absolute inset-y-0 left-0 bg-[#00ffff]"
+                        />
+                      </div>
                     </div>
+                    <div className="px-4 py-3 text-right text-[10px] font-mono font-bold text-[#00ffff]">{monthlyOverallStats.completed}%</div>
                   </div>
-                  <div className="px-4 py-3 text-right text-[10px] font-mono font-bold text-[#00ffff]">{monthlyOverallStats.completed}%</div>
-                </div>
 
-                <div className="grid grid-cols-[100px_1fr_60px] items-center">
-                  <div className="px-4 py-3 border-r border-white/10 text-[10px] font-bold uppercase tracking-widest">Incompleted</div>
-                  <div className="px-4 py-3 border-r border-white/10">
-                    <div className="h-3 bg-white/5 relative overflow-hidden">
-                      <motion.div
-                        initial={{ width: 0 }}
-                        animate={{ width: `${monthlyOverallStats.incomplete}%` }}
-                        transition={{ duration: 1, ease: 'easeOut' }}
-                        className="absolute inset-y-0 left-0 bg-white/20"
-                      />
+                  <div className="grid grid-cols-[100px_1fr_60px] items-center">
+                    <div className="px-4 py-3 border-r border-white/10 text-[10px] font-bold uppercase tracking-widest">Incompleted</div>
+                    <div className="px-4 py-3 border-r border-white/10">
+                      <div className="h-3 bg-white/5 relative overflow-hidden">
+                        <motion.div
+                          initial={{ width: 0 }}
+                          animate={{ width: `${monthlyOverallStats.incomplete}%` }}
+                          transition={{ duration: 1, ease: 'easeOut' }}
+                          className="absolute inset-y-0 left-0 bg-white/20"
+                        />
+                      </div>
                     </div>
+                    <div className="px-4 py-3 text-right text-[10px] font-mono font-bold">{monthlyOverallStats.incomplete}%</div>
                   </div>
-                  <div className="px-4 py-3 text-right text-[10px] font-mono font-bold">{monthlyOverallStats.incomplete}%</div>
                 </div>
               </div>
-            </div>
-          </motion.div>
+            </motion.div>
+
+            {/* Streak Ledger - Sidebar Panel */}
+            <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: 0.6 }} className="bg-[#0A0A0A] border border-white/10 p-8">
+              <div className="flex items-start justify-between gap-4 mb-6">
+                <div className="space-y-1">
+                  <h3 className="text-sm font-bold uppercase tracking-widest flex items-center gap-2">
+                    <Flame size={16} className="text-[#00ffff]" />
+                    Streak Ledger
+                  </h3>
+                  <p className="text-xs opacity-30 font-mono">Across full history, not just this month</p>
+                </div>
+                <button
+                  onClick={() => setSettings(prev => ({ ...prev, skipPreservesStreak: !prev.skipPreservesStreak }))}
+                  className={cn(
+                    'px-3 py-2 text-[10px] font-mono uppercase border transition-all whitespace-nowrap',
+                    settings.skipPreservesStreak ? 'border-[#00ffff] text-[#00ffff]' : 'border-white/10 opacity-50'
+                  )}
+                >
+                  Skip keeps streak: {settings.skipPreservesStreak ? 'On' : 'Off'}
+                </button>
+              </div>
+
+              <div className="border border-white/10">
+                <div className="grid grid-cols-[1fr_50px_50px_90px] bg-white/5 py-2 px-4 border-b border-white/10 text-[10px] font-bold uppercase tracking-[0.2em] opacity-50">
+                  <span>Habit</span>
+                  <span className="text-right">Now</span>
+                  <span className="text-right">Best</span>
+                  <span className="text-right">Broken</span>
+                </div>
+                {streakLeaders.map(habit => {
+                  const streak = streaks[habit.id];
+                  return (
+                    <div key={habit.id} className="grid grid-cols-[1fr_50px_50px_90px] items-center px-4 py-2 border-b border-white/5 last:border-0">
+                      <span className="text-xs font-bold truncate">{habit.name}</span>
+                      <span className={cn('text-right text-xs font-mono font-bold', streak.current > 0 ? 'text-[#00ffff]' : 'opacity-30')}>{streak.current}</span>
+                      <span className="text-right text-xs font-mono opacity-70">{streak.longest}</span>
+                      <span className="text-right text-[10px] font-mono opacity-40">
+                        {streak.lastBrokenOn ? format(fromDateKey(streak.lastBrokenOn), 'MMM d') : '—'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </motion.div>
+
+            {/* Slip Log - Sidebar Panel */}
+            {slipLedger.length > 0 && (
+              <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: 0.7 }} className="bg-[#0A0A0A] border border-white/10 p-8">
+                <div className="space-y-1 mb-6">
+                  <h3 className="text-sm font-bold uppercase tracking-widest flex items-center gap-2">
+                    <ShieldCheck size={16} className="text-[#00ffff]" />
+                    Slip Log
+                  </h3>
+                  <p className="text-xs opacity-30 font-mono">Avoid habits: every day counts unless you log a slip</p>
+                </div>
+
+                <div className="border border-white/10">
+                  <div className="grid grid-cols-[1fr_60px_60px] bg-white/5 py-2 px-4 border-b border-white/10 text-[10px] font-bold uppercase tracking-[0.2em] opacity-50">
+                    <span>Habit</span>
+                    <span className="text-right">Clean</span>
+                    <span className="text-right">{view === 'month' ? format(currentDate, 'MMM') : 'Range'}</span>
+                  </div>
+                  {slipLedger.map(entry => (
+                    <div key={entry.habit.id} className="px-4 py-2 border-b border-white/5 last:border-0">
+                      <div className="grid grid-cols-[1fr_60px_60px] items-center">
+                        <span className="text-xs font-bold truncate">{entry.habit.name}</span>
+                        <span className="text-right text-xs font-mono font-bold text-[#00ffff]">{entry.daysSinceSlip}d</span>
+                        <span className={cn('text-right text-xs font-mono', entry.monthSlips > 0 ? 'text-red-500 font-bold' : 'opacity-30')}>
+                          {entry.monthSlips}
+                        </span>
+                      </div>
+                      {entry.lastSlipOn && (
+                        <p className="text-[10px] font-mono opacity-40 truncate mt-1">
+                          Last slip {format(fromDateKey(entry.lastSlipOn), 'MMM d')}
+                          {entry.lastNote ? ` · ${entry.lastNote}` : ''}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+
+            {/* Weekly Coach - Sidebar Panel */}
+            <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: 0.8 }} className="bg-[#0A0A0A] border border-white/10">
+              <CoachReport
+                onApply={(habitId, schedule) =>
+                  saveSchedule(habitId, { schedule }, `Applied coach suggestion for ${habits.find(h => h.id === habitId)?.name}`)
+                }
+              />
+            </motion.div>
+          </div>
         </div>
       </div>
 
@@ -825,9 +1957,24 @@ export default function App() {
               </span>
             </div>
             <div className="flex flex-col">
-              <span className="text-[10px] font-mono uppercase opacity-30">Data Integrity</span>
-              <span className="text-xs font-bold">Verified</span>
+              <span className="text-[10px] font-mono uppercase opacity-30">Sync</span>
+              <span className="text-xs font-bold flex items-center gap-2">
+                <div className={cn('w-1.5 h-1.5 rounded-full', SYNC_STATUS[sync.status].dot)} />
+                {SYNC_STATUS[sync.status].label}
+                {sync.pending > 0 && <span className="font-mono opacity-50">· {sync.pending} queued</span>}
+              </span>
             </div>
+            {sync.user && (
+              <div className="flex flex-col">
+                <span className="text-[10px] font-mono uppercase opacity-30">Account</span>
+                <span className="text-xs font-bold flex items-center gap-2">
+                  {sync.user.email}
+                  <button onClick={sync.signOut} className="p-1 hover:bg-[#00ffff] hover:text-black transition-all" title="Sign out">
+                    <LogOut size={12} />
+                  </button>
+                </span>
+              </div>
+            )}
           </div>
 
           <div className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-20">Precision Habit Dashboard v3.0.0</div>
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Archive, ArchiveRestore, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { fromDateKey } from '../lib/dates';
+import { groupOf } from '../lib/groups';
+import type { Habit, HabitCompletion } from '../types';
+
+type Props = {
+  habits: Habit[];
+  completions: HabitCompletion;
+  onRestore: (habitId: string) => void;
+  // Removes the habit and every entry logged for it.
+  onDelete: (habitId: string) => void;
+  onClose: () => void;
+};
+
+export default function ArchivedHabits({ habits, completions, onRestore, onDelete, onClose }: Props) {
+  const entriesFor = (habitId: string) => Object.values(completions).filter(day => day[habitId] !== undefined).length;
+
+  return (
+    <div className="p-6 flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-bold tracking-tight flex items-center gap-2">
+          <Archive size={16} className="text-[#00ffff]" />
+          Archived Habits
+        </span>
+        <button onClick={onClose} className="p-2 border border-white/10 hover:bg-white/5 transition-all">
+          <X size={18} />
+        </button>
+      </div>
+
+      {habits.length === 0 ? (
+        <p className="text-[10px] font-mono uppercase opacity-50">Nothing archived.</p>
+      ) : (
+        <div className="border border-white/10">
+          {habits.map(habit => (
+            <div key={habit.id} className="flex items-center gap-4 px-4 py-3 border-b border-white/5 last:border-0">
+              <div className="flex flex-col flex-1 min-w-0">
+                <span className="text-sm font-bold truncate">{habit.name}</span>
+                <span className="text-[10px] font-mono uppercase opacity-40">
+                  {[groupOf(habit), `Archived ${format(fromDateKey(habit.archivedOn), 'MMM d, yyyy')}`, `${entriesFor(habit.id)} entries`]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </span>
+              </div>
+              <button onClick={() => onRestore(habit.id)} className="btn-secondary flex items-center gap-2">
+                <ArchiveRestore size={12} />
+                Restore
+              </button>
+              <button
+                onClick={() => onDelete(habit.id)}
+                title="Delete the habit and its history"
+                className="p-2 border border-white/10 hover:bg-red-600 hover:border-red-600 transition-all"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-[10px] font-mono opacity-30">
+        Archived habits stay in the months they were tracked and drop out of current stats. Restoring makes the days since archiving due again.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, RefreshCw, Sparkles, TrendingDown, TrendingUp } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { fromDateKey } from '../lib/dates';
+import { fetchCoachingReport, type CoachingReport } from '../lib/coaching';
+import type { HabitSchedule } from '../types';
+
+type Props = {
+  onApply: (habitId: string, schedule: HabitSchedule) => void;
+};
+
+const labelClass = 'text-[10px] font-mono uppercase tracking-widest opacity-50';
+
+export default function CoachReport({ onApply }: Props) {
+  const [report, setReport] = useState<CoachingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+  const [applied, setApplied] = useState<string[]>([]);
+
+  const load = async (refresh: boolean) => {
+    setLoading(true);
+    setFailed(false);
+    try {
+      setReport(await fetchCoachingReport(refresh));
+      setApplied([]);
+    } catch (err) {
+      console.error('Failed to load coaching report', err);
+      setFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load(false);
+  }, []);
+
+  return (
+    <div className="p-8">
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div className="space-y-1">
+          <h3 className="text-sm font-bold uppercase tracking-widest flex items-center gap-2">
+            <Sparkles size={16} className="text-[#00ffff]" />
+            Weekly Coach
+          </h3>
+          <p className="text-xs opacity-30 font-mono">
+            {report ? `Week of ${format(fromDateKey(report.weekOf), 'MMM d')} · ${report.model}` : 'Last full week'}
+          </p>
+        </div>
+        <button
+          onClick={() => load(true)}
+          disabled={loading}
+          title="Regenerate"
+          className="p-2 border border-white/10 hover:border-[#00ffff]/40 transition-all disabled:opacity-30"
+        >
+          {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+        </button>
+      </div>
+
+      {failed && <p className="text-[10px] font-mono uppercase text-red-500">Report unavailable. Try again later.</p>}
+
+      {report && (
+        <div className={cn('space-y-6', loading && 'opacity-40')}>
+          <div className="space-y-2">
+            <p className="text-lg font-bold tracking-tight text-[#00ffff]">{report.narrative.headline}</p>
+            <p className="text-xs leading-relaxed opacity-70">{report.narrative.summary}</p>
+          </div>
+
+          {report.weakest.length > 0 && (
+            <div className="space-y-2">
+              <span className={labelClass}>Needs attention</span>
+              {report.weakest.map(insight => (
+                <div key={insight.habitId} className="flex items-center justify-between text-xs">
+                  <span className="font-bold truncate">{insight.name}</span>
+                  <span className="flex items-center gap-2 font-mono">
+                    {insight.change !== null && insight.change !== 0 && (
+                      <span className={cn('flex items-center gap-1', insight.change > 0 ? 'text-[#00ffff]' : 'text-red-500')}>
+                        {insight.change > 0 ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+                        {insight.change > 0 ? '+' : ''}
+                        {insight.change}
+                      </span>
+                    )}
+                    <span className="opacity-50">{insight.rate}%</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {report.suggestions.length > 0 && (
+            <div className="space-y-3">
+              <span className={labelClass}>Schedule changes</span>
+              {report.suggestions.map(suggestion => (
+                <div key={suggestion.habitId} className="border border-white/10 p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-bold truncate">{suggestion.name}</span>
+                    <button
+                      onClick={() => {
+                        onApply(suggestion.habitId, suggestion.schedule);
+                        setApplied(prev => [...prev, suggestion.habitId]);
+                      }}
+                      disabled={applied.includes(suggestion.habitId)}
+                      className="px-3 py-1 text-[10px] font-mono font-bold uppercase border border-white/10 hover:border-[#00ffff]/40 transition-all disabled:opacity-30"
+                    >
+                      {applied.includes(suggestion.habitId) ? 'Applied' : 'Apply'}
+                    </button>
+                  </div>
+                  <p className="text-[10px] font-mono opacity-50">
+                    {suggestion.current} → <span className="text-[#00ffff]">{suggestion.suggested}</span>
+                  </p>
+                  <p className="text-[10px] font-mono opacity-40">{suggestion.reason}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {report.narrative.tips.length > 0 && (
+            <ul className="space-y-2 text-xs opacity-70 list-disc pl-4">
+              {report.narrative.tips.map(tip => (
+                <li key={tip}>{tip}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
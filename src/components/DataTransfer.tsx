@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Loader2, Upload, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { toDateKey } from '../lib/dates';
+import {
+  detectFormat,
+  exportCsv,
+  exportFileName,
+  exportJson,
+  parseImport,
+  planImport,
+  type ImportMode,
+  type ImportPlan,
+  type TransferFormat
+} from '../lib/transfer';
+import type { RemoteState } from '../types';
+
+type Props = {
+  state: RemoteState;
+  // Sends the file to the server; rejects when it couldn't be imported.
+  onImport: (text: string, format: TransferFormat, mode: ImportMode) => Promise<void>;
+  onClose: () => void;
+};
+
+type Pending = { fileName: string; text: string; format: TransferFormat; incoming: RemoteState } | { fileName: string; errors: string[] };
+
+const labelClass = 'text-[10px] font-mono uppercase tracking-widest opacity-50';
+
+// Exports come from the local state, so they work offline and include queued edits.
+const download = (format: TransferFormat, state: RemoteState) => {
+  const text = format === 'csv' ? exportCsv(state) : exportJson(state);
+  const url = URL.createObjectURL(new Blob([text], { type: format === 'csv' ? 'text/csv' : 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(format, toDateKey(new Date()));
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function DataTransfer({ state, onImport, onClose }: Props) {
+  const [pending, setPending] = useState<Pending | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [busy, setBusy] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const readFile = async (file: File) => {
+    const text = await file.text();
+    const format = detectFormat(file.name, text);
+    const parsed = parseImport(text, format);
+    setFailed(false);
+    setPending(parsed.ok ? { fileName: file.name, text, format, incoming: parsed.value } : { fileName: file.name, errors: parsed.errors });
+  };
+
+  const plan = useMemo<ImportPlan | null>(
+    () => (pending && 'incoming' in pending ? planImport(state, pending.incoming, mode) : null),
+    [state, pending, mode]
+  );
+
+  // The preview is planned locally; the server plans the import again against what it has.
+  const confirm = async () => {
+    if (!pending || !('text' in pending)) return;
+    setBusy(true);
+    setFailed(false);
+    try {
+      await onImport(pending.text, pending.format, mode);
+      setPending(null);
+    } catch (err) {
+      console.error('Import failed', err);
+      setFailed(true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-6 flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-bold tracking-tight">Import / Export</span>
+        <button onClick={onClose} className="p-2 border border-white/10 hover:bg-white/5 transition-all">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-6">
+        <div className="flex flex-col gap-2">
+          <span className={labelClass}>Export</span>
+          <div className="flex items-center gap-2">
+            <button onClick={() => download('json', state)} className="btn-secondary flex items-center gap-2">
+              <Download size={12} />
+              JSON
+            </button>
+            <button onClick={() => download('csv', state)} className="btn-secondary flex items-center gap-2">
+              <Download size={12} />
+              CSV
+            </button>
+          </div>
+        </div>
+
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Import file</span>
+          <span className="btn-secondary flex items-center gap-2 cursor-pointer">
+            <Upload size={12} />
+            {pending ? pending.fileName : 'Choose .json or .csv'}
+          </span>
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) readFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        {plan && (
+          <div className="flex flex-col gap-2">
+            <span className={labelClass}>Mode</span>
+            <div className="flex items-center gap-1">
+              {(['merge', 'replace'] as ImportMode[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={cn(
+                    'px-4 py-2 text-[10px] font-mono font-bold uppercase border transition-all',
+                    mode === option ? 'bg-[#00ffff] border-[#00ffff] text-black' : 'border-white/10 hover:border-[#00ffff]/40'
+                  )}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {pending && 'errors' in pending && (
+        <ul className="text-[10px] font-mono uppercase text-red-500 space-y-1">
+          {pending.errors.map(message => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      {plan && (
+        <div className="flex flex-col gap-4 border-t border-white/10 pt-6">
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+            {[
+              ['Habits added', plan.summary.habitsAdded],
+              ['Habits matched', plan.summary.habitsMatched],
+              ['Habits removed', plan.summary.habitsRemoved],
+              ['Logs added', plan.summary.cellsAdded],
+              ['Logs changed', plan.summary.cellsChanged],
+              ['Logs removed', plan.summary.cellsRemoved]
+            ].map(([label, value]) => (
+              <div key={label} className="flex flex-col gap-1">
+                <span className={labelClass}>{label}</span>
+                <span className={cn('text-xl font-bold data-value', value === 0 && 'opacity-30')}>{value}</span>
+              </div>
+            ))}
+          </div>
+
+          {plan.summary.remapped.length > 0 && (
+            <p className="text-[10px] font-mono opacity-50">
+              Remapped ids: {plan.summary.remapped.map(r => `${r.name} (${r.from} → ${r.to})`).join(', ')}
+            </p>
+          )}
+
+          {failed && <p className="text-[10px] font-mono uppercase text-red-500">Couldn't import: the server is unreachable or changes are still syncing. Try again.</p>}
+
+          <div className="flex items-center gap-4">
+            <button onClick={confirm} disabled={busy} className="btn-primary flex items-center gap-2 disabled:opacity-40">
+              {busy && <Loader2 size={12} className="animate-spin" />}
+              {mode === 'replace' ? 'Replace All Data' : 'Merge Import'}
+            </button>
+            <button onClick={() => setPending(null)} className="btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
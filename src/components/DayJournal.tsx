@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { BookOpen, Save, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '../lib/utils';
+import { fromDateKey } from '../lib/dates';
+import { JOURNAL_SCORES, MAX_NOTE_LENGTH, SKIP_REASONS, cleanEntry } from '../lib/journal';
+import { describeStatus } from '../lib/scoring';
+import type { CellNote, Habit, HabitStatus, JournalEntry, JournalScore } from '../types';
+
+type Props = {
+  dateKey: string;
+  // Habits tracked that day, in matrix order.
+  habits: Habit[];
+  statuses: { [habitId: string]: HabitStatus };
+  entry: JournalEntry | undefined;
+  // Habit whose note gets the focus, when opened from a cell.
+  focusHabitId?: string;
+  // `undefined` removes the day's entry.
+  onSave: (entry: JournalEntry | undefined) => void;
+  onClose: () => void;
+};
+
+const inputClass = 'bg-[#141414] border-none px-3 py-2 text-sm font-bold focus:ring-1 focus:ring-[#00ffff] outline-none text-white';
+const labelClass = 'text-[10px] font-mono uppercase tracking-widest opacity-50';
+
+const SCORE_LABELS: Record<'mood' | 'energy', string[]> = {
+  mood: ['Awful', 'Low', 'Okay', 'Good', 'Great'],
+  energy: ['Drained', 'Tired', 'Steady', 'Fresh', 'Charged']
+};
+
+export default function DayJournal({ dateKey, habits, statuses, entry, focusHabitId, onSave, onClose }: Props) {
+  const [draft, setDraft] = useState<JournalEntry>(entry ?? {});
+
+  const setScore = (field: 'mood' | 'energy', score: JournalScore) =>
+    setDraft(prev => ({ ...prev, [field]: prev[field] === score ? undefined : score }));
+
+  const setCell = (habitId: string, changes: CellNote) =>
+    setDraft(prev => ({ ...prev, cells: { ...prev.cells, [habitId]: { ...prev.cells?.[habitId], ...changes } } }));
+
+  const scoreRow = (field: 'mood' | 'energy') => (
+    <div className="flex flex-col gap-2">
+      <span className={labelClass}>{field}</span>
+      <div className="flex items-center gap-1" role="radiogroup" aria-label={field}>
+        {JOURNAL_SCORES.map(score => (
+          <button
+            key={score}
+            role="radio"
+            aria-checked={draft[field] === score}
+            title={SCORE_LABELS[field][score - 1]}
+            onClick={() => setScore(field, score)}
+            className={cn(
+              'w-9 h-9 text-[10px] font-mono font-bold border transition-all',
+              draft[field] === score ? 'bg-[#00ffff] border-[#00ffff] text-black' : 'border-white/10 hover:border-[#00ffff]/40'
+            )}
+          >
+            {score}
+          </button>
+        ))}
+        <span className="ml-2 text-[10px] font-mono uppercase opacity-40 w-16">{draft[field] ? SCORE_LABELS[field][draft[field] - 1] : ''}</span>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="p-6 flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-bold tracking-tight flex items-center gap-2">
+          <BookOpen size={16} className="text-[#00ffff]" />
+          Journal
+          <span className="ml-1 text-[10px] font-mono uppercase opacity-40">{format(fromDateKey(dateKey), 'EEE, MMM d')}</span>
+        </span>
+        <div className="flex items-center gap-4">
+          <button onClick={() => onSave(cleanEntry(draft))} className="p-2 bg-[#00ffff] text-black hover:bg-[#00ffff]/80 transition-all">
+            <Save size={18} />
+          </button>
+          {entry && (
+            <button
+              onClick={() => onSave(undefined)}
+              title="Clear the day's journal and notes"
+              className="p-2 border border-white/10 hover:bg-red-600 hover:border-red-600 transition-all"
+            >
+              <Trash2 size={18} />
+            </button>
+          )}
+          <button onClick={onClose} className="p-2 border border-white/10 hover:bg-white/5 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-start gap-8">
+        {scoreRow('mood')}
+        {scoreRow('energy')}
+        <label className="flex flex-col gap-2 flex-1 min-w-[240px]">
+          <span className={labelClass}>How the day went</span>
+          <textarea
+            autoFocus={!focusHabitId}
+            rows={2}
+            maxLength={MAX_NOTE_LENGTH}
+            placeholder="Optional"
+            value={draft.note ?? ''}
+            onChange={e => setDraft(prev => ({ ...prev, note: e.target.value }))}
+            className={cn(inputClass, 'resize-y')}
+          />
+        </label>
+      </div>
+
+      {habits.length > 0 && (
+        <div className="border border-white/10 overflow-x-auto custom-scrollbar">
+          {habits.map(habit => {
+            const status = statuses[habit.id];
+            const cell = draft.cells?.[habit.id];
+            return (
+              <div key={habit.id} className="grid grid-cols-[minmax(140px,1fr)_80px_160px_minmax(200px,2fr)] items-center gap-4 px-4 py-2 border-b border-white/5 last:border-0">
+                <span className="text-xs font-bold truncate">{habit.name}</span>
+                <span className="text-[10px] font-mono uppercase opacity-40">{describeStatus(habit, status)}</span>
+                {status === 'skipped' || cell?.reason ? (
+                  <input
+                    list="skip-reasons"
+                    placeholder="Reason"
+                    maxLength={MAX_NOTE_LENGTH}
+                    value={cell?.reason ?? ''}
+                    onChange={e => setCell(habit.id, { reason: e.target.value })}
+                    aria-label={`Why ${habit.name} was skipped`}
+                    className={cn(inputClass, 'text-xs')}
+                  />
+                ) : (
+                  <span />
+                )}
+                <input
+                  autoFocus={habit.id === focusHabitId}
+                  placeholder="Note"
+                  maxLength={MAX_NOTE_LENGTH}
+                  value={cell?.note ?? ''}
+                  onChange={e => setCell(habit.id, { note: e.target.value })}
+                  onKeyDown={e => e.key === 'Enter' && onSave(cleanEntry(draft))}
+                  aria-label={`Note for ${habit.name}`}
+                  className={cn(inputClass, 'text-xs')}
+                />
+              </div>
+            );
+          })}
+          <datalist id="skip-reasons">
+            {SKIP_REASONS.map(reason => (
+              <option key={reason} value={reason} />
+            ))}
+          </datalist>
+        </div>
+      )}
+    </div>
+  );
+}
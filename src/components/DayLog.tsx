@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { format, isSameDay } from 'date-fns';
+import { BookOpen, Check, Minus } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { toDateKey } from '../lib/dates';
+import type { HabitGroup } from '../lib/groups';
+import { scoreDay } from '../lib/heatmap';
+import { cellNoteOf, describeNote } from '../lib/journal';
+import { isHabitDue } from '../lib/schedule';
+import { creditFor, describeStatus, describeTarget, isAmount, isAvoid, isDone, isSlip } from '../lib/scoring';
+import type { Habit, HabitCompletion, Journal } from '../types';
+
+type Props = {
+  date: Date;
+  // The user's current day.
+  today: Date;
+  // Habits shown that day, grouped like the Daily Matrix rows.
+  groups: HabitGroup[];
+  completions: HabitCompletion;
+  journal: Journal;
+  // Same gestures as a matrix cell: done/skipped/clear for plain habits.
+  onCycle: (habitId: string) => void;
+  // `undefined` clears the amount.
+  onAmount: (habitId: string, amount: number | undefined) => void;
+  // Opens the slip editor for an avoid habit.
+  onSlip: (habitId: string) => void;
+  onToggleSkipped: (habitId: string) => void;
+  onOpenJournal: (habitId?: string) => void;
+};
+
+/**
+ * The Daily Matrix for a single day, one full-width row per habit with
+ * thumb-sized targets; the default on phones and the "Log today" shortcut.
+ */
+export default function DayLog({ date, today, groups, completions, journal, onCycle, onAmount, onSlip, onToggleSkipped, onOpenJournal }: Props) {
+  const dateKey = toDateKey(date);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+
+  const habits = groups.flatMap(group => group.habits);
+  const ratio = scoreDay(habits, date, completions, today);
+  const dueCount = habits.filter(habit => isHabitDue(habit, date, completions, today) && completions[dateKey]?.[habit.id] !== 'skipped').length;
+  const doneCount = habits.filter(habit => isHabitDue(habit, date, completions, today) && isDone(habit, completions[dateKey]?.[habit.id])).length;
+
+  const saveAmount = (habitId: string) => {
+    const text = amounts[habitId];
+    setAmounts(({ [habitId]: _, ...rest }) => rest);
+    if (text === undefined) return;
+    const amount = text.trim() === '' ? undefined : Number(text);
+    if (amount !== undefined && !isAmount(amount)) return;
+    if (amount !== completions[dateKey]?.[habitId]) onAmount(habitId, amount);
+  };
+
+  const row = (habit: Habit) => {
+    const status = completions[dateKey]?.[habit.id];
+    const isDue = isHabitDue(habit, date, completions, today);
+    const done = isDone(habit, status) && (isDue || !isAvoid(habit));
+    const slip = isSlip(status) ? status : null;
+    const note = describeNote(cellNoteOf(journal, dateKey, habit.id));
+
+    return (
+      <div key={habit.id} className={cn('flex items-center gap-3 px-4 py-3 border-b border-white/5', !isDue && 'opacity-50')}>
+        <div className="flex flex-col flex-1 min-w-0">
+          <span className="text-sm font-bold tracking-tight truncate">{habit.name}</span>
+          <span className="text-[10px] font-mono uppercase opacity-40 truncate">
+            {[isDue ? describeStatus(habit, status) : 'Not due', describeTarget(habit), note].filter(Boolean).join(' · ')}
+          </span>
+        </div>
+        <button
+          onClick={() => onOpenJournal(habit.id)}
+          aria-label={`Note for ${habit.name}`}
+          className={cn('w-11 h-11 flex items-center justify-center border border-white/10 transition-all', note ? 'text-amber-400' : 'opacity-40')}
+        >
+          <BookOpen size={16} />
+        </button>
+        <button
+          onClick={() => onToggleSkipped(habit.id)}
+          aria-label={`Skip ${habit.name}`}
+          aria-pressed={status === 'skipped'}
+          className={cn(
+            'w-11 h-11 flex items-center justify-center border transition-all',
+            status === 'skipped' ? 'bg-white/10 border-white/30' : 'border-white/10 opacity-40'
+          )}
+        >
+          <Minus size={16} />
+        </button>
+        {habit.target ? (
+          <div className="relative w-20 h-14 border border-white/10 overflow-hidden">
+            <div
+              className="absolute inset-x-0 bottom-0 bg-[#00ffff]/25 pointer-events-none"
+              style={{ height: `${Math.round(creditFor(habit, status) * 100)}%` }}
+            />
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="any"
+              placeholder={habit.target.unit}
+              value={amounts[habit.id] ?? (isAmount(status) ? String(status) : '')}
+              onChange={e => setAmounts(prev => ({ ...prev, [habit.id]: e.target.value }))}
+              onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+              onBlur={() => saveAmount(habit.id)}
+              aria-label={`${habit.name} amount`}
+              className={cn(
+                'relative w-full h-full bg-transparent text-center text-sm font-mono font-bold outline-none focus:ring-1 focus:ring-[#00ffff] [appearance:textfield]',
+                done ? 'text-[#00ffff]' : 'text-white'
+              )}
+            />
+          </div>
+        ) : (
+          <button
+            onClick={() => (isAvoid(habit) ? onSlip(habit.id) : onCycle(habit.id))}
+            aria-label={`${habit.name}: ${describeStatus(habit, status)}`}
+            className={cn(
+              'w-20 h-14 flex items-center justify-center border transition-all',
+              slip
+                ? 'bg-red-600/80 border-red-600 text-white'
+                : done && isAvoid(habit) && status === undefined
+                  ? 'bg-[#00ffff]/10 border-[#00ffff]/40 text-[#00ffff]'
+                  : done
+                    ? 'bg-[#00ffff] border-[#00ffff] text-black shadow-[0_0_20px_rgba(0,255,255,0.5)]'
+                    : 'border-white/10 active:border-[#00ffff]/60'
+            )}
+          >
+            {slip ? (
+              <span className="text-xs font-mono font-bold">{slip.slips}</span>
+            ) : (
+              done && <Check size={20} strokeWidth={4} />
+            )}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 px-4 py-4 border-b border-white/10">
+        <div className="flex flex-col">
+          <span className="text-sm font-bold tracking-tight">
+            {isSameDay(date, today) ? 'Today' : format(date, 'EEEE')}
+            <span className="ml-2 text-[10px] font-mono uppercase opacity-40">{format(date, 'MMM d')}</span>
+          </span>
+          <span className="text-[10px] font-mono uppercase opacity-40">
+            {doneCount} of {dueCount} done{ratio === null ? '' : ` · ${Math.round(ratio * 100)}%`}
+          </span>
+        </div>
+        <button onClick={() => onOpenJournal()} className="btn-secondary flex items-center gap-2">
+          <BookOpen size={12} />
+          Journal
+        </button>
+      </div>
+      <div className="h-[2px] bg-white/10">
+        <div className="h-full bg-[#00ffff] transition-all" style={{ width: `${Math.round((ratio ?? 0) * 100)}%` }} />
+      </div>
+      {habits.length === 0 ? (
+        <p className="px-4 py-8 text-xs opacity-30 font-mono">No habits on this day.</p>
+      ) : (
+        groups.map(group => (
+          <div key={group.name}>
+            {group.name && (
+              <div className="px-4 pt-4 pb-2 text-[10px] font-mono uppercase tracking-widest opacity-50">{group.name}</div>
+            )}
+            {group.habits.map(row)}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
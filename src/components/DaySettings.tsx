@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { Clock, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '../lib/utils';
+import { MAX_DAY_START_HOUR, isTimeZone } from '../lib/dates';
+import type { AppSettings } from '../types';
+
+type Props = {
+  timeZone: string;
+  dayStartHour: number;
+  // The day the current settings put the user in.
+  today: Date;
+  onChange: (patch: Partial<Pick<AppSettings, 'timeZone' | 'dayStartHour'>>) => void;
+  onClose: () => void;
+};
+
+const inputClass = 'bg-[#141414] border-none px-3 py-2 text-sm font-bold focus:ring-1 focus:ring-[#00ffff] outline-none text-white';
+const labelClass = 'text-[10px] font-mono uppercase tracking-widest opacity-50';
+
+const deviceZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const hourLabel = (hour: number) => (hour === 0 ? 'Midnight' : `${String(hour).padStart(2, '0')}:00`);
+
+export default function DaySettings({ timeZone, dayStartHour, today, onChange, onClose }: Props) {
+  const [zone, setZone] = useState(timeZone);
+  const zones = useMemo(() => ('supportedValuesOf' in Intl ? Intl.supportedValuesOf('timeZone') : []), []);
+  const invalid = zone.trim() !== '' && !isTimeZone(zone.trim());
+
+  // Saved once the name is complete, so typing doesn't reshuffle the matrix.
+  const commitZone = (value: string) => {
+    setZone(value);
+    const trimmed = value.trim();
+    if (trimmed === '' || isTimeZone(trimmed)) onChange({ timeZone: trimmed });
+  };
+
+  return (
+    <div className="p-6 flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-bold tracking-tight flex items-center gap-2">
+          <Clock size={16} className="text-[#00ffff]" />
+          Day Boundary
+        </span>
+        <button onClick={onClose} className="p-2 border border-white/10 hover:bg-white/5 transition-all">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-6">
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Day starts at</span>
+          <select value={dayStartHour} onChange={e => onChange({ dayStartHour: Number(e.target.value) })} className={inputClass}>
+            {Array.from({ length: MAX_DAY_START_HOUR + 1 }, (_, hour) => (
+              <option key={hour} value={hour}>
+                {hourLabel(hour)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Time zone</span>
+          <input
+            value={zone}
+            onChange={e => commitZone(e.target.value)}
+            placeholder={`${deviceZone()} (this device)`}
+            list="time-zones"
+            className={cn(inputClass, 'w-64', invalid && 'ring-1 ring-red-600')}
+          />
+          <datalist id="time-zones">
+            {zones.map(name => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </label>
+
+        <div className="flex flex-col gap-2">
+          <span className={labelClass}>Today is</span>
+          <span className="text-sm font-bold py-2">{format(today, 'EEEE, MMM d')}</span>
+        </div>
+      </div>
+
+      <p className="text-[10px] font-mono opacity-30">
+        {invalid
+          ? 'Unknown time zone; pick one from the list.'
+          : 'Logging before the start hour counts towards the previous day. Streaks, reminders, the digest and the highlighted column all follow this day.'}
+      </p>
+    </div>
+  );
+}
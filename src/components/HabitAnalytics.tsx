@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, Network } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { HIGH_DAY_RATIO, MIN_SAMPLE_DAYS, WEEKDAY_NAMES, correlations, keystoneHabits, outcomeTable, weekdayRates } from '../lib/analytics';
+import type { Habit, HabitCompletion } from '../types';
+
+type Props = {
+  habits: Habit[];
+  completions: HabitCompletion;
+  // The user's current day; history runs up to it.
+  today: Date;
+};
+
+// Pairs and keystones shown; the rest are usually noise.
+const TOP_COUNT = 6;
+
+const rateClass = (percentage: number | null) =>
+  percentage === null
+    ? 'bg-white/[0.04] text-white/20'
+    : percentage >= 80
+      ? 'bg-[#00ffff] text-black'
+      : percentage >= 60
+        ? 'bg-[#00ffff]/50 text-white'
+        : percentage >= 40
+          ? 'bg-[#00ffff]/20 text-white'
+          : 'bg-red-500/20 text-white';
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+export default function HabitAnalytics({ habits, completions, today }: Props) {
+  const [lag, setLag] = useState<0 | 1>(1);
+
+  const table = useMemo(() => outcomeTable(habits, completions, today), [habits, completions, today]);
+  const weekdays = useMemo(() => weekdayRates(table), [table]);
+  const keystones = useMemo(() => keystoneHabits(table).filter(k => k.lift > 0).slice(0, TOP_COUNT), [table]);
+  const pairs = useMemo(() => correlations(table, lag).slice(0, TOP_COUNT), [table, lag]);
+
+  const empty = (text: string) => <p className="text-xs opacity-30 font-mono py-4">{text}</p>;
+
+  return (
+    <div className="p-8">
+      <div className="space-y-1 mb-8">
+        <h3 className="text-sm font-bold uppercase tracking-widest flex items-center gap-2">
+          <Network size={16} className="text-[#00ffff]" />
+          Habit Analytics
+        </h3>
+        <p className="text-xs opacity-30 font-mono">
+          {table.days.length} days of history · patterns need {MIN_SAMPLE_DAYS}+ shared days
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-10">
+        <div className="flex flex-col gap-4">
+          <span className="text-[10px] font-mono uppercase tracking-widest opacity-50">Keystone habits</span>
+          <p className="text-[10px] font-mono opacity-30">
+            How often the other habits hit {Math.round(HIGH_DAY_RATIO * 100)}% when this one is done vs missed
+          </p>
+          {keystones.length === 0
+            ? empty('Not enough history yet.')
+            : keystones.map(k => (
+                <div key={k.habit.id} className="flex items-center gap-4">
+                  <span className="text-xs font-bold truncate flex-1">{k.habit.name}</span>
+                  <span className="text-[10px] font-mono opacity-40 w-28 text-right">
+                    {k.highWhenDone}% vs {k.highWhenMissed}%
+                  </span>
+                  <div className="w-24 h-1.5 bg-white/5">
+                    <div className="h-full bg-[#00ffff]" style={{ width: `${Math.min(100, k.lift)}%` }} />
+                  </div>
+                  <span className="text-xs font-mono font-bold text-[#00ffff] w-12 text-right">{signed(k.lift)}</span>
+                </div>
+              ))}
+        </div>
+
+        <div className="flex flex-col gap-4">
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-[10px] font-mono uppercase tracking-widest opacity-50">Correlations</span>
+            <div className="flex items-center gap-1">
+              {([
+                [0, 'Same day'],
+                [1, 'Next day']
+              ] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setLag(value)}
+                  className={cn(
+                    'px-3 py-1 text-[10px] font-mono uppercase border transition-all',
+                    lag === value ? 'bg-[#00ffff] border-[#00ffff] text-black' : 'border-white/10 hover:border-[#00ffff]/40'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {pairs.length === 0
+            ? empty('No pairs with enough shared days yet.')
+            : pairs.map(pair => (
+                <div
+                  key={`${pair.from.id}-${pair.to.id}`}
+                  title={`${pair.to.name}: ${pair.rateWhenDone}% when ${pair.from.name} was done, ${pair.rateWhenMissed}% when missed · ${pair.days} days`}
+                  className="flex items-center gap-2"
+                >
+                  <span className="text-xs font-bold truncate flex-1 min-w-0">{pair.from.name}</span>
+                  <ArrowRight size={12} className="opacity-40 shrink-0" />
+                  <span className="text-xs font-bold truncate flex-1 min-w-0">{pair.to.name}</span>
+                  <span className="text-[10px] font-mono opacity-40 w-24 text-right">
+                    {pair.rateWhenDone}% vs {pair.rateWhenMissed}%
+                  </span>
+                  <span
+                    className={cn('text-xs font-mono font-bold w-12 text-right', pair.coefficient >= 0 ? 'text-[#00ffff]' : 'text-red-400')}
+                  >
+                    {pair.coefficient.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+        </div>
+      </div>
+
+      <div className="mt-10 flex flex-col gap-4">
+        <span className="text-[10px] font-mono uppercase tracking-widest opacity-50">Success by weekday</span>
+        {weekdays.length === 0 ? (
+          empty('No habits yet.')
+        ) : (
+          <div className="overflow-x-auto custom-scrollbar">
+            <div className="grid grid-cols-[minmax(140px,1fr)_repeat(7,48px)] gap-1 min-w-max">
+              <span />
+              {WEEKDAY_NAMES.map(name => (
+                <span key={name} className="text-[10px] font-mono uppercase opacity-40 text-center">
+                  {name}
+                </span>
+              ))}
+              {weekdays.map(({ habit, rates }) => (
+                <React.Fragment key={habit.id}>
+                  <span className="text-xs font-bold truncate pr-4 self-center">{habit.name}</span>
+                  {rates.map((rate, i) => (
+                    <span
+                      key={i}
+                      title={rate.percentage === null ? 'Not due' : `${rate.percentage}% of ${rate.due} ${WEEKDAY_NAMES[i]}s`}
+                      className={cn('h-8 flex items-center justify-center text-[10px] font-mono font-bold', rateClass(rate.percentage))}
+                    >
+                      {rate.percentage === null ? '–' : rate.percentage}
+                    </span>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React from 'react';
+import { History, Redo2, X } from 'lucide-react';
+import { format, isToday } from 'date-fns';
+import { cn } from '../lib/utils';
+import type { HistoryEntry, HistoryStacks } from '../lib/history';
+
+type Props = {
+  stacks: HistoryStacks;
+  // Undoes or redoes until this entry is the latest applied one.
+  onJump: (entryId: string) => void;
+  onClose: () => void;
+};
+
+const when = (entry: HistoryEntry) => {
+  const at = new Date(entry.at);
+  return isToday(at) ? format(at, 'HH:mm') : format(at, 'MMM d, HH:mm');
+};
+
+const size = (entry: HistoryEntry) => {
+  const parts = [
+    entry.cells.length > 0 && `${entry.cells.length} cell${entry.cells.length === 1 ? '' : 's'}`,
+    entry.habits.length > 0 && `${entry.habits.length} habit${entry.habits.length === 1 ? '' : 's'}`,
+    entry.days?.length > 0 && `${entry.days.length} journal day${entry.days.length === 1 ? '' : 's'}`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'order';
+};
+
+export default function HistoryPanel({ stacks, onJump, onClose }: Props) {
+  // Newest first: undone entries (next redo nearest the line), then applied ones.
+  const undone = [...stacks.future];
+  const applied = [...stacks.past].reverse();
+
+  const row = (entry: HistoryEntry, state: 'current' | 'applied' | 'undone') => (
+    <li key={entry.id}>
+      <button
+        onClick={() => onJump(entry.id)}
+        disabled={state === 'current'}
+        title={state === 'undone' ? 'Redo up to here' : state === 'applied' ? 'Undo back to here' : 'Latest step'}
+        className={cn(
+          'w-full grid grid-cols-[1fr_auto_auto] items-center gap-4 px-4 py-2 border-b border-white/5 text-left text-xs transition-all',
+          state === 'current' ? 'bg-[#00ffff]/10' : 'hover:bg-white/5',
+          state === 'undone' && 'opacity-40'
+        )}
+      >
+        <span className={cn('font-bold truncate', state === 'undone' && 'line-through')}>{entry.label}</span>
+        <span className="text-[10px] font-mono uppercase opacity-40">{size(entry)}</span>
+        <span className="text-[10px] font-mono opacity-50 w-24 text-right">{when(entry)}</span>
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="p-6 flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-bold tracking-tight flex items-center gap-2">
+          <History size={16} className="text-[#00ffff]" />
+          History
+          <span className="ml-1 text-[10px] font-mono uppercase opacity-40">
+            {stacks.past.length} to undo · {stacks.future.length} to redo
+          </span>
+        </span>
+        <button onClick={onClose} className="p-2 border border-white/10 hover:bg-white/5 transition-all">
+          <X size={18} />
+        </button>
+      </div>
+
+      {undone.length === 0 && applied.length === 0 ? (
+        <p className="text-[10px] font-mono uppercase opacity-50">Nothing to undo yet.</p>
+      ) : (
+        <ol className="border border-white/10 max-h-72 overflow-auto custom-scrollbar">
+          {undone.map(entry => row(entry, 'undone'))}
+          {undone.length > 0 && (
+            <li className="flex items-center gap-2 px-4 py-1 bg-white/5 text-[10px] font-mono uppercase tracking-widest opacity-50">
+              <Redo2 size={10} />
+              Undone above
+            </li>
+          )}
+          {applied.map((entry, i) => row(entry, i === 0 ? 'current' : 'applied'))}
+        </ol>
+      )}
+
+      <p className="text-[10px] font-mono opacity-30">
+        Click a step to undo or redo up to it. Steps are kept on this device, and only what changed is stored.
+      </p>
+    </div>
+  );
+}
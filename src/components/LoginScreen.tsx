@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { ArrowUpRight, Mail } from 'lucide-react';
+import { motion } from 'motion/react';
+import { requestLoginLink } from '../lib/auth';
+
+type Stage = { type: 'idle' } | { type: 'sending' } | { type: 'sent'; devLink?: string } | { type: 'error'; message: string };
+
+export default function LoginScreen() {
+  const [email, setEmail] = useState('');
+  const [stage, setStage] = useState<Stage>({ type: 'idle' });
+  const expired = new URLSearchParams(window.location.search).get('login') === 'expired';
+
+  const submit = async () => {
+    if (!email.trim()) return;
+    setStage({ type: 'sending' });
+    try {
+      const { devLink } = await requestLoginLink(email.trim());
+      setStage({ type: 'sent', devLink });
+    } catch (err) {
+      setStage({ type: 'error', message: err instanceof Error ? err.message : 'Could not send the link' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-[#FFFFFF] flex items-center justify-center p-4">
+      <div className="fixed inset-0 tech-grid opacity-[0.05] pointer-events-none" />
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="relative z-10 w-full max-w-md bg-[#0A0A0A] border border-white/10 p-8 space-y-8"
+      >
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold tracking-tighter leading-none">
+            HABIT<span className="italic font-serif font-light text-[#00ffff]">MASTERY</span>
+          </h1>
+          <p className="text-xs opacity-30 font-mono">Sign in with a one-time email link</p>
+        </div>
+
+        {expired && stage.type === 'idle' && (
+          <p className="text-[10px] font-mono uppercase text-amber-500">That link has expired or was already used.</p>
+        )}
+
+        {stage.type === 'sent' ? (
+          <div className="space-y-4">
+            <p className="text-sm font-bold flex items-center gap-2">
+              <Mail size={14} className="text-[#00ffff]" />
+              Check your inbox for the sign-in link.
+            </p>
+            {stage.devLink && (
+              <a href={stage.devLink} className="btn-secondary inline-flex items-center gap-2">
+                <ArrowUpRight size={12} />
+                Open dev sign-in link
+              </a>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-4">
+              <input
+                autoFocus
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && submit()}
+                className="flex-1 bg-[#141414] border-none px-4 py-2 text-sm font-bold focus:ring-1 focus:ring-[#00ffff] outline-none text-white"
+              />
+              <button onClick={submit} disabled={stage.type === 'sending'} className="btn-primary disabled:opacity-50">
+                {stage.type === 'sending' ? 'Sending' : 'Send Link'}
+              </button>
+            </div>
+            {stage.type === 'error' && <p className="text-[10px] font-mono uppercase text-red-500">{stage.message}</p>}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
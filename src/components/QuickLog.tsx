@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Check, Loader2, Terminal, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { fromDateKey } from '../lib/dates';
+import { diffChanges, interpretCommand, parseCommand, readChanges, type CommandChange, type CommandDiff } from '../lib/commands';
+import { describeStatus } from '../lib/scoring';
+import type { Habit, HabitCompletion } from '../types';
+
+type Props = {
+  habits: Habit[];
+  completions: HabitCompletion;
+  // The user's current day, which "today" and "yesterday" are read against.
+  today: Date;
+  // Applies every confirmed change as one undoable step.
+  onApply: (changes: CommandChange[]) => void;
+  onClose: () => void;
+};
+
+type Preview = { diff: CommandDiff[]; unmatched: string[]; source: string };
+
+const inputClass = 'bg-[#141414] border-none px-3 py-2 text-sm font-bold focus:ring-1 focus:ring-[#00ffff] outline-none text-white';
+const labelClass = 'text-[10px] font-mono uppercase tracking-widest opacity-50';
+
+export default function QuickLog({ habits, completions, today, onApply, onClose }: Props) {
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const read = async () => {
+    if (!text.trim()) return;
+    let parsed = parseCommand(text, habits, today);
+    let source = 'rules';
+
+    // Only ask the server's model when the rules left something unread.
+    if (parsed.changes.length === 0 || parsed.unmatched.length > 0) {
+      setBusy(true);
+      try {
+        const remote = await interpretCommand(text, today);
+        const checked = readChanges(remote, habits, today);
+        if (checked && checked.changes.length >= parsed.changes.length) {
+          parsed = checked;
+          source = remote.model;
+        }
+      } catch (err) {
+        console.error('Failed to interpret note', err);
+      } finally {
+        setBusy(false);
+      }
+    }
+
+    setPreview({ diff: diffChanges(parsed.changes, completions), unmatched: parsed.unmatched, source });
+  };
+
+  const apply = () => {
+    if (!preview || preview.diff.length === 0) return;
+    onApply(preview.diff.map(({ date, habitId, status }) => ({ date, habitId, status })));
+    setPreview(null);
+    setText('');
+  };
+
+  const habitById = new Map(habits.map(habit => [habit.id, habit]));
+
+  return (
+    <div className="p-6 flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-bold tracking-tight flex items-center gap-2">
+          <Terminal size={16} className="text-[#00ffff]" />
+          Quick Log
+        </span>
+        <button onClick={onClose} className="p-2 border border-white/10 hover:bg-white/5 transition-all">
+          <X size={18} />
+        </button>
+      </div>
+
+      <label className="flex flex-col gap-2">
+        <span className={labelClass}>What did you do?</span>
+        <div className="flex items-center gap-4">
+          <input
+            autoFocus
+            type="text"
+            placeholder="did gym and shower yesterday, skipped MMA"
+            value={text}
+            onChange={e => {
+              setText(e.target.value);
+              setPreview(null);
+            }}
+            onKeyDown={e => e.key === 'Enter' && read()}
+            className={cn(inputClass, 'flex-1')}
+          />
+          <button onClick={read} disabled={busy || !text.trim()} className="btn-secondary flex items-center gap-2 disabled:opacity-30">
+            {busy && <Loader2 size={12} className="animate-spin" />}
+            Preview
+          </button>
+        </div>
+      </label>
+
+      {preview && (
+        <div className="flex flex-col gap-4 border-t border-white/10 pt-6">
+          {preview.diff.length === 0 ? (
+            <p className="text-[10px] font-mono uppercase opacity-50">Nothing to change.</p>
+          ) : (
+            <div className="border border-white/10">
+              <div className="grid grid-cols-[100px_1fr_100px_100px] bg-white/5 py-2 px-4 border-b border-white/10 text-[10px] font-bold uppercase tracking-[0.2em] opacity-50">
+                <span>Day</span>
+                <span>Habit</span>
+                <span>Before</span>
+                <span>After</span>
+              </div>
+              {preview.diff.map(change => {
+                const habit = habitById.get(change.habitId);
+                return (
+                  <div key={`${change.date}|${change.habitId}`} className="grid grid-cols-[100px_1fr_100px_100px] items-center px-4 py-2 border-b border-white/5 last:border-0 text-xs">
+                    <span className="font-mono opacity-50">{format(fromDateKey(change.date), 'EEE, MMM d')}</span>
+                    <span className="font-bold truncate">{habit.name}</span>
+                    <span className="font-mono opacity-40 line-through">{describeStatus(habit, change.before)}</span>
+                    <span className="font-mono font-bold text-[#00ffff]">{describeStatus(habit, change.status)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {preview.unmatched.length > 0 && (
+            <p className="text-[10px] font-mono opacity-50">Not understood: {preview.unmatched.map(part => `“${part}”`).join(', ')}</p>
+          )}
+
+          <div className="flex items-center gap-4">
+            <button onClick={apply} disabled={preview.diff.length === 0} className="btn-primary flex items-center gap-2 disabled:opacity-30">
+              <Check size={12} />
+              Apply {preview.diff.length} {preview.diff.length === 1 ? 'Change' : 'Changes'}
+            </button>
+            <button onClick={() => setPreview(null)} className="btn-secondary">
+              Cancel
+            </button>
+            <span className="text-[10px] font-mono uppercase opacity-30">Read by {preview.source}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
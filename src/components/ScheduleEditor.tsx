@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { Plus, Save, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { toDateKey } from '../lib/dates';
+import { isReminderTime } from '../lib/reminders';
+import { WEEKDAY_LABELS } from '../lib/schedule';
+import type { Habit, HabitPolarity, ScheduleRule, Weekday } from '../types';
+
+type Props = {
+  habit: Habit;
+  // Existing group names, offered as suggestions.
+  groups: string[];
+  onSave: (changes: Pick<Habit, 'schedule' | 'target' | 'polarity' | 'avoidSince' | 'reminders' | 'group' | 'startDate' | 'endDate'>) => void;
+  onCancel: () => void;
+};
+
+const RULE_OPTIONS: { value: ScheduleRule['type']; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Specific weekdays' },
+  { value: 'timesPerWeek', label: 'N times per week' },
+  { value: 'interval', label: 'Every N days' }
+];
+
+// Monday-first to match how weekly quotas are counted.
+const WEEKDAY_ORDER: Weekday[] = [1, 2, 3, 4, 5, 6, 0];
+
+const inputClass = 'bg-[#141414] border-none px-3 py-2 text-sm font-bold focus:ring-1 focus:ring-[#00ffff] outline-none text-white';
+const labelClass = 'text-[10px] font-mono uppercase tracking-widest opacity-50';
+
+export default function ScheduleEditor({ habit, groups, onSave, onCancel }: Props) {
+  const schedule = habit.schedule;
+  const [type, setType] = useState<ScheduleRule['type']>(schedule?.type ?? 'daily');
+  const [days, setDays] = useState<Weekday[]>(schedule?.type === 'weekdays' ? schedule.days : [1, 2, 3, 4, 5]);
+  const [count, setCount] = useState(schedule?.type === 'timesPerWeek' ? schedule.count : 3);
+  const [every, setEvery] = useState(schedule?.type === 'interval' ? schedule.every : 2);
+  const [anchor, setAnchor] = useState(schedule?.type === 'interval' ? schedule.anchor : toDateKey(new Date()));
+  const [from, setFrom] = useState(schedule?.ranges?.[0]?.from ?? '');
+  const [to, setTo] = useState(schedule?.ranges?.[0]?.to ?? '');
+  const [measured, setMeasured] = useState(!!habit.target);
+  const [amount, setAmount] = useState(habit.target?.amount ?? 30);
+  const [unit, setUnit] = useState(habit.target?.unit ?? 'min');
+  const [polarity, setPolarity] = useState<HabitPolarity>(habit.polarity ?? 'build');
+  const [avoidSince, setAvoidSince] = useState(habit.avoidSince ?? toDateKey(new Date()));
+  const [reminders, setReminders] = useState<string[]>(habit.reminders ?? []);
+  const [group, setGroup] = useState(habit.group ?? '');
+  const [startDate, setStartDate] = useState(habit.startDate ?? '');
+  const [endDate, setEndDate] = useState(habit.endDate ?? '');
+
+  const toggleDay = (day: Weekday) => {
+    setDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]));
+  };
+
+  const save = () => {
+    let rule: ScheduleRule;
+    switch (type) {
+      case 'daily':
+        rule = { type };
+        break;
+      case 'weekdays':
+        if (days.length === 0) return;
+        rule = { type, days };
+        break;
+      case 'timesPerWeek':
+        rule = { type, count: Math.min(7, Math.max(1, Math.round(count))) };
+        break;
+      case 'interval':
+        if (!anchor) return;
+        rule = { type, every: Math.max(1, Math.round(every)), anchor };
+        break;
+    }
+
+    // Keep any extra ranges that this single-range form doesn't expose.
+    const ranges = from ? [{ from, ...(to ? { to } : {}) }, ...(schedule?.ranges?.slice(1) ?? [])] : undefined;
+
+    const avoid = polarity === 'avoid';
+    if (avoid && !avoidSince) return;
+    if (!avoid && measured && !(amount > 0)) return;
+
+    if (startDate && endDate && endDate < startDate) return;
+
+    const times = reminders.filter((time, i) => isReminderTime(time) && reminders.indexOf(time) === i).sort();
+
+    onSave({
+      schedule: rule.type === 'daily' && !ranges ? undefined : ranges ? { ...rule, ranges } : rule,
+      target: !avoid && measured ? { amount, unit: unit.trim() } : undefined,
+      polarity: avoid ? 'avoid' : undefined,
+      avoidSince: avoid ? avoidSince : undefined,
+      reminders: times.length > 0 ? times : undefined,
+      group: group.trim() || undefined,
+      startDate: startDate || undefined,
+      endDate: endDate || undefined
+    });
+  };
+
+  return (
+    <div className="p-6 flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-bold tracking-tight">
+          Schedule & Target · <span className="text-[#00ffff]">{habit.name}</span>
+        </span>
+        <div className="flex items-center gap-4">
+          <button onClick={save} className="p-2 bg-[#00ffff] text-black hover:bg-[#00ffff]/80 transition-all">
+            <Save size={18} />
+          </button>
+          <button onClick={onCancel} className="p-2 border border-white/10 hover:bg-white/5 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-6">
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Group</span>
+          <input
+            type="text"
+            list="habit-groups"
+            placeholder="Ungrouped"
+            value={group}
+            onChange={e => setGroup(e.target.value)}
+            className={cn(inputClass, 'w-40')}
+          />
+          <datalist id="habit-groups">
+            {groups.map(name => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </label>
+
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Repeats</span>
+          <select value={type} onChange={e => setType(e.target.value as ScheduleRule['type'])} className={inputClass}>
+            {RULE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {type === 'weekdays' && (
+          <div className="flex flex-col gap-2">
+            <span className={labelClass}>On</span>
+            <div className="flex items-center gap-1">
+              {WEEKDAY_ORDER.map(day => (
+                <button
+                  key={day}
+                  onClick={() => toggleDay(day)}
+                  className={cn(
+                    'w-11 py-2 text-[10px] font-mono font-bold uppercase border transition-all',
+                    days.includes(day) ? 'bg-[#00ffff] border-[#00ffff] text-black' : 'border-white/10 hover:border-[#00ffff]/40'
+                  )}
+                >
+                  {WEEKDAY_LABELS[day]}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {type === 'timesPerWeek' && (
+          <label className="flex flex-col gap-2">
+            <span className={labelClass}>Times per week</span>
+            <input type="number" min={1} max={7} value={count} onChange={e => setCount(Number(e.target.value))} className={cn(inputClass, 'w-24')} />
+          </label>
+        )}
+
+        {type === 'interval' && (
+          <>
+            <label className="flex flex-col gap-2">
+              <span className={labelClass}>Every N days</span>
+              <input type="number" min={1} value={every} onChange={e => setEvery(Number(e.target.value))} className={cn(inputClass, 'w-24')} />
+            </label>
+            <label className="flex flex-col gap-2">
+              <span className={labelClass}>Starting</span>
+              <input type="date" value={anchor} onChange={e => setAnchor(e.target.value)} className={inputClass} />
+            </label>
+          </>
+        )}
+
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Active from</span>
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Active until</span>
+          <input type="date" value={to} disabled={!from} onChange={e => setTo(e.target.value)} className={cn(inputClass, !from && 'opacity-30')} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-6">
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Counts from</span>
+          <input type="date" value={startDate} max={endDate || undefined} onChange={e => setStartDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Counts until</span>
+          <input type="date" value={endDate} min={startDate || undefined} onChange={e => setEndDate(e.target.value)} className={inputClass} />
+        </label>
+        <span className="text-[10px] font-mono opacity-30 pb-3 max-w-[280px]">
+          Days outside these dates are left out of every stat. Leave empty for no limit.
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-6">
+        <div className="flex flex-col gap-2">
+          <span className={labelClass}>Goal</span>
+          <div className="flex items-center gap-1">
+            {(['build', 'avoid'] as HabitPolarity[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setPolarity(option)}
+                className={cn(
+                  'px-4 py-2 text-[10px] font-mono font-bold uppercase border transition-all',
+                  polarity === option ? 'bg-[#00ffff] border-[#00ffff] text-black' : 'border-white/10 hover:border-[#00ffff]/40'
+                )}
+              >
+                {option === 'build' ? 'Build' : 'Avoid'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {polarity === 'avoid' && (
+          <label className="flex flex-col gap-2">
+            <span className={labelClass}>Clean days count from</span>
+            <input type="date" value={avoidSince} onChange={e => setAvoidSince(e.target.value)} className={inputClass} />
+          </label>
+        )}
+
+        {polarity === 'build' && (
+          <div className="flex flex-col gap-2">
+            <span className={labelClass}>Tracking</span>
+            <div className="flex items-center gap-1">
+              {[false, true].map(option => (
+                <button
+                  key={String(option)}
+                  onClick={() => setMeasured(option)}
+                  className={cn(
+                    'px-4 py-2 text-[10px] font-mono font-bold uppercase border transition-all',
+                    measured === option ? 'bg-[#00ffff] border-[#00ffff] text-black' : 'border-white/10 hover:border-[#00ffff]/40'
+                  )}
+                >
+                  {option ? 'Amount' : 'Done / Not done'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {polarity === 'build' && measured && (
+          <>
+            <label className="flex flex-col gap-2">
+              <span className={labelClass}>Daily target</span>
+              <input type="number" min={0} step="any" value={amount} onChange={e => setAmount(Number(e.target.value))} className={cn(inputClass, 'w-24')} />
+            </label>
+            <label className="flex flex-col gap-2">
+              <span className={labelClass}>Unit</span>
+              <input type="text" placeholder="min, reps, pages" value={unit} onChange={e => setUnit(e.target.value)} className={cn(inputClass, 'w-32')} />
+            </label>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className={labelClass}>Reminders</span>
+        <div className="flex flex-wrap items-center gap-2">
+          {reminders.map((time, i) => (
+            <div key={i} className="flex items-center gap-1">
+              <input
+                type="time"
+                value={time}
+                onChange={e => setReminders(prev => prev.map((t, j) => (j === i ? e.target.value : t)))}
+                className={inputClass}
+              />
+              <button
+                onClick={() => setReminders(prev => prev.filter((_, j) => j !== i))}
+                className="p-2 border border-white/10 hover:bg-white/5 transition-all"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setReminders(prev => [...prev, '20:00'])}
+            className="px-4 py-2 text-[10px] font-mono font-bold uppercase border border-white/10 hover:border-[#00ffff]/40 transition-all flex items-center gap-2"
+          >
+            <Plus size={12} />
+            Add time
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Check, Copy, Link2, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { fromDateKey } from '../lib/dates';
+import {
+  BADGE_METRICS,
+  MAX_SHARE_LABEL_LENGTH,
+  badgeUrl,
+  createShareLink,
+  fetchShareLinks,
+  revokeShareLink,
+  shareUrl,
+  type BadgeMetric,
+  type ShareLink
+} from '../lib/shares';
+import type { Habit } from '../types';
+
+type Props = {
+  habits: Habit[];
+  onClose: () => void;
+};
+
+const inputClass = 'bg-[#141414] border-none px-3 py-2 text-sm font-bold focus:ring-1 focus:ring-[#00ffff] outline-none text-white';
+const labelClass = 'text-[10px] font-mono uppercase tracking-widest opacity-50';
+
+const BADGE_LABELS: Record<BadgeMetric, string> = { streak: 'Streak', month: 'Month %' };
+
+// Stored as UTC `datetime('now')` text.
+const formatStamp = (stamp: string) => format(parseISO(`${stamp.replace(' ', 'T')}Z`), 'MMM d, HH:mm');
+
+const describeScope = (link: ShareLink, habits: Habit[]) =>
+  [
+    link.habitIds ? habits.filter(h => link.habitIds.includes(h.id)).map(h => h.name).join(', ') || 'No current habits' : 'All habits',
+    link.from || link.to
+      ? `${link.from ? format(fromDateKey(link.from), 'MMM d yyyy') : 'start'} – ${link.to ? format(fromDateKey(link.to), 'MMM d yyyy') : 'today'}`
+      : 'All time'
+  ].join(' · ');
+
+export default function SharePanel({ habits, onClose }: Props) {
+  const [links, setLinks] = useState<ShareLink[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [label, setLabel] = useState('');
+  const [habitIds, setHabitIds] = useState<string[] | null>(null);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [created, setCreated] = useState<{ link: ShareLink; token: string } | null>(null);
+  const [metric, setMetric] = useState<BadgeMetric>('streak');
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setFailed(false);
+    try {
+      await task();
+    } catch (err) {
+      console.error('Share link request failed', err);
+      setFailed(true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    run(async () => setLinks(await fetchShareLinks()));
+  }, []);
+
+  const toggleHabit = (id: string) =>
+    setHabitIds(prev => {
+      const next = (prev ?? []).includes(id) ? (prev ?? []).filter(h => h !== id) : [...(prev ?? []), id];
+      return next.length === 0 ? null : next;
+    });
+
+  const create = () =>
+    run(async () => {
+      const result = await createShareLink({ label: label.trim(), habitIds, from: from || null, to: to || null });
+      setCreated(result);
+      setLinks(prev => [result.link, ...(prev ?? [])]);
+      setLabel('');
+    });
+
+  const revoke = (id: string) =>
+    run(async () => {
+      await revokeShareLink(id);
+      setLinks(prev => (prev ?? []).filter(link => link.id !== id));
+      if (created?.link.id === id) setCreated(null);
+    });
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(text);
+    } catch {
+      // No clipboard access (e.g. plain http): the field is selectable instead.
+    }
+  };
+
+  const copyRow = (text: string, title: string) => (
+    <div className="flex items-center gap-2">
+      <input readOnly value={text} onFocus={e => e.target.select()} aria-label={title} className={cn(inputClass, 'flex-1 min-w-0 text-[10px] font-mono')} />
+      <button onClick={() => copy(text)} title={`Copy ${title.toLowerCase()}`} className="p-2 border border-white/10 hover:bg-white/5 transition-all">
+        {copied === text ? <Check size={14} className="text-[#00ffff]" /> : <Copy size={14} />}
+      </button>
+    </div>
+  );
+
+  const origin = window.location.origin;
+  const createdHabits = created ? habits.filter(h => !created.link.habitIds || created.link.habitIds.includes(h.id)) : [];
+
+  return (
+    <div className="p-6 flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-bold tracking-tight flex items-center gap-2">
+          <Link2 size={16} className="text-[#00ffff]" />
+          Share links
+          <span className="ml-1 text-[10px] font-mono uppercase opacity-40">Read-only · revocable</span>
+        </span>
+        <button onClick={onClose} className="p-2 border border-white/10 hover:bg-white/5 transition-all">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-2 flex-1 min-w-[200px]">
+          <span className={labelClass}>Label</span>
+          <input
+            placeholder="e.g. Coach"
+            maxLength={MAX_SHARE_LABEL_LENGTH}
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>From</span>
+          <input type="date" value={from} max={to || undefined} onChange={e => setFrom(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>To</span>
+          <input type="date" value={to} min={from || undefined} onChange={e => setTo(e.target.value)} className={inputClass} />
+        </label>
+        <button onClick={create} disabled={busy} className="btn-primary flex items-center gap-2 disabled:opacity-40">
+          {busy ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+          Create link
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className={labelClass}>Habits</span>
+        <div className="flex flex-wrap gap-1">
+          <button
+            onClick={() => setHabitIds(null)}
+            className={cn(
+              'px-3 py-1 text-[10px] font-mono uppercase border transition-all',
+              habitIds === null ? 'bg-[#00ffff] border-[#00ffff] text-black' : 'border-white/10 hover:border-[#00ffff]/40'
+            )}
+          >
+            All
+          </button>
+          {habits.map(habit => (
+            <button
+              key={habit.id}
+              onClick={() => toggleHabit(habit.id)}
+              className={cn(
+                'px-3 py-1 text-[10px] font-mono uppercase border transition-all',
+                habitIds?.includes(habit.id) ? 'bg-[#00ffff] border-[#00ffff] text-black' : 'border-white/10 hover:border-[#00ffff]/40'
+              )}
+            >
+              {habit.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {failed && <p className="text-[10px] font-mono uppercase text-red-500">Couldn't reach the server. Try again.</p>}
+
+      {created && (
+        <div className="border border-[#00ffff]/40 p-4 flex flex-col gap-3">
+          <span className={labelClass}>New link{created.link.label ? ` · ${created.link.label}` : ''} — copy it now, it can't be shown again</span>
+          {copyRow(shareUrl(origin, created.token), 'Link')}
+          {createdHabits.length > 0 && (
+            <>
+              <div className="flex items-center justify-between gap-4 mt-2">
+                <span className={labelClass}>Badges (Markdown)</span>
+                <div className="flex items-center gap-1">
+                  {BADGE_METRICS.map(value => (
+                    <button
+                      key={value}
+                      onClick={() => setMetric(value)}
+                      className={cn(
+                        'px-3 py-1 text-[10px] font-mono uppercase border transition-all',
+                        metric === value ? 'bg-[#00ffff] border-[#00ffff] text-black' : 'border-white/10 hover:border-[#00ffff]/40'
+                      )}
+                    >
+                      {BADGE_LABELS[value]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {createdHabits.map(habit => (
+                <div key={habit.id} className="flex items-center gap-3">
+                  <img src={badgeUrl(origin, created.token, habit.id, metric)} alt={habit.name} className="h-5 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    {copyRow(`![${habit.name}](${badgeUrl(origin, created.token, habit.id, metric)})`, `${habit.name} badge`)}
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="border border-white/10">
+        {links === null ? (
+          <p className="px-4 py-3 text-xs opacity-30 font-mono">{failed ? 'Share links unavailable.' : 'Loading…'}</p>
+        ) : links.length === 0 ? (
+          <p className="px-4 py-3 text-xs opacity-30 font-mono">No share links yet.</p>
+        ) : (
+          links.map(link => (
+            <div key={link.id} className="flex items-center gap-4 px-4 py-2 border-b border-white/5 last:border-0">
+              <div className="flex flex-col flex-1 min-w-0">
+                <span className="text-xs font-bold truncate">{link.label || 'Untitled link'}</span>
+                <span className="text-[10px] font-mono uppercase opacity-40 truncate">{describeScope(link, habits)}</span>
+              </div>
+              <span className="text-[10px] font-mono uppercase opacity-40 text-right hidden sm:block">
+                Created {formatStamp(link.createdAt)}
+                <br />
+                {link.lastUsedAt ? `Opened ${formatStamp(link.lastUsedAt)}` : 'Never opened'}
+              </span>
+              <button
+                onClick={() => revoke(link.id)}
+                disabled={busy}
+                title="Revoke: the link and its badges stop working"
+                className="p-2 border border-white/10 hover:bg-red-600 hover:border-red-600 transition-all"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { eachDayOfInterval, format, subDays } from 'date-fns';
+import { Check, Eye, Flame, Loader2, Minus } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { fromDateKey, toDateKey } from '../lib/dates';
+import { describeSchedule, isHabitDue } from '../lib/schedule';
+import { describeTarget, isAvoid, isDone, isSlip } from '../lib/scoring';
+import { fetchSharedDashboard, sharedToday, type SharedDashboard } from '../lib/shares';
+import { habitStats } from '../lib/stats';
+import { computeStreaks } from '../lib/streaks';
+import { useToday } from '../hooks/useToday';
+import YearHeatmap from './YearHeatmap';
+import HabitAnalytics from './HabitAnalytics';
+
+type Props = {
+  token: string;
+};
+
+// Days in the strip and in the rate column.
+const STRIP_DAYS = 14;
+const RATE_DAYS = 30;
+
+/** The read-only dashboard a share link opens; no account or session needed. */
+export default function SharedView({ token }: Props) {
+  const [dashboard, setDashboard] = useState<SharedDashboard | null>(null);
+  const [state, setState] = useState<'loading' | 'ready' | 'missing' | 'failed'>('loading');
+
+  useEffect(() => {
+    fetchSharedDashboard(token)
+      .then(result => {
+        setDashboard(result);
+        setState(result ? 'ready' : 'missing');
+      })
+      .catch(err => {
+        console.error('Failed to load shared dashboard', err);
+        setState('failed');
+      });
+  }, [token]);
+
+  const ownerToday = useToday(dashboard?.settings ?? {});
+  const today = useMemo(() => (dashboard ? sharedToday(dashboard, ownerToday) : ownerToday), [dashboard, ownerToday]);
+
+  const rows = useMemo(() => {
+    if (!dashboard) return [];
+    const streaks = computeStreaks(dashboard.habits, dashboard.completions, today, dashboard.settings);
+    const start = dashboard.from && dashboard.from > toDateKey(subDays(today, RATE_DAYS - 1)) ? fromDateKey(dashboard.from) : subDays(today, RATE_DAYS - 1);
+    const rateDays = start <= today ? eachDayOfInterval({ start, end: today }) : [];
+    return dashboard.habits.map(habit => ({
+      habit,
+      streak: streaks[habit.id],
+      rate: habitStats(habit, rateDays, dashboard.completions, today).percentage
+    }));
+  }, [dashboard, today]);
+
+  const strip = eachDayOfInterval({ start: subDays(today, STRIP_DAYS - 1), end: today });
+
+  if (state !== 'ready' || !dashboard) {
+    return (
+      <div className="min-h-screen bg-[#050505] text-white flex items-center justify-center p-8">
+        {state === 'loading' ? (
+          <Loader2 size={24} className="animate-spin text-[#00ffff]" />
+        ) : (
+          <p className="text-xs font-mono uppercase opacity-50">
+            {state === 'missing' ? 'This share link was revoked or never existed.' : "Couldn't load this dashboard. Try again later."}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-[#FFFFFF] selection:bg-[#00ffff] selection:text-black">
+      <div className="fixed inset-0 tech-grid opacity-[0.05] pointer-events-none" />
+
+      <div className="relative z-10 p-4 md:p-8 lg:p-12 max-w-[1800px] mx-auto space-y-8">
+        <header className="space-y-1">
+          <div className="flex items-center gap-3 text-[10px] font-mono uppercase tracking-[0.2em] opacity-40">
+            <Eye size={12} />
+            <span>Read-only share{dashboard.label ? ` · ${dashboard.label}` : ''}</span>
+          </div>
+          <h1 className="text-4xl md:text-5xl font-bold tracking-tighter leading-none">
+            HABIT<span className="italic font-serif font-light text-[#00ffff]">MASTERY</span>
+          </h1>
+          <p className="text-xs opacity-30 font-mono">
+            {dashboard.from || dashboard.to
+              ? `${dashboard.from ? format(fromDateKey(dashboard.from), 'MMM d yyyy') : 'Start'} – ${format(today, 'MMM d yyyy')}`
+              : `Through ${format(today, 'MMM d yyyy')}`}
+          </p>
+        </header>
+
+        <div className="bg-[#0A0A0A] border border-white/10 overflow-x-auto custom-scrollbar">
+          <table className="w-full border-separate border-spacing-0">
+            <thead>
+              <tr>
+                <th className="p-4 text-left border-b border-white/10 col-header">Habit</th>
+                <th className="p-4 text-left border-b border-white/10 col-header">Streak</th>
+                <th className="p-4 text-left border-b border-white/10 col-header">{RATE_DAYS} days</th>
+                <th className="p-4 text-left border-b border-white/10 col-header">Last {STRIP_DAYS} days</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ habit, streak, rate }) => (
+                <tr key={habit.id}>
+                  <td className="p-4 border-b border-white/5">
+                    <div className="flex flex-col">
+                      <span className="text-sm font-bold tracking-tight">{habit.name}</span>
+                      <span className="text-[10px] font-mono uppercase opacity-40">
+                        {[isAvoid(habit) && 'Avoid', habit.schedule && describeSchedule(habit.schedule), describeTarget(habit)].filter(Boolean).join(' · ')}
+                      </span>
+                    </div>
+                  </td>
+                  <td className="p-4 border-b border-white/5 whitespace-nowrap">
+                    <span className="flex items-center gap-2 text-xs font-mono font-bold">
+                      <Flame size={12} className={streak.current > 0 ? 'text-[#00ffff]' : 'opacity-30'} />
+                      {streak.current}
+                      <span className="opacity-40 font-normal">/ best {streak.longest}</span>
+                    </span>
+                  </td>
+                  <td className="p-4 border-b border-white/5">
+                    <div className="flex items-center gap-3 min-w-[120px]">
+                      <span className="text-xs font-mono font-bold w-10">{rate}%</span>
+                      <div className="flex-1 h-[2px] bg-white/10">
+                        <div className="h-full bg-[#00ffff]" style={{ width: `${rate}%` }} />
+                      </div>
+                    </div>
+                  </td>
+                  <td className="p-4 border-b border-white/5">
+                    <div className="flex gap-1">
+                      {strip.map(day => {
+                        const status = dashboard.completions[toDateKey(day)]?.[habit.id];
+                        const isDue = isHabitDue(habit, day, dashboard.completions, today);
+                        const done = isDone(habit, status) && (isDue || !isAvoid(habit));
+                        return (
+                          <div
+                            key={day.toString()}
+                            title={format(day, 'EEE, MMM d')}
+                            className={cn(
+                              'w-6 h-6 flex items-center justify-center border',
+                              isSlip(status)
+                                ? 'bg-red-600/80 border-red-600'
+                                : done
+                                  ? 'bg-[#00ffff] border-[#00ffff] text-black'
+                                  : status === 'skipped'
+                                    ? 'border-transparent opacity-30'
+                                    : isDue
+                                      ? 'border-white/10'
+                                      : 'border-dashed border-white/5'
+                            )}
+                          >
+                            {done && <Check size={10} strokeWidth={4} />}
+                            {status === 'skipped' && <Minus size={10} strokeWidth={4} />}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-[#0A0A0A] border border-white/10">
+          <YearHeatmap habits={dashboard.habits} completions={dashboard.completions} today={today} />
+        </div>
+
+        <div className="bg-[#0A0A0A] border border-white/10">
+          <HabitAnalytics habits={dashboard.habits} completions={dashboard.completions} today={today} />
+        </div>
+      </div>
+    </div>
+  );
+}
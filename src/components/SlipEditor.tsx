@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Minus, Plus, Save, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '../lib/utils';
+import { fromDateKey } from '../lib/dates';
+import { isSlip } from '../lib/scoring';
+import type { Habit, HabitStatus, SlipLog } from '../types';
+
+type Props = {
+  habit: Habit;
+  dateKey: string;
+  status: HabitStatus;
+  // `undefined` clears the day back to a default success.
+  onSave: (slip: SlipLog | undefined) => void;
+  onCancel: () => void;
+};
+
+const inputClass = 'bg-[#141414] border-none px-3 py-2 text-sm font-bold focus:ring-1 focus:ring-[#00ffff] outline-none text-white';
+const labelClass = 'text-[10px] font-mono uppercase tracking-widest opacity-50';
+
+export default function SlipEditor({ habit, dateKey, status, onSave, onCancel }: Props) {
+  const [slips, setSlips] = useState(isSlip(status) ? status.slips : 1);
+  const [note, setNote] = useState(isSlip(status) ? status.note ?? '' : '');
+
+  const save = () => {
+    const trimmed = note.trim();
+    onSave({ slips: Math.max(1, Math.round(slips)), ...(trimmed ? { note: trimmed } : {}) });
+  };
+
+  return (
+    <div className="p-6 flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-bold tracking-tight">
+          Slip · <span className="text-[#00ffff]">{habit.name}</span>
+          <span className="ml-3 text-[10px] font-mono uppercase opacity-40">{format(fromDateKey(dateKey), 'EEE, MMM d')}</span>
+        </span>
+        <div className="flex items-center gap-4">
+          <button onClick={save} className="p-2 bg-[#00ffff] text-black hover:bg-[#00ffff]/80 transition-all">
+            <Save size={18} />
+          </button>
+          {isSlip(status) && (
+            <button onClick={() => onSave(undefined)} className="p-2 border border-white/10 hover:bg-red-600 hover:border-red-600 transition-all">
+              <Trash2 size={18} />
+            </button>
+          )}
+          <button onClick={onCancel} className="p-2 border border-white/10 hover:bg-white/5 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-6">
+        <div className="flex flex-col gap-2">
+          <span className={labelClass}>Slips</span>
+          <div className="flex items-center gap-1">
+            <button onClick={() => setSlips(prev => Math.max(1, prev - 1))} className="p-2 border border-white/10 hover:border-[#00ffff]/40 transition-all">
+              <Minus size={14} />
+            </button>
+            <input
+              type="number"
+              min={1}
+              value={slips}
+              onChange={e => setSlips(Number(e.target.value))}
+              className={cn(inputClass, 'w-16 text-center')}
+            />
+            <button onClick={() => setSlips(prev => prev + 1)} className="p-2 border border-white/10 hover:border-[#00ffff]/40 transition-all">
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+
+        <label className="flex flex-col gap-2 flex-1 min-w-[240px]">
+          <span className={labelClass}>What happened</span>
+          <input
+            autoFocus
+            type="text"
+            placeholder="Optional note"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && save()}
+            className={inputClass}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarRange } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { buildHeatmap } from '../lib/heatmap';
+import type { Habit, HabitCompletion } from '../types';
+
+type Props = {
+  habits: Habit[];
+  completions: HabitCompletion;
+  // The user's current day; the year ends on it.
+  today: Date;
+  // Opens the Daily Matrix on the week of a clicked day; read-only without it.
+  onSelectDay?: (date: Date) => void;
+};
+
+const LEVEL_CLASSES = ['bg-white/[0.04]', 'bg-[#00ffff]/20', 'bg-[#00ffff]/40', 'bg-[#00ffff]/70', 'bg-[#00ffff]'];
+
+const WEEKDAY_ROWS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+const selectClass = 'bg-[#141414] border-none px-3 py-2 text-[10px] font-mono uppercase focus:ring-1 focus:ring-[#00ffff] outline-none text-white';
+
+export default function YearHeatmap({ habits, completions, today, onSelectDay }: Props) {
+  const [habitId, setHabitId] = useState('all');
+  const selected = habits.filter(h => habitId === 'all' || h.id === habitId);
+
+  const heatmap = useMemo(() => buildHeatmap(selected, completions, today, today), [habitId, habits, completions, today]);
+
+  return (
+    <div className="p-8">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-6 mb-8">
+        <div className="space-y-1">
+          <h3 className="text-sm font-bold uppercase tracking-widest flex items-center gap-2">
+            <CalendarRange size={16} className="text-[#00ffff]" />
+            Year in Review
+          </h3>
+          <p className="text-xs opacity-30 font-mono">
+            Last 365 days · {heatmap.average}% average · {heatmap.perfectDays} perfect of {heatmap.dueDays} days
+          </p>
+        </div>
+        <select value={habitId} onChange={e => setHabitId(e.target.value)} className={selectClass}>
+          <option value="all">All habits</option>
+          {habits.map(habit => (
+            <option key={habit.id} value={habit.id}>
+              {habit.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <div className="inline-flex flex-col gap-2 min-w-max">
+          <div className="relative h-4 ml-10">
+            {heatmap.months.map(month => (
+              <span
+                key={`${month.label}-${month.index}`}
+                className="absolute text-[10px] font-mono uppercase opacity-40"
+                style={{ left: `${month.index * 16}px` }}
+              >
+                {month.label}
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            <div className="flex flex-col gap-1 w-9">
+              {WEEKDAY_ROWS.map((label, i) => (
+                <span key={i} className="h-3 text-[9px] font-mono uppercase opacity-40 leading-3">
+                  {label}
+                </span>
+              ))}
+            </div>
+            {heatmap.weeks.map((week, i) => (
+              <div key={i} className="flex flex-col gap-1">
+                {week.map(cell => (
+                  <button
+                    key={cell.key}
+                    disabled={cell.outside}
+                    onClick={() => onSelectDay?.(cell.date)}
+                    title={
+                      cell.outside
+                        ? undefined
+                        : `${format(cell.date, 'EEE, MMM d yyyy')} · ${cell.ratio === null ? 'nothing due' : `${Math.round(cell.ratio * 100)}%`}`
+                    }
+                    className={cn(
+                      'w-3 h-3 transition-all',
+                      cell.outside ? 'bg-transparent' : cn(LEVEL_CLASSES[cell.level], onSelectDay ? 'hover:ring-1 hover:ring-white/60' : 'cursor-default')
+                    )}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-end gap-1 text-[10px] font-mono uppercase opacity-40">
+            <span className="mr-1">Less</span>
+            {LEVEL_CLASSES.map(level => (
+              <div key={level} className={cn('w-3 h-3', level)} />
+            ))}
+            <span className="ml-1">More</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
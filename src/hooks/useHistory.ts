@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  EMPTY_HISTORY,
+  HISTORY_LIMIT,
+  pushEntry,
+  redoEntry,
+  undoEntry,
+  type HistoryEntry,
+  type HistoryStacks,
+  type HistoryState
+} from '../lib/history';
+import { loadHistory, saveHistory } from '../lib/localStore';
+
+/**
+ * Undo/redo stacks of patches, saved locally per account so they survive a
+ * reload. `undo`, `redo` and `jumpTo` return the state to show, or `null`.
+ */
+export function useHistory(userId: string | null) {
+  const [stacks, setStacks] = useState<HistoryStacks>(EMPTY_HISTORY);
+  // Account whose saved history has been loaded; nothing is saved before that.
+  const loadedFor = useRef<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Another account's steps must not carry over.
+    if (loadedFor.current !== undefined) setStacks(EMPTY_HISTORY);
+    loadedFor.current = undefined;
+    loadHistory(userId)
+      .catch(err => {
+        console.error('Failed to load undo history', err);
+        return null;
+      })
+      .then(saved => {
+        if (cancelled) return;
+        loadedFor.current = userId;
+        // Keep anything recorded while loading on top of the saved entries.
+        setStacks(prev =>
+          saved
+            ? { past: [...saved.past, ...prev.past].slice(-HISTORY_LIMIT), future: prev.past.length > 0 ? [] : saved.future }
+            : prev
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (loadedFor.current !== userId) return;
+    saveHistory(userId, stacks).catch(err => console.error('Failed to save undo history', err));
+  }, [stacks, userId]);
+
+  const record = (entry: HistoryEntry) => setStacks(prev => pushEntry(prev, entry));
+
+  const undo = (state: HistoryState) => {
+    const entry = stacks.past[stacks.past.length - 1];
+    if (!entry) return null;
+    setStacks(prev => ({ past: prev.past.slice(0, -1), future: [...prev.future, entry] }));
+    return undoEntry(state, entry);
+  };
+
+  const redo = (state: HistoryState) => {
+    const entry = stacks.future[stacks.future.length - 1];
+    if (!entry) return null;
+    setStacks(prev => ({ past: [...prev.past, entry], future: prev.future.slice(0, -1) }));
+    return redoEntry(state, entry);
+  };
+
+  /** Undoes or redoes until `entryId` is the latest applied entry. */
+  const jumpTo = (state: HistoryState, entryId: string) => {
+    const pastIndex = stacks.past.findIndex(e => e.id === entryId);
+    const futureIndex = stacks.future.findIndex(e => e.id === entryId);
+    if (pastIndex >= 0) {
+      const undone = stacks.past.slice(pastIndex + 1);
+      setStacks({ past: stacks.past.slice(0, pastIndex + 1), future: [...stacks.future, ...undone.reverse()] });
+      return [...stacks.past.slice(pastIndex + 1)].reverse().reduce(undoEntry, state);
+    }
+    if (futureIndex >= 0) {
+      const redone = stacks.future.slice(futureIndex).reverse();
+      setStacks({ past: [...stacks.past, ...redone], future: stacks.future.slice(0, futureIndex) });
+      return redone.reduce(redoEntry, state);
+    }
+    return null;
+  };
+
+  return { stacks, record, undo, redo, jumpTo, canUndo: stacks.past.length > 0, canRedo: stacks.future.length > 0 };
+}
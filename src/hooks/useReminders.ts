@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react';
+import type { DayBoundary } from '../lib/dates';
+import { remindersBetween } from '../lib/reminders';
+import { registerServiceWorker } from '../lib/serviceWorker';
+import type { Habit, HabitCompletion } from '../types';
+
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+const CHECK_INTERVAL_MS = 30_000;
+
+const currentPermission = (): ReminderPermission =>
+  typeof window === 'undefined' || !('Notification' in window) ? 'unsupported' : Notification.permission;
+
+/**
+ * Shows a notification at each habit's reminder times while the dashboard is
+ * open (in any tab), skipping habits already logged for the day. Delivery goes
+ * through the service worker in `public/sw.js` so clicks refocus the app.
+ * Times are read on the clock of the user's time zone.
+ */
+export function useReminders(habits: Habit[], completions: HabitCompletion, boundary: DayBoundary = {}) {
+  const [permission, setPermission] = useState<ReminderPermission>(currentPermission);
+  const latest = useRef({ habits, completions, boundary });
+  latest.current = { habits, completions, boundary };
+
+  const enable = async () => {
+    if (permission === 'unsupported') return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  useEffect(() => {
+    if (permission !== 'granted') return;
+    registerServiceWorker();
+
+    // Only times reached while the app is open; nothing fires for the past on load.
+    let since = new Date();
+    const check = async () => {
+      const now = new Date();
+      const due = remindersBetween(latest.current.habits, latest.current.completions, since, now, latest.current.boundary);
+      since = now;
+      if (due.length === 0) return;
+
+      const worker = await registerServiceWorker();
+      due.forEach(({ habit, time, tag }) => {
+        const options = { body: `${time} reminder · not logged yet`, tag, data: { url: '/' } };
+        if (worker) worker.showNotification(habit.name, options);
+        else new Notification(habit.name, options);
+      });
+    };
+
+    const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [permission]);
+
+  return { permission, enable };
+}
@@ -0,0 +1,237 @@
+import { useEffect, useRef, useState } from 'react';
+import { UnauthorizedError, fetchSession, logout, type SessionUser } from '../lib/auth';
+import { clearSnapshot, loadSnapshot, saveSnapshot } from '../lib/localStore';
+import { importRemote, type ImportMode, type TransferFormat } from '../lib/transfer';
+import {
+  ConflictError,
+  RejectedError,
+  applyMutation,
+  diffState,
+  enqueue,
+  fetchState,
+  rebase,
+  sendMutation,
+  type Mutation
+} from '../lib/sync';
+import type { RemoteState } from '../types';
+
+export type SyncStatus = 'loading' | 'synced' | 'syncing' | 'offline' | 'error' | 'signedOut';
+
+const RETRY_MS = 30_000;
+
+/**
+ * Offline-first persistence. Local edits are diffed into a queue of granular
+ * writes, kept in IndexedDB together with the last known server state, and
+ * replayed against the API whenever it is reachable.
+ *
+ * `seed` fills in an empty server state (default habits) and `apply` pushes
+ * a loaded or merged state into the UI.
+ */
+export function useSync(
+  current: RemoteState,
+  apply: (state: RemoteState) => void,
+  seed: (state: RemoteState) => RemoteState
+) {
+  const [hydrated, setHydrated] = useState(false);
+  const [status, setStatus] = useState<SyncStatus>('loading');
+  const [pending, setPending] = useState(0);
+  const [user, setUser] = useState<SessionUser | null>(null);
+
+  // Server state the queue applies on top of, and its ETag for If-Match.
+  const baseRef = useRef<RemoteState>({ habits: [], completions: {} });
+  const revisionRef = useRef<string | null>(null);
+  const queueRef = useRef<Mutation[]>([]);
+  const serverKnownRef = useRef(false);
+  const flushingRef = useRef(false);
+  const userIdRef = useRef<string | null>(null);
+  // Latest UI state, for edits still waiting on the debounce below.
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  // Set once the UI shows the loaded state, so `current` holds real edits.
+  const editableRef = useRef(false);
+
+  const persist = () => {
+    setPending(queueRef.current.length);
+    saveSnapshot({
+      userId: userIdRef.current,
+      base: baseRef.current,
+      revision: revisionRef.current,
+      queue: queueRef.current,
+      serverKnown: serverKnownRef.current
+    }).catch(() => {
+      // No IndexedDB (e.g. private mode): keep working in memory.
+    });
+  };
+
+  /** Queues whatever the UI changed on top of the base and the queue so far. */
+  const queueEdits = () => {
+    const changes = diffState(rebase(baseRef.current, queueRef.current), currentRef.current);
+    if (changes.length === 0) return false;
+    queueRef.current = enqueue(queueRef.current, changes);
+    return true;
+  };
+
+  const refresh = async () => {
+    const { state, revision } = await fetchState();
+    // Edits made during the debounce are queued against the old base first,
+    // or applying the new one would drop them from the UI.
+    if (editableRef.current) queueEdits();
+    baseRef.current = state;
+    revisionRef.current = revision;
+    serverKnownRef.current = true;
+    const next = rebase(seed(state), queueRef.current);
+    apply(next);
+    persist();
+    return next;
+  };
+
+  const flush = async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+
+    try {
+      // Never write on top of a server state we haven't seen.
+      if (!serverKnownRef.current) await refresh();
+
+      let conflicts = 0;
+      while (queueRef.current.length > 0) {
+        setStatus('syncing');
+        const mutation = queueRef.current[0];
+        try {
+          revisionRef.current = await sendMutation(mutation, revisionRef.current);
+          baseRef.current = applyMutation(baseRef.current, mutation);
+        } catch (err) {
+          if (err instanceof ConflictError && ++conflicts <= 3) {
+            // Another tab or device saved first: take its state and replay
+            // the queued cells on top, so neither side's edits are lost.
+            await refresh();
+            continue;
+          }
+          if (!(err instanceof RejectedError)) throw err;
+        }
+        // By identity: the head may have been folded away by a newer edit.
+        queueRef.current = queueRef.current.filter(m => m !== mutation);
+        persist();
+      }
+      setStatus('synced');
+    } catch (err) {
+      // Queued writes stay in IndexedDB and replay after signing back in.
+      if (err instanceof UnauthorizedError) setStatus('signedOut');
+      else setStatus(typeof navigator !== 'undefined' && !navigator.onLine ? 'offline' : 'error');
+    } finally {
+      flushingRef.current = false;
+    }
+  };
+
+  // Load: show the local snapshot right away, then reconcile with the server.
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      let snapshot = await loadSnapshot().catch(() => null);
+
+      // Offline we can't check the session; trust the cached account then.
+      let session: SessionUser | null = null;
+      try {
+        session = await fetchSession();
+      } catch (err) {
+        if (err instanceof UnauthorizedError) {
+          if (!cancelled) setStatus('signedOut');
+          return;
+        }
+      }
+      if (cancelled) return;
+
+      if (snapshot && session && snapshot.userId !== session.id) {
+        snapshot = null;
+        await clearSnapshot().catch(() => {});
+      }
+      userIdRef.current = session?.id ?? snapshot?.userId ?? null;
+      setUser(session);
+
+      if (snapshot) {
+        baseRef.current = snapshot.base;
+        revisionRef.current = snapshot.revision;
+        queueRef.current = snapshot.queue;
+        serverKnownRef.current = snapshot.serverKnown;
+        setPending(snapshot.queue.length);
+        apply(rebase(snapshot.serverKnown ? seed(snapshot.base) : snapshot.base, snapshot.queue));
+      }
+
+      try {
+        await refresh();
+      } catch (err) {
+        if (err instanceof UnauthorizedError) {
+          setStatus('signedOut');
+          return;
+        }
+        // Offline with nothing cached: show defaults, but treat them as the
+        // baseline so only real edits get queued, never the defaults.
+        if (!snapshot) {
+          baseRef.current = seed({ habits: [], completions: {} });
+          apply(baseRef.current);
+        }
+      }
+
+      if (cancelled) return;
+      setHydrated(true);
+      flush();
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Queue whatever changed since the last queued state. Debounced so we
+  // don't spam writes on rapid clicking.
+  useEffect(() => {
+    if (!hydrated) return;
+
+    editableRef.current = true;
+    const timer = window.setTimeout(() => {
+      if (queueEdits()) persist();
+      flush();
+    }, 300);
+
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [current, hydrated]);
+
+  // Replay the queue when connectivity returns, and keep retrying meanwhile.
+  useEffect(() => {
+    if (!hydrated) return;
+
+    const onOnline = () => flush();
+    window.addEventListener('online', onOnline);
+    const timer = pending > 0 ? window.setInterval(flush, RETRY_MS) : undefined;
+
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.clearInterval(timer);
+    };
+  }, [hydrated, pending]);
+
+  /**
+   * Imports a file on the server in one request once the queue is saved, then
+   * takes the server's state and ETag as the new base. Returns what the UI shows.
+   */
+  const importFile = async (text: string, format: TransferFormat, mode: ImportMode) => {
+    if (queueEdits()) persist();
+    await flush();
+    if (queueRef.current.length > 0) throw new Error('Queued changes must be saved before importing');
+    await importRemote(text, format, mode);
+    return refresh();
+  };
+
+  const signOut = async () => {
+    await logout().catch(() => {});
+    await clearSnapshot().catch(() => {});
+    window.location.reload();
+  };
+
+  return { hydrated, status, pending, user, importFile, signOut };
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { type DayBoundary, logicalToday, toDateKey } from '../lib/dates';
+
+const CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * The day the user is in (see `logicalToday`), as local midnight. Re-checked
+ * every minute so the dashboard rolls over at the configured hour while open;
+ * the returned Date only changes when the day does, so memos keyed on it hold.
+ */
+export function useToday({ timeZone, dayStartHour }: DayBoundary) {
+  const [today, setToday] = useState(() => logicalToday({ timeZone, dayStartHour }));
+
+  useEffect(() => {
+    const check = () => {
+      const next = logicalToday({ timeZone, dayStartHour });
+      setToday(current => (toDateKey(current) === toDateKey(next) ? current : next));
+    };
+    check();
+    const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [timeZone, dayStartHour]);
+
+  return today;
+}
@@ -0,0 +1,184 @@
+import { eachDayOfInterval, getDay, startOfDay } from 'date-fns';
+import type { Habit, HabitCompletion } from '../types';
+import { fromDateKey, toDateKey } from './dates';
+import { trackingStart } from './heatmap';
+import { isHabitDue } from './schedule';
+import { creditFor } from './scoring';
+
+// Fewer paired days than this say more about chance than about habits.
+export const MIN_SAMPLE_DAYS = 14;
+
+// A day counts as high-completion at this share of the other habits.
+export const HIGH_DAY_RATIO = 0.8;
+
+// Monday first, like the heatmap; values index `WEEKDAY_NAMES`.
+export const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Every habit's credit (0-1) on every tracked day, or `null` where the habit
+ * wasn't due or was skipped. The basis of all analytics, with the same rules
+ * as the dashboard's stats.
+ */
+export interface OutcomeTable {
+  days: Date[];
+  habits: Habit[];
+  // `credits[habitIndex][dayIndex]`.
+  credits: (number | null)[][];
+}
+
+export function outcomeTable(habits: Habit[], completions: HabitCompletion, today: Date): OutcomeTable {
+  const start = trackingStart(habits, completions);
+  const end = startOfDay(today);
+  const days = start && fromDateKey(start) <= end ? eachDayOfInterval({ start: fromDateKey(start), end }) : [];
+  const credits = habits.map(habit =>
+    days.map(day => {
+      if (!isHabitDue(habit, day, completions, today)) return null;
+      const status = completions[toDateKey(day)]?.[habit.id];
+      return status === 'skipped' ? null : creditFor(habit, status);
+    })
+  );
+  return { days, habits, credits };
+}
+
+export interface WeekdayRate {
+  // 0-100, or null when the habit was never due on that weekday.
+  percentage: number | null;
+  due: number;
+}
+
+/** Success rate per weekday, Monday first, for each habit. */
+export function weekdayRates(table: OutcomeTable): { habit: Habit; rates: WeekdayRate[] }[] {
+  const weekdays = table.days.map(day => (getDay(day) + 6) % 7);
+  return table.habits.map((habit, h) => {
+    const earned = Array<number>(7).fill(0);
+    const due = Array<number>(7).fill(0);
+    table.credits[h].forEach((credit, d) => {
+      if (credit === null) return;
+      earned[weekdays[d]] += credit;
+      due[weekdays[d]] += 1;
+    });
+    return {
+      habit,
+      rates: due.map((count, i) => ({ percentage: count === 0 ? null : Math.round((earned[i] / count) * 100), due: count }))
+    };
+  });
+}
+
+const pearson = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  // A habit that is always (or never) done can't co-vary with anything.
+  return varX === 0 || varY === 0 ? null : cov / Math.sqrt(varX * varY);
+};
+
+const rate = (credits: number[]) => Math.round((credits.reduce((sum, c) => sum + c, 0) / credits.length) * 100);
+
+export interface HabitCorrelation {
+  from: Habit;
+  to: Habit;
+  // 0: the same day, 1: `to` on the day after `from`.
+  lag: 0 | 1;
+  // Days both habits counted.
+  days: number;
+  // Pearson's r over the credits, -1 to 1.
+  coefficient: number;
+  // `to`'s success rate (0-100) after `from` was done, and after it wasn't.
+  rateWhenDone: number;
+  rateWhenMissed: number;
+}
+
+/**
+ * Pairs of habits whose outcomes move together, strongest first. With `lag`
+ * 1, `from` on one day is compared with `to` on the next ("slept at 11 →
+ * up at 5"), so a pair can show up in both directions.
+ */
+export function correlations(table: OutcomeTable, lag: 0 | 1, minDays = MIN_SAMPLE_DAYS): HabitCorrelation[] {
+  const pairs: HabitCorrelation[] = [];
+  table.habits.forEach((from, a) => {
+    table.habits.forEach((to, b) => {
+      // Same-day pairs are symmetric; list each once.
+      if (a === b || (lag === 0 && b < a)) return;
+      const xs: number[] = [];
+      const ys: number[] = [];
+      for (let d = 0; d + lag < table.days.length; d++) {
+        const x = table.credits[a][d];
+        const y = table.credits[b][d + lag];
+        if (x === null || y === null) continue;
+        xs.push(x);
+        ys.push(y);
+      }
+      if (xs.length < minDays) return;
+      const coefficient = pearson(xs, ys);
+      if (coefficient === null) return;
+
+      const done = ys.filter((_, i) => xs[i] >= 1);
+      const missed = ys.filter((_, i) => xs[i] < 1);
+      if (done.length === 0 || missed.length === 0) return;
+      pairs.push({ from, to, lag, days: xs.length, coefficient, rateWhenDone: rate(done), rateWhenMissed: rate(missed) });
+    });
+  });
+  return pairs.sort((x, y) => Math.abs(y.coefficient) - Math.abs(x.coefficient));
+}
+
+export interface KeystoneHabit {
+  habit: Habit;
+  // Days the habit and at least one other habit counted.
+  days: number;
+  // Share (0-100) of days the other habits reached HIGH_DAY_RATIO, with and without this one done.
+  highWhenDone: number;
+  highWhenMissed: number;
+  // `highWhenDone - highWhenMissed`, in percentage points.
+  lift: number;
+}
+
+/**
+ * Habits ranked by how much more often the rest of the day goes well when
+ * they are done. The habit itself is left out of the day's score, so it can't
+ * lift its own days.
+ */
+export function keystoneHabits(table: OutcomeTable, minDays = MIN_SAMPLE_DAYS): KeystoneHabit[] {
+  const totals = table.days.map((_, d) => {
+    let earned = 0;
+    let due = 0;
+    table.credits.forEach(row => {
+      if (row[d] === null) return;
+      earned += row[d];
+      due += 1;
+    });
+    return { earned, due };
+  });
+
+  const ranked: KeystoneHabit[] = [];
+  table.habits.forEach((habit, h) => {
+    let doneDays = 0;
+    let doneHigh = 0;
+    let missedDays = 0;
+    let missedHigh = 0;
+    table.credits[h].forEach((credit, d) => {
+      const due = totals[d].due - (credit === null ? 0 : 1);
+      if (credit === null || due === 0) return;
+      const high = (totals[d].earned - credit) / due >= HIGH_DAY_RATIO;
+      if (credit >= 1) {
+        doneDays += 1;
+        if (high) doneHigh += 1;
+      } else {
+        missedDays += 1;
+        if (high) missedHigh += 1;
+      }
+    });
+    if (doneDays + missedDays < minDays || doneDays === 0 || missedDays === 0) return;
+    const highWhenDone = Math.round((doneHigh / doneDays) * 100);
+    const highWhenMissed = Math.round((missedHigh / missedDays) * 100);
+    ranked.push({ habit, days: doneDays + missedDays, highWhenDone, highWhenMissed, lift: highWhenDone - highWhenMissed });
+  });
+  return ranked.sort((a, b) => b.lift - a.lift);
+}
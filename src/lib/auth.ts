@@ -0,0 +1,31 @@
+export type SessionUser = { id: string; email: string };
+
+/** The API answered 401: the session is missing or expired. */
+export class UnauthorizedError extends Error {
+  constructor() {
+    super('Not signed in');
+  }
+}
+
+export async function fetchSession(): Promise<SessionUser> {
+  const res = await fetch('/api/auth/session', { method: 'GET' });
+  if (res.status === 401) throw new UnauthorizedError();
+  if (!res.ok) throw new Error(`GET /api/auth/session failed: ${res.status}`);
+  return ((await res.json()) as { user: SessionUser }).user;
+}
+
+/** Emails a sign-in link. `devLink` is only returned by local/dev deployments. */
+export async function requestLoginLink(email: string) {
+  const res = await fetch('/api/auth/request', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ email })
+  });
+  const data = (await res.json().catch(() => ({}))) as { error?: string; devLink?: string };
+  if (!res.ok) throw new Error(data.error ?? `Sign-in request failed: ${res.status}`);
+  return { devLink: data.devLink };
+}
+
+export async function logout() {
+  await fetch('/api/auth/logout', { method: 'POST' });
+}
@@ -0,0 +1,252 @@
+import { addDays, eachDayOfInterval, endOfWeek, startOfWeek, subWeeks } from 'date-fns';
+import type { Habit, HabitSchedule, RemoteState, Weekday } from '../types';
+import { UnauthorizedError } from './auth';
+import { toDateKey } from './dates';
+import { WEEKDAY_LABELS, describeSchedule, isHabitDue } from './schedule';
+import { creditFor, isAvoid } from './scoring';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export interface WeekTrend {
+  // Monday of the week, yyyy-MM-dd.
+  weekOf: string;
+  // 0-100, or null when nothing was due.
+  rate: number | null;
+}
+
+export interface HabitInsight {
+  habitId: string;
+  name: string;
+  // 0-100 over the whole window.
+  rate: number;
+  // Last week against the weeks before it, in points.
+  change: number | null;
+  // Weekdays that were missed on nearly every due occurrence.
+  missedWeekdays: Weekday[];
+}
+
+export interface ScheduleSuggestion {
+  habitId: string;
+  name: string;
+  current: string;
+  suggested: string;
+  schedule: HabitSchedule;
+  reason: string;
+}
+
+/** Deterministic findings the report is written from. */
+export interface CoachingFacts {
+  // Monday of the most recent full week covered.
+  weekOf: string;
+  weeks: WeekTrend[];
+  habits: HabitInsight[];
+  weakest: HabitInsight[];
+  suggestions: ScheduleSuggestion[];
+}
+
+/** The prose part, written by the model (or the local stub). */
+export interface CoachingNarrative {
+  headline: string;
+  summary: string;
+  tips: string[];
+}
+
+export interface CoachingReport extends CoachingFacts {
+  narrative: CoachingNarrative;
+  // Which model client wrote the narrative.
+  model: string;
+  generatedAt: string;
+}
+
+/** Monday of the last full week before `today`; reports are keyed by it. */
+export const reportWeekOf = (today: Date) => toDateKey(startOfWeek(subWeeks(today, 1), WEEK_OPTIONS));
+
+const percent = (earned: number, due: number) => (due === 0 ? null : Math.round((earned / due) * 100));
+
+/** Suggests a schedule that matches what actually happens, for struggling daily habits. */
+function suggestSchedule(habit: Habit, insight: HabitInsight): ScheduleSuggestion | null {
+  if (isAvoid(habit)) return null;
+  const type = habit.schedule?.type ?? 'daily';
+  const ranges = habit.schedule?.ranges;
+  const current = describeSchedule(habit.schedule);
+
+  if (type === 'daily' && insight.rate < 60 && insight.missedWeekdays.length > 0 && insight.missedWeekdays.length < 5) {
+    const days = ([1, 2, 3, 4, 5, 6, 0] as Weekday[]).filter(day => !insight.missedWeekdays.includes(day));
+    const schedule: HabitSchedule = { type: 'weekdays', days, ...(ranges ? { ranges } : {}) };
+    return {
+      habitId: habit.id,
+      name: habit.name,
+      current,
+      suggested: describeSchedule(schedule),
+      schedule,
+      reason: `Almost always missed on ${insight.missedWeekdays.map(day => WEEKDAY_LABELS[day]).join(', ')}`
+    };
+  }
+
+  if ((type === 'daily' || type === 'weekdays') && insight.rate < 50) {
+    const count = Math.min(6, Math.max(1, Math.round((insight.rate / 100) * 7) + 1));
+    const schedule: HabitSchedule = { type: 'timesPerWeek', count, ...(ranges ? { ranges } : {}) };
+    return {
+      habitId: habit.id,
+      name: habit.name,
+      current,
+      suggested: describeSchedule(schedule),
+      schedule,
+      reason: `Done ${insight.rate}% of due days; a weekly quota one above that is easier to keep`
+    };
+  }
+
+  if (habit.schedule?.type === 'timesPerWeek' && habit.schedule.count < 7 && insight.rate >= 95) {
+    const schedule: HabitSchedule = { ...habit.schedule, count: habit.schedule.count + 1 };
+    return {
+      habitId: habit.id,
+      name: habit.name,
+      current,
+      suggested: describeSchedule(schedule),
+      schedule,
+      reason: 'Quota met every week; ready for one more'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Scores the `weeks` full weeks (Monday-Sunday) before the one containing
+ * `today`, with the same rules as the dashboard.
+ */
+export function analyzeWeeks(state: RemoteState, today: Date, weeks = 4): CoachingFacts {
+  const firstWeek = startOfWeek(subWeeks(today, weeks), WEEK_OPTIONS);
+  const lastWeek = startOfWeek(subWeeks(today, 1), WEEK_OPTIONS);
+  const { habits, completions } = state;
+
+  const weekly = Array.from({ length: weeks }, (_, i) => ({ start: addDays(firstWeek, i * 7), earned: 0, due: 0 }));
+  const perHabit = new Map(
+    habits.map(habit => [
+      habit.id,
+      {
+        earned: 0,
+        due: 0,
+        lastEarned: 0,
+        lastDue: 0,
+        weekdayDue: [0, 0, 0, 0, 0, 0, 0],
+        weekdayMissed: [0, 0, 0, 0, 0, 0, 0]
+      }
+    ])
+  );
+
+  eachDayOfInterval({ start: firstWeek, end: endOfWeek(lastWeek, WEEK_OPTIONS) }).forEach((day, i) => {
+    const key = toDateKey(day);
+    const week = weekly[Math.floor(i / 7)];
+    const isLastWeek = day >= lastWeek;
+
+    habits.forEach(habit => {
+      if (!isHabitDue(habit, day, completions, today)) return;
+      const status = completions[key]?.[habit.id];
+      if (status === 'skipped') return;
+
+      const credit = creditFor(habit, status);
+      const stats = perHabit.get(habit.id);
+      week.earned += credit;
+      week.due += 1;
+      stats.earned += credit;
+      stats.due += 1;
+      stats.weekdayDue[day.getDay()] += 1;
+      if (credit === 0) stats.weekdayMissed[day.getDay()] += 1;
+      if (isLastWeek) {
+        stats.lastEarned += credit;
+        stats.lastDue += 1;
+      }
+    });
+  });
+
+  const insights: HabitInsight[] = habits
+    .filter(habit => perHabit.get(habit.id).due > 0)
+    .map(habit => {
+      const stats = perHabit.get(habit.id);
+      const last = percent(stats.lastEarned, stats.lastDue);
+      const before = percent(stats.earned - stats.lastEarned, stats.due - stats.lastDue);
+      return {
+        habitId: habit.id,
+        name: habit.name,
+        rate: percent(stats.earned, stats.due),
+        change: last === null || before === null ? null : last - before,
+        missedWeekdays: ([0, 1, 2, 3, 4, 5, 6] as Weekday[]).filter(
+          day => stats.weekdayDue[day] >= 2 && stats.weekdayMissed[day] / stats.weekdayDue[day] >= 0.75
+        )
+      };
+    });
+
+  const byId = new Map(habits.map(habit => [habit.id, habit]));
+  return {
+    weekOf: reportWeekOf(today),
+    weeks: weekly.map(week => ({ weekOf: toDateKey(week.start), rate: percent(week.earned, week.due) })),
+    habits: insights,
+    weakest: [...insights]
+      .filter(insight => insight.rate < 80)
+      .sort((a, b) => a.rate - b.rate)
+      .slice(0, 3),
+    suggestions: insights
+      .map(insight => suggestSchedule(byId.get(insight.habitId), insight))
+      .filter(Boolean)
+      .slice(0, 3)
+  };
+}
+
+/** A plain-language report built only from the facts; the offline stand-in for the model. */
+export function draftNarrative(facts: CoachingFacts): CoachingNarrative {
+  const rates = facts.weeks.map(week => week.rate).filter((rate): rate is number => rate !== null);
+  const last = facts.weeks[facts.weeks.length - 1]?.rate;
+  const earlier = rates.slice(0, -1);
+  const average = earlier.length === 0 ? null : Math.round(earlier.reduce((sum, rate) => sum + rate, 0) / earlier.length);
+
+  if (last === null || last === undefined) {
+    return {
+      headline: 'Nothing was due last week',
+      summary: 'Log a few days and the next report will have something to say.',
+      tips: []
+    };
+  }
+
+  const direction = average === null ? '' : last > average + 4 ? ', up from' : last < average - 4 ? ', down from' : ', level with';
+  const summary = [
+    `You completed ${last}% of what was due last week${average === null ? '' : `${direction} a ${average}% average before that`}.`,
+    facts.weakest.length > 0 ? `The habits needing the most attention: ${facts.weakest.map(h => `${h.name} (${h.rate}%)`).join(', ')}.` : 'No habit fell below 80%.'
+  ].join(' ');
+
+  const tips = [
+    ...facts.suggestions.map(s => `Consider changing ${s.name} from "${s.current}" to "${s.suggested}": ${s.reason.toLowerCase()}.`),
+    ...facts.weakest
+      .filter(h => h.missedWeekdays.length > 0 && !facts.suggestions.some(s => s.habitId === h.habitId))
+      .map(h => `${h.name} slips on ${h.missedWeekdays.map(day => WEEKDAY_LABELS[day]).join(', ')}; plan those days ahead.`)
+  ].slice(0, 4);
+
+  return {
+    headline: last >= 80 ? `Strong week: ${last}%` : last >= 50 ? `Steady week: ${last}%` : `Tough week: ${last}%`,
+    summary,
+    tips
+  };
+}
+
+/** Accepts a model reply only if it has the narrative's shape. */
+export function parseNarrative(text: string): CoachingNarrative | null {
+  try {
+    const value = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    if (typeof value?.headline !== 'string' || typeof value?.summary !== 'string' || !Array.isArray(value?.tips)) return null;
+    return {
+      headline: value.headline,
+      summary: value.summary,
+      tips: value.tips.filter((tip: unknown): tip is string => typeof tip === 'string').slice(0, 6)
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** The cached report for last week, or a freshly generated one when `refresh` is set. */
+export async function fetchCoachingReport(refresh = false): Promise<CoachingReport> {
+  const res = await fetch('/api/coach', { method: refresh ? 'POST' : 'GET' });
+  if (res.status === 401) throw new UnauthorizedError();
+  if (!res.ok) throw new Error(`${refresh ? 'POST' : 'GET'} /api/coach failed: ${res.status}`);
+  return res.json();
+}
@@ -0,0 +1,231 @@
+import { addDays, isAfter, startOfDay, subDays } from 'date-fns';
+import type { Habit, HabitCompletion, HabitStatus } from '../types';
+import { UnauthorizedError } from './auth';
+import { fromDateKey, toDateKey } from './dates';
+import { WEEKDAY_LABELS } from './schedule';
+import { type LoggedStatus, isAvoid, isLogged, sameStatus } from './scoring';
+
+/** One cell to write; `null` clears it. */
+export interface CommandChange {
+  date: string;
+  habitId: string;
+  status: LoggedStatus | null;
+}
+
+export interface ParsedCommand {
+  changes: CommandChange[];
+  // Parts of the text that didn't name a habit.
+  unmatched: string[];
+}
+
+type Action = 'done' | 'skipped' | 'clear' | 'slip';
+
+const ACTIONS: [Action, RegExp][] = [
+  ['clear', /\b(missed|didn'?t|did not|forgot|undo|clear|unlog)\b/],
+  ['skipped', /\b(skip|skipped|skipping|rest day|excused)\b/],
+  ['slip', /\b(slip|slipped|slips|relapsed?|caved|gave in)\b/],
+  ['done', /\b(did|done|do|completed?|finished|went|made|hit|nailed|logged?|avoided|clean|stayed)\b/]
+];
+
+// Words that never identify a habit on their own.
+const STOPWORDS = new Set(
+  'a an the and or of to for at in on no all my i me am pm h hr hrs hour hours min mins minute minutes then also with'.split(' ')
+);
+
+const COMMAND_WORDS = new Set(
+  'did done do completed complete finished went made avoided clean stayed hit nailed log logged skip skipped skipping rest day excused missed didnt didn t not forgot undo clear unlog slip slipped slips relapse relapsed caved gave give today yesterday tomorrow ago days last before time times once twice thrice'.split(
+    ' '
+  )
+);
+
+const WEEKDAYS = WEEKDAY_LABELS.map(label => label.toLowerCase());
+
+/** Crude stemming so "studied", "studying" and "study" meet. */
+const stem = (word: string) =>
+  word
+    .replace(/(ied|ies)$/, 'y')
+    .replace(/(ing|ed)$/, '')
+    .replace(/s$/, '')
+    .replace(/(.{3})e$/, '$1');
+
+const words = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .split(/[^a-z0-9']+/)
+    .map(word => word.replace(/'/g, ''))
+    .filter(Boolean);
+
+const habitStems = (habit: Habit) =>
+  [...new Set(words(habit.name).filter(word => !STOPWORDS.has(word) && !/^\d/.test(word)).map(stem))];
+
+/**
+ * Takes the date out of a clause: today, yesterday, "day before yesterday",
+ * "N days ago", a weekday name (its latest occurrence; "last" skips today)
+ * or yyyy-MM-dd. "tomorrow" is recognised so it can be refused.
+ */
+function takeDate(clause: string, today: Date): { date: Date | null; rest: string } {
+  const patterns: [RegExp, (match: RegExpExecArray) => Date | null][] = [
+    [/\b(\d{4}-\d{2}-\d{2})\b/, m => fromDateKey(m[1])],
+    [/\b(?:the\s+)?day before yesterday\b/, () => subDays(today, 2)],
+    [/\byesterday\b/, () => subDays(today, 1)],
+    [/\btomorrow\b/, () => addDays(today, 1)],
+    [/\btoday\b|\btonight\b|\bthis morning\b/, () => today],
+    [/\b(\d+|one|two|three|four|five|six|seven)\s+days?\s+ago\b/, m => subDays(today, wordNumber(m[1]))],
+    [
+      /\b(?:on\s+)?(last\s+)?(sun|mon|tue|wed|thu|fri|sat)(?:day|s|sday|nesday|rsday|urday)?\b/,
+      m => {
+        const back = (today.getDay() - WEEKDAYS.indexOf(m[2]) + 7) % 7;
+        return subDays(today, back === 0 && m[1] ? 7 : back);
+      }
+    ]
+  ];
+
+  for (const [pattern, resolve] of patterns) {
+    const match = pattern.exec(clause);
+    if (match) return { date: resolve(match), rest: clause.replace(match[0], ' ') };
+  }
+  return { date: null, rest: clause };
+}
+
+const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven'];
+const wordNumber = (value: string) => (/^\d+$/.test(value) ? Number(value) : NUMBER_WORDS.indexOf(value));
+
+/** "45 min", "1.5h", "2 hours" in the habit's unit when it is a time unit. */
+function takeAmount(clause: string, habit: Habit): number | null {
+  const match = /(\d+(?:\.\d+)?)\s*(h|hr|hrs|hours?|m|mins?|minutes?)?\b/.exec(clause);
+  if (!match) return null;
+  const value = Number(match[1]);
+  const unit = habit.target?.unit.toLowerCase() ?? '';
+  const spokenHours = !!match[2] && match[2].startsWith('h');
+  const spokenMinutes = !!match[2] && match[2].startsWith('m');
+  if (spokenHours && /^min/.test(unit)) return value * 60;
+  if (spokenMinutes && /^(h|hour)/.test(unit)) return value / 60;
+  return value;
+}
+
+/** Habits named in a clause, best match first; each word identifies at most one habit. */
+function matchHabits(clause: string, habits: Habit[]) {
+  const tokens = new Set(words(clause).filter(word => !COMMAND_WORDS.has(word)).map(stem));
+  const stems = habits.map(habitStems);
+  const counts = new Map<string, number>();
+  stems.forEach(list => list.forEach(s => counts.set(s, (counts.get(s) ?? 0) + 1)));
+
+  const candidates = habits
+    .map((habit, i) => {
+      const matched = stems[i].filter(s => tokens.has(s));
+      const distinctive = matched.some(s => s.length >= 4 && counts.get(s) === 1);
+      const score = stems[i].length === 0 ? 0 : matched.length / stems[i].length;
+      return { habit, matched, score: distinctive ? Math.max(score, 0.5) : score };
+    })
+    .filter(c => c.matched.length > 0 && c.score >= 0.5)
+    .sort((a, b) => b.score - a.score || b.matched.length - a.matched.length);
+
+  const claimed = new Set<string>();
+  return candidates
+    .filter(c => {
+      const fresh = c.matched.filter(s => !claimed.has(s));
+      if (fresh.length === 0) return false;
+      c.matched.forEach(s => claimed.add(s));
+      return true;
+    })
+    .map(c => c.habit);
+}
+
+function statusFor(action: Action, habit: Habit, clause: string, single: boolean): LoggedStatus | null {
+  if (action === 'clear') return null;
+  if (action === 'skipped') return 'skipped';
+  if (isAvoid(habit)) {
+    // A clean day is the default for an avoid habit, so "did" clears a slip.
+    if (action !== 'slip') return null;
+    const spoken = /\b(once|twice|thrice)\b/.exec(clause);
+    const count = spoken ? ['once', 'twice', 'thrice'].indexOf(spoken[1]) + 1 : single ? Math.round(takeAmount(clause, habit) ?? 1) : 1;
+    return { slips: Math.max(1, count) };
+  }
+  if (action === 'slip') return null;
+  const amount = single && habit.target ? takeAmount(clause, habit) : null;
+  return amount !== null && amount >= 0 ? amount : true;
+}
+
+/**
+ * Rule-based reading of text like "did gym and shower yesterday, skipped MMA".
+ * Clauses are split on punctuation and "then"; a clause without a verb reuses
+ * the previous one, and without a date uses the first date mentioned, else
+ * `today`. Future dates are ignored.
+ */
+export function parseCommand(text: string, habits: Habit[], today = new Date()): ParsedCommand {
+  const day = startOfDay(today);
+  const clauses = text
+    .toLowerCase()
+    .split(/[,;!\n]+|\.(?!\d)|\bthen\b|\bbut\b/)
+    .map(c => c.trim())
+    .filter(Boolean);
+
+  const dated = clauses.map(clause => takeDate(clause, day));
+  const fallbackDate = dated.find(d => d.date)?.date ?? day;
+
+  const changes = new Map<string, CommandChange>();
+  const unmatched: string[] = [];
+  let action: Action = 'done';
+
+  dated.forEach(({ date, rest }, i) => {
+    action = ACTIONS.find(([, pattern]) => pattern.test(rest))?.[0] ?? action;
+    const target = date ?? fallbackDate;
+    const matched = matchHabits(rest, habits);
+    if (matched.length === 0 || isAfter(target, day)) {
+      unmatched.push(clauses[i]);
+      return;
+    }
+    matched.forEach(habit => {
+      const change = { date: toDateKey(target), habitId: habit.id, status: statusFor(action, habit, rest, matched.length === 1) };
+      changes.set(`${change.date}|${habit.id}`, change);
+    });
+  });
+
+  return { changes: [...changes.values()], unmatched };
+}
+
+/**
+ * Checks changes proposed by a model against the habits: unknown habits,
+ * malformed dates or statuses and future days are dropped.
+ */
+export function readChanges(value: unknown, habits: Habit[], today = new Date()): ParsedCommand | null {
+  const record = value as { changes?: unknown; unmatched?: unknown };
+  if (!record || !Array.isArray(record.changes)) return null;
+  const ids = new Set(habits.map(h => h.id));
+  const todayKey = toDateKey(today);
+
+  const changes = record.changes.filter(
+    (change): change is CommandChange =>
+      !!change &&
+      typeof change.date === 'string' &&
+      /^\d{4}-\d{2}-\d{2}$/.test(change.date) &&
+      change.date <= todayKey &&
+      ids.has(change.habitId) &&
+      (change.status === null || isLogged(change.status))
+  );
+  const unmatched = Array.isArray(record.unmatched) ? record.unmatched.filter((u): u is string => typeof u === 'string') : [];
+  return { changes: changes.map(({ date, habitId, status }) => ({ date, habitId, status })), unmatched };
+}
+
+export interface CommandDiff extends CommandChange {
+  before: HabitStatus;
+}
+
+/** What each change would do to `completions`; changes that wouldn't alter anything are left out. */
+export const diffChanges = (changes: CommandChange[], completions: HabitCompletion): CommandDiff[] =>
+  changes
+    .map(change => ({ ...change, before: completions[change.date]?.[change.habitId] }))
+    .filter(change => !sameStatus(isLogged(change.before) ? change.before : undefined, change.status ?? undefined));
+
+/** Asks the server (and its model, when configured) to read `text`. */
+export async function interpretCommand(text: string, today = new Date()): Promise<ParsedCommand & { model: string }> {
+  const res = await fetch('/api/interpret', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ text, today: toDateKey(today) })
+  });
+  if (res.status === 401) throw new UnauthorizedError();
+  if (!res.ok) throw new Error(`POST /api/interpret failed: ${res.status}`);
+  return res.json();
+}
@@ -0,0 +1,75 @@
+import { format, parseISO, startOfDay } from 'date-fns';
+
+/** Key used for every entry in `HabitCompletion`. */
+export function toDateKey(date: Date) {
+  return format(date, 'yyyy-MM-dd');
+}
+
+export function fromDateKey(key: string) {
+  return parseISO(key);
+}
+
+/** Where the user's days begin and end; `AppSettings` carries both fields. */
+export interface DayBoundary {
+  // IANA zone such as 'Europe/Berlin'; empty means the device's.
+  timeZone?: string;
+  // Hours after midnight that still belong to the previous day, 0-12.
+  dayStartHour?: number;
+}
+
+export const MAX_DAY_START_HOUR = 12;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Building a formatter is slow; unknown zones are remembered as `null`.
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+const zoneFormatter = (timeZone: string) => {
+  if (!formatters.has(timeZone)) {
+    try {
+      formatters.set(
+        timeZone,
+        new Intl.DateTimeFormat('en-US', {
+          timeZone,
+          year: 'numeric',
+          month: '2-digit',
+          day: '2-digit',
+          hour: '2-digit',
+          minute: '2-digit',
+          hourCycle: 'h23'
+        })
+      );
+    } catch {
+      formatters.set(timeZone, null);
+    }
+  }
+  return formatters.get(timeZone);
+};
+
+export const isTimeZone = (value: unknown): value is string => typeof value === 'string' && value !== '' && !!zoneFormatter(value);
+
+/**
+ * The calendar day (as local midnight, like every other day in the app) and
+ * "HH:mm" time of `instant` in `timeZone`, or on the device's clock when the
+ * zone is empty or unknown.
+ */
+export function wallClock(instant: Date, timeZone?: string): { date: Date; time: string } {
+  const formatter = timeZone ? zoneFormatter(timeZone) : null;
+  if (!formatter) return { date: startOfDay(instant), time: format(instant, 'HH:mm') };
+
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(instant).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  return { date: new Date(Number(parts.year), Number(parts.month) - 1, Number(parts.day)), time: `${parts.hour}:${parts.minute}` };
+}
+
+// The wall clock with the rollover hour taken off, so the user's day runs 00:00-23:59.
+const logicalClock = (boundary: DayBoundary, now: Date) =>
+  wallClock(new Date(now.getTime() - (boundary.dayStartHour ?? 0) * HOUR_MS), boundary.timeZone);
+
+/** The day the user is in at `now`: their time zone's date, still the previous one until `dayStartHour`. */
+export const logicalToday = (boundary: DayBoundary = {}, now = new Date()) => logicalClock(boundary, now).date;
+
+/** Whole hours since the user's day began at `now`, 0-23; with a `dayStartHour` of 4, 03:30 is hour 23. */
+export const hoursIntoDay = (boundary: DayBoundary = {}, now = new Date()) => Number(logicalClock(boundary, now).time.slice(0, 2));
@@ -0,0 +1,72 @@
+import type { Habit } from '../types';
+
+export interface HabitGroup {
+  // '' for habits without a group.
+  name: string;
+  habits: Habit[];
+}
+
+export const groupOf = (habit: Habit) => habit.group?.trim() ?? '';
+
+export const isArchived = (habit: Habit) => !!habit.archivedOn;
+
+export const activeHabits = (habits: Habit[]) => habits.filter(habit => !isArchived(habit));
+
+/** Habits with active days between `fromKey` and `toKey`, including ones archived or ended since. */
+export const habitsShownIn = (habits: Habit[], fromKey: string, toKey: string) =>
+  habits.filter(
+    habit =>
+      (!habit.archivedOn || habit.archivedOn > fromKey) && (!habit.startDate || habit.startDate <= toKey) && (!habit.endDate || habit.endDate >= fromKey)
+  );
+
+/** Habits under their groups; groups follow their first habit, habits keep their order. */
+export function groupHabits(habits: Habit[]): HabitGroup[] {
+  const groups: HabitGroup[] = [];
+  habits.forEach(habit => {
+    const name = groupOf(habit);
+    const group = groups.find(g => g.name === name);
+    if (group) group.habits.push(habit);
+    else groups.push({ name, habits: [habit] });
+  });
+  return groups;
+}
+
+/** Group names in use, in display order. */
+export const groupNames = (habits: Habit[]) =>
+  groupHabits(habits)
+    .map(group => group.name)
+    .filter(Boolean);
+
+// Stored order always matches the displayed, grouped order.
+const flatten = (habits: Habit[]) => groupHabits(habits).flatMap(group => group.habits);
+
+const withGroup = (habit: Habit, name: string): Habit => {
+  const { group: _, ...rest } = habit;
+  return name ? { ...rest, group: name } : rest;
+};
+
+/**
+ * Moves habit `id` to where `targetId` is shown and into its group: before
+ * the target when moving up, after it when moving down.
+ */
+export function moveHabit(habits: Habit[], id: string, targetId: string): Habit[] {
+  const ordered = flatten(habits);
+  const from = ordered.findIndex(h => h.id === id);
+  const target = ordered.find(h => h.id === targetId);
+  if (from < 0 || !target || id === targetId) return habits;
+
+  const rest = ordered.filter(h => h.id !== id);
+  const at = rest.indexOf(target) + (ordered.indexOf(target) > from ? 1 : 0);
+  rest.splice(at, 0, withGroup(ordered[from], groupOf(target)));
+  return flatten(rest);
+}
+
+/** Moves habit `id` to the end of group `name` ('' for ungrouped). */
+export function moveToGroup(habits: Habit[], id: string, name: string): Habit[] {
+  const habit = habits.find(h => h.id === id);
+  if (!habit) return habits;
+  const rest = flatten(habits.filter(h => h.id !== id));
+  const last = rest.map(groupOf).lastIndexOf(name);
+  rest.splice(last < 0 ? rest.length : last + 1, 0, withGroup(habit, name));
+  return flatten(rest);
+}
@@ -0,0 +1,102 @@
+import { addDays, eachDayOfInterval, format, startOfDay, startOfWeek, subDays } from 'date-fns';
+import type { Habit, HabitCompletion } from '../types';
+import { toDateKey } from './dates';
+import { isHabitDue } from './schedule';
+import { creditFor } from './scoring';
+
+export interface HeatmapCell {
+  date: Date;
+  key: string;
+  // Share of due habits achieved, or null when nothing was due.
+  ratio: number | null;
+  // 0 (nothing due or nothing done) to 4 (everything done).
+  level: 0 | 1 | 2 | 3 | 4;
+  // Outside the requested span; drawn as padding.
+  outside: boolean;
+}
+
+export interface Heatmap {
+  // Monday-first columns of seven days, oldest first.
+  weeks: HeatmapCell[][];
+  // Column index where each month starts, for axis labels.
+  months: { index: number; label: string }[];
+  dueDays: number;
+  perfectDays: number;
+  average: number;
+}
+
+const levelFor = (ratio: number | null): HeatmapCell['level'] => {
+  if (ratio === null || ratio === 0) return 0;
+  if (ratio >= 1) return 4;
+  if (ratio >= 0.66) return 3;
+  if (ratio >= 0.33) return 2;
+  return 1;
+};
+
+/** Credit earned over due habits on one day, same rules as the Daily Matrix. */
+export function scoreDay(habits: Habit[], date: Date, completions: HabitCompletion, today: Date) {
+  const key = toDateKey(date);
+  let due = 0;
+  let earned = 0;
+  habits.forEach(habit => {
+    if (!isHabitDue(habit, date, completions, today)) return;
+    const status = completions[key]?.[habit.id];
+    if (status === 'skipped') return;
+    due += 1;
+    earned += creditFor(habit, status);
+  });
+  return due === 0 ? null : earned / due;
+}
+
+/** First day any of `habits` has history or a start date, so untracked months don't read as misses. */
+export const trackingStart = (habits: Habit[], completions: HabitCompletion) => {
+  let first: string | null = null;
+  habits.forEach(habit => {
+    [habit.avoidSince, habit.startDate].forEach(day => {
+      if (day && (first === null || day < first)) first = day;
+    });
+  });
+  Object.keys(completions).forEach(key => {
+    if (first !== null && key >= first) return;
+    if (habits.some(habit => completions[key]?.[habit.id] !== undefined)) first = key;
+  });
+  return first;
+};
+
+/**
+ * The `days` days up to `end`, laid out GitHub-style. Pass one habit for a
+ * per-habit map; days before its first entry and future days are left blank.
+ */
+export function buildHeatmap(habits: Habit[], completions: HabitCompletion, end: Date, today = new Date(), days = 365): Heatmap {
+  const last = startOfDay(end);
+  const first = subDays(last, days - 1);
+  const todayKey = toDateKey(today);
+  const startKey = trackingStart(habits, completions);
+
+  const weeks: HeatmapCell[][] = [];
+  const months: Heatmap['months'] = [];
+  let dueDays = 0;
+  let perfectDays = 0;
+  let total = 0;
+
+  eachDayOfInterval({ start: startOfWeek(first, { weekStartsOn: 1 }), end: addDays(startOfWeek(last, { weekStartsOn: 1 }), 6) }).forEach(
+    (date, i) => {
+      const key = toDateKey(date);
+      const outside = date < first || date > last;
+      const scored = !outside && startKey !== null && key >= startKey && key <= todayKey;
+      const ratio = scored ? scoreDay(habits, date, completions, today) : null;
+
+      if (i % 7 === 0) weeks.push([]);
+      weeks[weeks.length - 1].push({ date, key, ratio, level: levelFor(ratio), outside });
+
+      if (!outside && date.getDate() === 1) months.push({ index: weeks.length - 1, label: format(date, 'MMM') });
+      if (ratio !== null) {
+        dueDays += 1;
+        total += ratio;
+        if (ratio >= 1) perfectDays += 1;
+      }
+    }
+  );
+
+  return { weeks, months, dueDays, perfectDays, average: dueDays === 0 ? 0 : Math.round((total / dueDays) * 100) };
+}
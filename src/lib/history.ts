@@ -0,0 +1,182 @@
+import { format } from 'date-fns';
+import type { Habit, HabitCompletion, HabitStatus, Journal, JournalEntry } from '../types';
+import { fromDateKey } from './dates';
+import { sameEntry } from './journal';
+import { formatAmount, isAmount, isAvoid, isLogged, isSlip, sameStatus } from './scoring';
+
+/** The part of the state undo and redo work on. */
+export interface HistoryState {
+  habits: Habit[];
+  completions: HabitCompletion;
+  journal: Journal;
+}
+
+export interface CellPatch {
+  date: string;
+  habitId: string;
+  // Logged statuses only; `undefined` is an empty cell.
+  before: HabitStatus;
+  after: HabitStatus;
+}
+
+export interface HabitPatch {
+  id: string;
+  // `null` when the habit didn't exist on that side.
+  before: Habit | null;
+  after: Habit | null;
+}
+
+export interface DayPatch {
+  date: string;
+  // `undefined` when the day had no journal entry.
+  before?: JournalEntry;
+  after?: JournalEntry;
+}
+
+/** One undoable action, stored as what it changed rather than a copy of the state. */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  // ISO timestamp.
+  at: string;
+  cells: CellPatch[];
+  habits: HabitPatch[];
+  // Journal days; missing in entries recorded before the journal existed.
+  days?: DayPatch[];
+  // Habit ids in order before and after, when the action moved or added habits.
+  order?: { before: string[]; after: string[] };
+}
+
+export interface HistoryStacks {
+  past: HistoryEntry[];
+  // Entries undone since the last action, most recent undo last.
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryStacks = { past: [], future: [] };
+
+// Diffs are small, so far more steps fit than whole-state copies allowed.
+export const HISTORY_LIMIT = 200;
+
+const logged = (status: HabitStatus) => (isLogged(status) ? status : undefined);
+
+const sameHabit = (a: Habit | null | undefined, b: Habit | null | undefined) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const newId = () =>
+  typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2, 11);
+
+/** The entry that turns `before` into `after`, or `null` when nothing changed. */
+export function diffStates(label: string, before: HistoryState, after: HistoryState, at = new Date()): HistoryEntry | null {
+  const cells: CellPatch[] = [];
+  new Set([...Object.keys(before.completions), ...Object.keys(after.completions)]).forEach(date => {
+    const was = before.completions[date] || {};
+    const now = after.completions[date] || {};
+    new Set([...Object.keys(was), ...Object.keys(now)]).forEach(habitId => {
+      if (!sameStatus(logged(was[habitId]), logged(now[habitId]))) {
+        cells.push({ date, habitId, before: logged(was[habitId]), after: logged(now[habitId]) });
+      }
+    });
+  });
+
+  const beforeById = new Map(before.habits.map(h => [h.id, h]));
+  const afterById = new Map(after.habits.map(h => [h.id, h]));
+  const habits: HabitPatch[] = [];
+  new Set([...beforeById.keys(), ...afterById.keys()]).forEach(id => {
+    if (!sameHabit(beforeById.get(id), afterById.get(id))) {
+      habits.push({ id, before: beforeById.get(id) ?? null, after: afterById.get(id) ?? null });
+    }
+  });
+
+  const days: DayPatch[] = [];
+  new Set([...Object.keys(before.journal), ...Object.keys(after.journal)]).forEach(date => {
+    if (!sameEntry(before.journal[date], after.journal[date])) days.push({ date, before: before.journal[date], after: after.journal[date] });
+  });
+
+  const beforeOrder = before.habits.map(h => h.id);
+  const afterOrder = after.habits.map(h => h.id);
+  const reordered = beforeOrder.join('\n') !== afterOrder.join('\n');
+
+  if (cells.length === 0 && habits.length === 0 && days.length === 0 && !reordered) return null;
+  return {
+    id: newId(),
+    label,
+    at: at.toISOString(),
+    cells,
+    habits,
+    ...(days.length > 0 ? { days } : {}),
+    ...(reordered ? { order: { before: beforeOrder, after: afterOrder } } : {})
+  };
+}
+
+/**
+ * Applies one side of `entry` to `state`. Cells and habits that changed
+ * elsewhere since (another device, a sync rebase) are left as they are.
+ */
+function applySide(state: HistoryState, entry: HistoryEntry, direction: 'undo' | 'redo'): HistoryState {
+  const from = direction === 'undo' ? 'after' : 'before';
+  const to = direction === 'undo' ? 'before' : 'after';
+
+  const completions = { ...state.completions };
+  entry.cells.forEach(cell => {
+    if (!sameStatus(logged(completions[cell.date]?.[cell.habitId]), cell[from])) return;
+    completions[cell.date] = { ...(completions[cell.date] || {}), [cell.habitId]: cell[to] };
+  });
+
+  const journal = { ...state.journal };
+  entry.days?.forEach(day => {
+    if (!sameEntry(journal[day.date], day[from])) return;
+    if (day[to]) journal[day.date] = day[to];
+    else delete journal[day.date];
+  });
+
+  const byId = new Map(state.habits.map(h => [h.id, h]));
+  entry.habits.forEach(patch => {
+    if (!sameHabit(byId.get(patch.id), patch[from])) return;
+    if (patch[to]) byId.set(patch.id, patch[to]);
+    else byId.delete(patch.id);
+  });
+
+  // Follow the recorded order; habits it doesn't know go last.
+  const placed = (entry.order?.[to] ?? state.habits.map(h => h.id)).filter(id => byId.has(id));
+  const rest = [...byId.keys()].filter(id => !placed.includes(id));
+  return { habits: [...placed, ...rest].map(id => byId.get(id)), completions, journal };
+}
+
+export const undoEntry = (state: HistoryState, entry: HistoryEntry) => applySide(state, entry, 'undo');
+
+export const redoEntry = (state: HistoryState, entry: HistoryEntry) => applySide(state, entry, 'redo');
+
+/** Records a new action: it becomes the latest undo step and clears the redo stack. */
+export const pushEntry = (stacks: HistoryStacks, entry: HistoryEntry): HistoryStacks => ({
+  past: [...stacks.past, entry].slice(-HISTORY_LIMIT),
+  future: []
+});
+
+// -----------------------
+// Labels
+// -----------------------
+
+const day = (date: string) => format(fromDateKey(date), 'MMM d');
+
+/** "Marked GYM done on Oct 3" and friends, for a single cell. */
+export function cellLabel(habit: Habit | undefined, date: string, status: HabitStatus) {
+  const name = habit?.name ?? 'habit';
+  if (status === true) return `Marked ${name} done on ${day(date)}`;
+  if (status === 'skipped') return `Skipped ${name} on ${day(date)}`;
+  if (isAmount(status)) return `Logged ${formatAmount(status)}${habit?.target ? ` ${habit.target.unit}` : ''} of ${name} on ${day(date)}`;
+  if (isSlip(status)) return `Logged ${status.slips} slip${status.slips === 1 ? '' : 's'} for ${name} on ${day(date)}`;
+  return habit && isAvoid(habit) ? `Marked ${name} clean on ${day(date)}` : `Cleared ${name} on ${day(date)}`;
+}
+
+/** Reads persisted stacks, dropping anything that isn't shaped like an entry. */
+export function readHistory(value: unknown): HistoryStacks {
+  const stacks = value as Partial<HistoryStacks> | undefined;
+  const entries = (list: unknown) =>
+    Array.isArray(list)
+      ? list.filter(
+          (e): e is HistoryEntry =>
+            !!e && typeof e.id === 'string' && typeof e.label === 'string' && Array.isArray(e.cells) && Array.isArray(e.habits)
+        )
+      : [];
+  return { past: entries(stacks?.past).slice(-HISTORY_LIMIT), future: entries(stacks?.future) };
+}
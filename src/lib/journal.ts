@@ -0,0 +1,85 @@
+import type { CellNote, Journal, JournalEntry, JournalScore } from '../types';
+import { toDateKey } from './dates';
+
+/** Offered when skipping; any other text is kept as is. */
+export const SKIP_REASONS = ['Sick', 'Injury', 'Travel', 'Rest day', 'Work', 'Family'];
+
+export const JOURNAL_SCORES: JournalScore[] = [1, 2, 3, 4, 5];
+
+export const MAX_NOTE_LENGTH = 1000;
+
+export const isJournalScore = (value: unknown): value is JournalScore =>
+  typeof value === 'number' && JOURNAL_SCORES.includes(value as JournalScore);
+
+const isBlank = (text: string | undefined) => !text || text.trim() === '';
+
+const isEmptyNote = (note: CellNote | undefined) => !note || (isBlank(note.note) && isBlank(note.reason));
+
+export const isEmptyEntry = (entry: JournalEntry | undefined) =>
+  !entry ||
+  (entry.mood === undefined &&
+    entry.energy === undefined &&
+    isBlank(entry.note) &&
+    Object.values(entry.cells ?? {}).every(isEmptyNote));
+
+export const sameEntry = (a: JournalEntry | undefined, b: JournalEntry | undefined) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Trims text and drops blank fields and cells, so an entry is stored in one
+ * canonical shape; `undefined` when nothing is left.
+ */
+export function cleanEntry(entry: JournalEntry | undefined): JournalEntry | undefined {
+  if (!entry || isEmptyEntry(entry)) return undefined;
+
+  const cells: Record<string, CellNote> = {};
+  Object.entries(entry.cells ?? {}).forEach(([habitId, cell]) => {
+    const note = cell?.note?.trim();
+    const reason = cell?.reason?.trim();
+    if (note || reason) cells[habitId] = { ...(note ? { note } : {}), ...(reason ? { reason } : {}) };
+  });
+  const note = entry.note?.trim();
+
+  return {
+    ...(entry.mood !== undefined ? { mood: entry.mood } : {}),
+    ...(entry.energy !== undefined ? { energy: entry.energy } : {}),
+    ...(note ? { note } : {}),
+    ...(Object.keys(cells).length > 0 ? { cells } : {})
+  };
+}
+
+/** `journal` with `date` set to `entry`, or removed when the entry is empty. */
+export function withEntry(journal: Journal, date: string, entry: JournalEntry | undefined): Journal {
+  const { [date]: _, ...rest } = journal;
+  const cleaned = cleanEntry(entry);
+  return cleaned ? { ...rest, [date]: cleaned } : rest;
+}
+
+export const cellNoteOf = (journal: Journal, date: string, habitId: string) => journal[date]?.cells?.[habitId];
+
+/** Drops every note left on habit `habitId`, e.g. when the habit is deleted. */
+export function withoutHabit(journal: Journal, habitId: string): Journal {
+  let next = journal;
+  Object.keys(journal).forEach(date => {
+    if (!journal[date].cells?.[habitId]) return;
+    const { [habitId]: _, ...cells } = journal[date].cells;
+    next = withEntry(next, date, { ...journal[date], cells });
+  });
+  return next;
+}
+
+export interface DayScores {
+  // `null` where the day has no score, so charts leave a gap.
+  mood: JournalScore | null;
+  energy: JournalScore | null;
+}
+
+/** Mood and energy for each of `days`, in order. */
+export const journalScores = (journal: Journal, days: Date[]): DayScores[] =>
+  days.map(day => {
+    const entry = journal[toDateKey(day)];
+    return { mood: entry?.mood ?? null, energy: entry?.energy ?? null };
+  });
+
+/** "Sick · felt feverish" for tooltips. */
+export const describeNote = (note: CellNote | undefined) => [note?.reason, note?.note].filter(Boolean).join(' · ');
@@ -0,0 +1,84 @@
+import type { RemoteState } from '../types';
+import { type HistoryStacks, readHistory } from './history';
+import { parseState } from './schema';
+import type { Mutation } from './sync';
+
+const DB_NAME = 'habit-mastery';
+const DB_VERSION = 1;
+const STORE = 'sync';
+const SNAPSHOT_KEY = 'snapshot';
+const HISTORY_KEY = 'history';
+
+/**
+ * What survives a reload: the last known server state, its revision and the
+ * local writes not yet accepted by the server. The UI state is always
+ * `rebase(base, queue)`.
+ */
+export interface LocalSnapshot {
+  // Account the data belongs to; another account never sees it.
+  userId: string | null;
+  base: RemoteState;
+  revision: string | null;
+  queue: Mutation[];
+  // False until a GET /api/state succeeded; `base` is then only what we showed.
+  serverKnown: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') throw new Error('IndexedDB unavailable');
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call retry if opening failed (e.g. a blocked upgrade).
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T,>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+export async function loadSnapshot() {
+  const snapshot = await run<LocalSnapshot | undefined>('readonly', store => store.get(SNAPSHOT_KEY));
+  if (!snapshot || !Array.isArray(snapshot.queue)) return null;
+
+  // Snapshots written by an older build go through the same migrations as server data.
+  const base = parseState(snapshot.base);
+  return base.ok ? { ...snapshot, base: base.value } : null;
+}
+
+export async function saveSnapshot(snapshot: LocalSnapshot) {
+  await run('readwrite', store => store.put(snapshot, SNAPSHOT_KEY));
+}
+
+/** Forgets local data, queued writes and undo history, e.g. on sign-out. */
+export async function clearSnapshot() {
+  await run('readwrite', store => store.delete(SNAPSHOT_KEY));
+  await run('readwrite', store => store.delete(HISTORY_KEY));
+}
+
+/** Undo/redo stacks saved for `userId`; another account's history is never returned. */
+export async function loadHistory(userId: string | null) {
+  const saved = await run<{ userId: string | null; stacks: unknown } | undefined>('readonly', store => store.get(HISTORY_KEY));
+  return saved && saved.userId === userId ? readHistory(saved.stacks) : null;
+}
+
+export async function saveHistory(userId: string | null, stacks: HistoryStacks) {
+  await run('readwrite', store => store.put({ userId, stacks }, HISTORY_KEY));
+}
@@ -0,0 +1,58 @@
+import { format } from 'date-fns';
+import type { Habit, HabitCompletion } from '../types';
+import { type DayBoundary, fromDateKey, logicalToday, toDateKey, wallClock } from './dates';
+import { isHabitDue } from './schedule';
+import { isAvoid, isLogged } from './scoring';
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isReminderTime = (value: unknown): value is string => typeof value === 'string' && TIME.test(value);
+
+/**
+ * Habits due on `date` with nothing logged yet. Avoid habits are left out:
+ * an unlogged day already counts as clean.
+ */
+export const unloggedHabits = (habits: Habit[], completions: HabitCompletion, date: Date, today = date) =>
+  habits.filter(
+    habit => !isAvoid(habit) && isHabitDue(habit, date, completions, today) && !isLogged(completions[toDateKey(date)]?.[habit.id])
+  );
+
+export interface DueReminder {
+  habit: Habit;
+  time: string;
+  // Stable per habit, day and time, so a reminder is shown once.
+  tag: string;
+}
+
+/**
+ * Reminders whose time falls in `(since, now]` on the user's clock, for habits
+ * still unlogged on the day they are in (which lags midnight by `dayStartHour`).
+ */
+export function remindersBetween(
+  habits: Habit[],
+  completions: HabitCompletion,
+  since: Date,
+  now: Date,
+  boundary: DayBoundary = {}
+): DueReminder[] {
+  const clock = wallClock(now, boundary.timeZone);
+  const before = wallClock(since, boundary.timeZone);
+  const from = toDateKey(before.date) === toDateKey(clock.date) ? before.time : '';
+  const to = clock.time;
+  const day = logicalToday(boundary, now);
+  const key = toDateKey(day);
+
+  return unloggedHabits(habits, completions, day).flatMap(habit =>
+    (habit.reminders ?? []).filter(time => time > from && time <= to).map(time => ({ habit, time, tag: `${key}|${habit.id}|${time}` }))
+  );
+}
+
+/** Plain-text end-of-day digest; `null` when everything was logged. */
+export function digestMessage(habits: Habit[], date: string) {
+  if (habits.length === 0) return null;
+  const day = format(fromDateKey(date), 'EEEE, MMM d');
+  return {
+    subject: `${habits.length} habit${habits.length === 1 ? '' : 's'} still open for ${day}`,
+    text: [`Not logged yet for ${day}:`, '', ...habits.map(habit => `- ${habit.name}`), '', 'Log them before the day ends.'].join('\n')
+  };
+}
@@ -0,0 +1,108 @@
+import { addDays, differenceInCalendarDays, endOfWeek, startOfWeek } from 'date-fns';
+import type { Habit, HabitCompletion, HabitSchedule, Weekday } from '../types';
+import { fromDateKey, toDateKey } from './dates';
+import { isAvoid, isDone } from './scoring';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Weekly quotas are counted Monday through Sunday.
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+const inRanges = (schedule: HabitSchedule, key: string) => {
+  if (!schedule.ranges || schedule.ranges.length === 0) return true;
+  return schedule.ranges.some(range => key >= range.from && (!range.to || key <= range.to));
+};
+
+/** Whether the day falls inside the habit's life: from `startDate` through `endDate`, before it was archived. */
+export const isActiveOn = (habit: Habit, key: string) =>
+  (!habit.startDate || key >= habit.startDate) && (!habit.endDate || key <= habit.endDate) && (!habit.archivedOn || key < habit.archivedOn);
+
+/**
+ * Whether the habit's calendar rule lands on this day, ignoring how the rest
+ * of the week went. `timesPerWeek` habits are eligible on every day; nothing
+ * is scheduled outside the habit's active days.
+ */
+export function isScheduledOn(habit: Habit, date: Date) {
+  if (!isActiveOn(habit, toDateKey(date))) return false;
+  const schedule = habit.schedule;
+  if (!schedule) return true;
+  if (!inRanges(schedule, toDateKey(date))) return false;
+
+  switch (schedule.type) {
+    case 'daily':
+    case 'timesPerWeek':
+      return true;
+    case 'weekdays':
+      return schedule.days.includes(date.getDay() as Weekday);
+    case 'interval': {
+      const offset = differenceInCalendarDays(date, fromDateKey(schedule.anchor));
+      return offset >= 0 && offset % Math.max(1, schedule.every) === 0;
+    }
+  }
+}
+
+/**
+ * Whether the day counts towards the habit's denominator.
+ *
+ * For `timesPerWeek` a day is due while the quota is still open and either the
+ * habit was done that day or the remaining days of the week are needed to hit
+ * the quota, so an untouched week contributes exactly `count` due days.
+ *
+ * Avoid habits succeed by default, so they are only due from `avoidSince`
+ * through `today`; a day that hasn't started can't be kept yet.
+ */
+export function isHabitDue(habit: Habit, date: Date, completions: HabitCompletion, today = new Date()) {
+  if (!isScheduledOn(habit, date)) return false;
+
+  if (isAvoid(habit)) {
+    const key = toDateKey(date);
+    return !!habit.avoidSince && key >= habit.avoidSince && key <= toDateKey(today);
+  }
+
+  const schedule = habit.schedule;
+  if (schedule?.type !== 'timesPerWeek') return true;
+
+  let doneBefore = 0;
+  for (let day = startOfWeek(date, WEEK_OPTIONS); day < date; day = addDays(day, 1)) {
+    if (isDone(habit, completions[toDateKey(day)]?.[habit.id]) && isScheduledOn(habit, day)) doneBefore += 1;
+  }
+
+  const needed = schedule.count - doneBefore;
+  if (needed <= 0) return false;
+  if (isDone(habit, completions[toDateKey(date)]?.[habit.id])) return true;
+
+  let daysLeft = 0;
+  for (let day = date; day <= endOfWeek(date, WEEK_OPTIONS); day = addDays(day, 1)) {
+    if (isScheduledOn(habit, day)) daysLeft += 1;
+  }
+  return daysLeft <= needed;
+}
+
+export function describeSchedule(schedule?: HabitSchedule) {
+  if (!schedule) return 'Every day';
+
+  let label: string;
+  switch (schedule.type) {
+    case 'daily':
+      label = 'Every day';
+      break;
+    case 'weekdays':
+      label = [...schedule.days]
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map(day => WEEKDAY_LABELS[day])
+        .join(', ');
+      break;
+    case 'timesPerWeek':
+      label = `${schedule.count}x / week`;
+      break;
+    case 'interval':
+      label = schedule.every === 1 ? 'Every day' : `Every ${schedule.every} days`;
+      break;
+  }
+
+  if (schedule.ranges && schedule.ranges.length > 0) {
+    const ranges = schedule.ranges.map(range => `${range.from} → ${range.to ?? '…'}`).join(', ');
+    label += ` · ${ranges}`;
+  }
+  return label;
+}
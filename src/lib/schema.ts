@@ -0,0 +1,274 @@
+import type { AppSettings, Habit, HabitCompletion, Journal, RemoteState } from '../types';
+import { MAX_DAY_START_HOUR, isTimeZone } from './dates';
+import { MAX_NOTE_LENGTH, isJournalScore } from './journal';
+import { isReminderTime } from './reminders';
+import { isLogged } from './scoring';
+
+/**
+ * Version of the `RemoteState` document. Bump it together with a new entry in
+ * `MIGRATIONS` whenever `Habit`, `HabitStatus`, `JournalEntry` or `AppSettings` change shape.
+ *
+ * 1. `{ habits: { id, name }[], completions }`, no version field
+ * 2. habit schedules, `settings`, statuses limited to `true | 'skipped'`
+ * 3. measured habits: `habit.target`, amounts as statuses
+ * 4. avoid habits: `habit.polarity`, `habit.avoidSince`, `SlipLog` statuses
+ * 5. `habit.reminders`, `settings.dailyDigest`
+ * 6. `habit.group`, `habit.archivedOn`, `settings.collapsedGroups`
+ * 7. `habit.createdAt`, `habit.startDate`, `habit.endDate`
+ * 8. `settings.timeZone`, `settings.dayStartHour`
+ * 9. `journal`: per-day mood, energy and note, per-cell notes and skip reasons
+ */
+export const SCHEMA_VERSION = 9;
+
+type Doc = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Doc => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** `MIGRATIONS[n]` upgrades a version-n document to version n + 1. */
+const MIGRATIONS: Record<number, (doc: Doc) => Doc> = {
+  1: doc => {
+    // `false` used to mean "not done"; it is now just a missing entry.
+    const completions: Doc = {};
+    if (isRecord(doc.completions)) {
+      Object.entries(doc.completions).forEach(([date, day]) => {
+        if (!isRecord(day)) return;
+        const kept = Object.fromEntries(Object.entries(day).filter(([, status]) => status === true || status === 'skipped'));
+        if (Object.keys(kept).length > 0) completions[date] = kept;
+      });
+    }
+    return { ...doc, completions, settings: isRecord(doc.settings) ? doc.settings : {} };
+  },
+  // Only adds optional fields; version 2 documents are already valid.
+  2: doc => doc,
+  3: doc => doc,
+  4: doc => doc,
+  5: doc => doc,
+  // Habits without a start date keep counting on every day, as before.
+  6: doc => doc,
+  // No time zone or rollover hour means the device's midnight, as before.
+  7: doc => doc,
+  8: doc => doc
+};
+
+/** Upgrades any known older document to `SCHEMA_VERSION`. Unknown shapes pass through for validation to reject. */
+export function migrateState(raw: unknown): unknown {
+  if (!isRecord(raw)) return raw;
+
+  let doc = raw;
+  let version = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 1;
+  while (version < SCHEMA_VERSION && MIGRATIONS[version]) {
+    doc = MIGRATIONS[version](doc);
+    version += 1;
+  }
+  return { ...doc, schemaVersion: version };
+}
+
+// -----------------------
+// Validation
+// -----------------------
+
+const isDateKey = (value: unknown): value is string => typeof value === 'string' && DATE_KEY.test(value);
+
+const isPositiveInt = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+function checkSchedule(schedule: unknown, path: string, errors: string[]) {
+  if (!isRecord(schedule)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+
+  switch (schedule.type) {
+    case 'daily':
+      break;
+    case 'weekdays':
+      if (
+        !Array.isArray(schedule.days) ||
+        schedule.days.length === 0 ||
+        !schedule.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)
+      ) {
+        errors.push(`${path}.days: expected weekdays 0-6`);
+      }
+      break;
+    case 'timesPerWeek':
+      if (!isPositiveInt(schedule.count) || (schedule.count as number) > 7) errors.push(`${path}.count: expected 1-7`);
+      break;
+    case 'interval':
+      if (!isPositiveInt(schedule.every)) errors.push(`${path}.every: expected a positive integer`);
+      if (!isDateKey(schedule.anchor)) errors.push(`${path}.anchor: expected yyyy-MM-dd`);
+      break;
+    default:
+      errors.push(`${path}.type: unknown schedule type`);
+  }
+
+  if (schedule.ranges === undefined) return;
+  if (!Array.isArray(schedule.ranges)) {
+    errors.push(`${path}.ranges: expected an array`);
+    return;
+  }
+  schedule.ranges.forEach((range, i) => {
+    if (!isRecord(range) || !isDateKey(range.from) || (range.to !== undefined && !isDateKey(range.to))) {
+      errors.push(`${path}.ranges[${i}]: expected { from, to? } as yyyy-MM-dd`);
+    }
+  });
+}
+
+export function checkHabit(habit: unknown, path = 'habit', errors: string[] = []) {
+  if (!isRecord(habit)) {
+    errors.push(`${path}: expected an object`);
+    return errors;
+  }
+  if (typeof habit.id !== 'string' || habit.id === '') errors.push(`${path}.id: expected a non-empty string`);
+  if (typeof habit.name !== 'string' || habit.name.trim() === '') errors.push(`${path}.name: expected a non-empty string`);
+  if (habit.schedule !== undefined) checkSchedule(habit.schedule, `${path}.schedule`, errors);
+  if (habit.target !== undefined) {
+    const target = habit.target;
+    if (!isRecord(target) || typeof target.amount !== 'number' || !(target.amount > 0) || !Number.isFinite(target.amount)) {
+      errors.push(`${path}.target.amount: expected a positive number`);
+    }
+    if (!isRecord(target) || typeof target.unit !== 'string') errors.push(`${path}.target.unit: expected a string`);
+  }
+  if (habit.polarity !== undefined && habit.polarity !== 'build' && habit.polarity !== 'avoid') {
+    errors.push(`${path}.polarity: expected 'build' or 'avoid'`);
+  }
+  if (habit.polarity === 'avoid') {
+    if (!isDateKey(habit.avoidSince)) errors.push(`${path}.avoidSince: expected yyyy-MM-dd for an avoid habit`);
+    if (habit.target !== undefined) errors.push(`${path}.target: avoid habits can't have a target`);
+  }
+  if (habit.reminders !== undefined && (!Array.isArray(habit.reminders) || !habit.reminders.every(isReminderTime))) {
+    errors.push(`${path}.reminders: expected an array of HH:mm times`);
+  }
+  if (habit.group !== undefined && typeof habit.group !== 'string') errors.push(`${path}.group: expected a string`);
+  if (habit.archivedOn !== undefined && !isDateKey(habit.archivedOn)) errors.push(`${path}.archivedOn: expected yyyy-MM-dd`);
+  if (habit.createdAt !== undefined && (typeof habit.createdAt !== 'string' || Number.isNaN(Date.parse(habit.createdAt)))) {
+    errors.push(`${path}.createdAt: expected an ISO timestamp`);
+  }
+  if (habit.startDate !== undefined && !isDateKey(habit.startDate)) errors.push(`${path}.startDate: expected yyyy-MM-dd`);
+  if (habit.endDate !== undefined && !isDateKey(habit.endDate)) errors.push(`${path}.endDate: expected yyyy-MM-dd`);
+  if (isDateKey(habit.startDate) && isDateKey(habit.endDate) && habit.endDate < habit.startDate) {
+    errors.push(`${path}.endDate: expected on or after startDate`);
+  }
+  return errors;
+}
+
+export function checkSettings(settings: unknown, path = 'settings', errors: string[] = []) {
+  if (!isRecord(settings)) {
+    errors.push(`${path}: expected an object`);
+    return errors;
+  }
+  if (settings.skipPreservesStreak !== undefined && typeof settings.skipPreservesStreak !== 'boolean') {
+    errors.push(`${path}.skipPreservesStreak: expected a boolean`);
+  }
+  if (settings.dailyDigest !== undefined && typeof settings.dailyDigest !== 'boolean') {
+    errors.push(`${path}.dailyDigest: expected a boolean`);
+  }
+  if (
+    settings.collapsedGroups !== undefined &&
+    (!Array.isArray(settings.collapsedGroups) || !settings.collapsedGroups.every(group => typeof group === 'string'))
+  ) {
+    errors.push(`${path}.collapsedGroups: expected an array of group names`);
+  }
+  if (settings.timeZone !== undefined && settings.timeZone !== '' && !isTimeZone(settings.timeZone)) {
+    errors.push(`${path}.timeZone: expected an IANA time zone such as 'Europe/Berlin'`);
+  }
+  if (
+    settings.dayStartHour !== undefined &&
+    (!Number.isInteger(settings.dayStartHour) || (settings.dayStartHour as number) < 0 || (settings.dayStartHour as number) > MAX_DAY_START_HOUR)
+  ) {
+    errors.push(`${path}.dayStartHour: expected a whole hour from 0 to ${MAX_DAY_START_HOUR}`);
+  }
+  return errors;
+}
+
+function checkCompletions(completions: unknown, errors: string[]) {
+  if (!isRecord(completions)) {
+    errors.push('completions: expected an object');
+    return;
+  }
+
+  Object.entries(completions).forEach(([date, day]) => {
+    if (!isDateKey(date)) {
+      errors.push(`completions.${date}: expected a yyyy-MM-dd key`);
+      return;
+    }
+    if (!isRecord(day)) {
+      errors.push(`completions.${date}: expected an object`);
+      return;
+    }
+    Object.entries(day).forEach(([habitId, status]) => {
+      if (!isLogged(status) && status !== undefined) {
+        errors.push(`completions.${date}.${habitId}: expected true, 'skipped', an amount or { slips, note? }`);
+      }
+    });
+  });
+}
+
+const isNote = (value: unknown) => typeof value === 'string' && value.length <= MAX_NOTE_LENGTH;
+
+/** One day of the journal; `/api/journal/:date` checks bodies with it. */
+export function checkJournalEntry(entry: unknown, path = 'entry', errors: string[] = []) {
+  if (!isRecord(entry)) {
+    errors.push(`${path}: expected an object`);
+    return errors;
+  }
+  if (entry.mood !== undefined && !isJournalScore(entry.mood)) errors.push(`${path}.mood: expected 1-5`);
+  if (entry.energy !== undefined && !isJournalScore(entry.energy)) errors.push(`${path}.energy: expected 1-5`);
+  if (entry.note !== undefined && !isNote(entry.note)) errors.push(`${path}.note: expected at most ${MAX_NOTE_LENGTH} characters`);
+  if (entry.cells === undefined) return errors;
+  if (!isRecord(entry.cells)) {
+    errors.push(`${path}.cells: expected an object`);
+    return errors;
+  }
+  Object.entries(entry.cells).forEach(([habitId, cell]) => {
+    if (!isRecord(cell) || (cell.note !== undefined && !isNote(cell.note)) || (cell.reason !== undefined && !isNote(cell.reason))) {
+      errors.push(`${path}.cells.${habitId}: expected { note?, reason? } strings`);
+    }
+  });
+  return errors;
+}
+
+function checkJournal(journal: unknown, errors: string[]) {
+  if (!isRecord(journal)) {
+    errors.push('journal: expected an object');
+    return;
+  }
+  Object.entries(journal).forEach(([date, entry]) => {
+    if (!isDateKey(date)) errors.push(`journal.${date}: expected a yyyy-MM-dd key`);
+    else checkJournalEntry(entry, `journal.${date}`, errors);
+  });
+}
+
+export type ParseResult<T> = { ok: true; value: T; errors?: undefined } | { ok: false; value?: undefined; errors: string[] };
+
+/** Migrates then validates a whole `RemoteState` document. */
+export function parseState(raw: unknown): ParseResult<RemoteState> {
+  const doc = migrateState(raw);
+  if (!isRecord(doc)) return { ok: false, errors: ['expected an object'] };
+
+  const errors: string[] = [];
+  if (doc.schemaVersion !== SCHEMA_VERSION) errors.push(`schemaVersion: unsupported version ${String(doc.schemaVersion)}`);
+
+  if (!Array.isArray(doc.habits)) errors.push('habits: expected an array');
+  else {
+    doc.habits.forEach((habit, i) => checkHabit(habit, `habits[${i}]`, errors));
+    const ids = doc.habits.map(habit => (isRecord(habit) ? habit.id : undefined));
+    if (new Set(ids).size !== ids.length) errors.push('habits: duplicate ids');
+  }
+
+  checkCompletions(doc.completions, errors);
+  if (doc.journal !== undefined) checkJournal(doc.journal, errors);
+  if (doc.settings !== undefined) checkSettings(doc.settings, 'settings', errors);
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      schemaVersion: SCHEMA_VERSION,
+      habits: doc.habits as Habit[],
+      completions: doc.completions as HabitCompletion,
+      journal: (doc.journal ?? {}) as Journal,
+      settings: doc.settings as AppSettings | undefined
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import type { Habit, HabitStatus, SlipLog } from '../types';
+
+/** A status that is stored, as opposed to an empty cell. */
+export type LoggedStatus = true | 'skipped' | number | SlipLog;
+
+export const isAmount = (status: unknown): status is number =>
+  typeof status === 'number' && Number.isFinite(status) && status >= 0;
+
+export const isSlip = (status: unknown): status is SlipLog =>
+  !!status &&
+  typeof status === 'object' &&
+  Number.isInteger((status as SlipLog).slips) &&
+  (status as SlipLog).slips >= 1 &&
+  ((status as SlipLog).note === undefined || typeof (status as SlipLog).note === 'string');
+
+export const isLogged = (status: unknown): status is LoggedStatus =>
+  status === true || status === 'skipped' || isAmount(status) || isSlip(status);
+
+/** Compares statuses by value; slips are objects. */
+export const sameStatus = (a: HabitStatus, b: HabitStatus) =>
+  a === b || (isSlip(a) && isSlip(b) && a.slips === b.slips && (a.note ?? '') === (b.note ?? ''));
+
+export const isAvoid = (habit: Habit) => habit.polarity === 'avoid';
+
+/**
+ * Whether the day fully counts: ticked, a logged amount that meets the
+ * target, or for an avoid habit any day without a slip.
+ */
+export function isDone(habit: Habit, status: HabitStatus) {
+  if (isAvoid(habit)) return status !== 'skipped' && !isSlip(status);
+  if (status === true) return true;
+  if (!isAmount(status)) return false;
+  return habit.target ? status >= habit.target.amount : status > 0;
+}
+
+/**
+ * Share of a due day that was achieved, 0-1. Measured habits earn partial
+ * credit for logging part of their target.
+ */
+export function creditFor(habit: Habit, status: HabitStatus) {
+  if (isDone(habit, status)) return 1;
+  if (!isAmount(status) || !habit.target || habit.target.amount <= 0) return 0;
+  return status / habit.target.amount;
+}
+
+export const formatAmount = (amount: number) => (Number.isInteger(amount) ? String(amount) : amount.toFixed(1));
+
+export const describeTarget = (habit: Habit) =>
+  habit.target ? `${formatAmount(habit.target.amount)} ${habit.target.unit} / day` : null;
+
+/** Words for a cell, for previews and screen readers. */
+export function describeStatus(habit: Habit, status: HabitStatus | null) {
+  if (status === true) return 'Done';
+  if (status === 'skipped') return 'Skipped';
+  if (isAmount(status)) return `${formatAmount(status)}${habit.target ? ` ${habit.target.unit}` : ''}`;
+  if (isSlip(status)) return `${status.slips} slip${status.slips === 1 ? '' : 's'}`;
+  return isAvoid(habit) ? 'Clean' : 'Empty';
+}
@@ -0,0 +1,16 @@
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+/**
+ * Registers `public/sw.js` once per page and resolves to its registration, or
+ * `null` where service workers are unavailable (old browsers, plain http).
+ */
+export function registerServiceWorker() {
+  registration ??=
+    typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+      ? navigator.serviceWorker.register('/sw.js').catch(err => {
+          console.error('Service worker registration failed', err);
+          return null;
+        })
+      : Promise.resolve(null);
+  return registration;
+}
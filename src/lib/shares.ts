@@ -0,0 +1,163 @@
+import { eachDayOfInterval, format, startOfMonth } from 'date-fns';
+import { DEFAULT_SETTINGS, type AppSettings, type Habit, type HabitCompletion, type RemoteState } from '../types';
+import { UnauthorizedError } from './auth';
+import { fromDateKey, toDateKey } from './dates';
+import { activeHabits } from './groups';
+import { isSlip } from './scoring';
+import { habitStats } from './stats';
+import { computeStreak } from './streaks';
+
+export const MAX_SHARE_LABEL_LENGTH = 80;
+
+/** What a share link shows; every habit and every day unless limited. */
+export interface ShareScope {
+  label: string;
+  // `null` shares every habit that isn't archived, including ones added later.
+  habitIds: string[] | null;
+  // Inclusive yyyy-MM-dd bounds; `null` leaves that end open.
+  from: string | null;
+  to: string | null;
+}
+
+export interface ShareLink extends ShareScope {
+  id: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+/** The read-only dashboard behind a link: no journal, and only the settings the stats read. */
+export interface SharedDashboard extends ShareScope {
+  habits: Habit[];
+  completions: HabitCompletion;
+  settings: Pick<AppSettings, 'skipPreservesStreak' | 'timeZone' | 'dayStartHour'>;
+}
+
+export type BadgeMetric = 'streak' | 'month';
+
+export const BADGE_METRICS: BadgeMetric[] = ['streak', 'month'];
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOptionalDate = (value: unknown) => value === undefined || value === null || (typeof value === 'string' && DATE_KEY.test(value));
+
+/** `POST /api/shares` checks bodies with it. */
+export function checkShareScope(scope: unknown, path = 'share', errors: string[] = []) {
+  if (!isRecord(scope)) {
+    errors.push(`${path}: expected an object`);
+    return errors;
+  }
+  if (scope.label !== undefined && (typeof scope.label !== 'string' || scope.label.length > MAX_SHARE_LABEL_LENGTH)) {
+    errors.push(`${path}.label: expected at most ${MAX_SHARE_LABEL_LENGTH} characters`);
+  }
+  if (
+    scope.habitIds !== undefined &&
+    scope.habitIds !== null &&
+    (!Array.isArray(scope.habitIds) || scope.habitIds.length === 0 || !scope.habitIds.every(id => typeof id === 'string'))
+  ) {
+    errors.push(`${path}.habitIds: expected null or a non-empty array of habit ids`);
+  }
+  if (!isOptionalDate(scope.from)) errors.push(`${path}.from: expected yyyy-MM-dd`);
+  if (!isOptionalDate(scope.to)) errors.push(`${path}.to: expected yyyy-MM-dd`);
+  if (typeof scope.from === 'string' && typeof scope.to === 'string' && scope.to < scope.from) {
+    errors.push(`${path}.to: expected on or after from`);
+  }
+  return errors;
+}
+
+/** A checked body with its defaults filled in. */
+export const readShareScope = (scope: Record<string, unknown>): ShareScope => ({
+  label: typeof scope.label === 'string' ? scope.label.trim() : '',
+  habitIds: Array.isArray(scope.habitIds) ? [...new Set(scope.habitIds as string[])] : null,
+  from: typeof scope.from === 'string' ? scope.from : null,
+  to: typeof scope.to === 'string' ? scope.to : null
+});
+
+/** The part of `state` a link with `scope` may see. */
+export function sharedDashboard(state: RemoteState, scope: ShareScope): SharedDashboard {
+  const habits = scope.habitIds ? state.habits.filter(habit => scope.habitIds.includes(habit.id)) : activeHabits(state.habits);
+  const ids = new Set(habits.map(habit => habit.id));
+
+  const completions: HabitCompletion = {};
+  Object.entries(state.completions).forEach(([date, cells]) => {
+    if ((scope.from && date < scope.from) || (scope.to && date > scope.to)) return;
+    // Slip notes are as private as the journal; only the count is shared.
+    const shown = Object.entries(cells)
+      .filter(([habitId]) => ids.has(habitId))
+      .map(([habitId, status]) => [habitId, isSlip(status) ? { slips: status.slips } : status]);
+    if (shown.length > 0) completions[date] = Object.fromEntries(shown);
+  });
+
+  // Stored settings only hold what the owner changed; the app shows the rest at their defaults.
+  const { skipPreservesStreak, timeZone, dayStartHour } = { ...DEFAULT_SETTINGS, ...state.settings };
+  return { ...scope, habits, completions, settings: { skipPreservesStreak, timeZone, dayStartHour } };
+}
+
+/** The day a shared dashboard is read on: the owner's today, or the end of a range already over. */
+export const sharedToday = (dashboard: ShareScope, today: Date) =>
+  dashboard.to && dashboard.to < toDateKey(today) ? fromDateKey(dashboard.to) : today;
+
+export interface Badge {
+  label: string;
+  message: string;
+  // 0-1, picks the badge colour.
+  level: number;
+}
+
+/** "GYM | 12 day streak" or "GYM | 87% Oct" for the habit's badge. */
+export function badgeFor(habit: Habit, dashboard: SharedDashboard, today: Date, metric: BadgeMetric): Badge {
+  const end = sharedToday(dashboard, today);
+  if (metric === 'streak') {
+    const { current } = computeStreak(habit, dashboard.completions, end, dashboard.settings);
+    return { label: habit.name, message: `${current} day streak`, level: current > 0 ? 1 : 0 };
+  }
+
+  const monthStart = startOfMonth(end);
+  const start = dashboard.from && fromDateKey(dashboard.from) > monthStart ? fromDateKey(dashboard.from) : monthStart;
+  const days = start <= end ? eachDayOfInterval({ start, end }) : [];
+  const { percentage } = habitStats(habit, days, dashboard.completions, end);
+  return { label: habit.name, message: `${percentage}% ${format(end, 'MMM')}`, level: percentage / 100 };
+}
+
+// -----------------------
+// Client
+// -----------------------
+
+export const shareUrl = (origin: string, token: string) => `${origin}/share/${token}`;
+
+export const badgeUrl = (origin: string, token: string, habitId: string, metric: BadgeMetric) =>
+  `${origin}/api/shared/${token}/badge/${encodeURIComponent(habitId)}?metric=${metric}`;
+
+export async function fetchShareLinks(): Promise<ShareLink[]> {
+  const res = await fetch('/api/shares');
+  if (res.status === 401) throw new UnauthorizedError();
+  if (!res.ok) throw new Error(`GET /api/shares failed: ${res.status}`);
+  return res.json();
+}
+
+/** Creates a link; its token is only ever returned here. */
+export async function createShareLink(scope: ShareScope): Promise<{ link: ShareLink; token: string }> {
+  const res = await fetch('/api/shares', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(scope)
+  });
+  if (res.status === 401) throw new UnauthorizedError();
+  if (!res.ok) throw new Error(`POST /api/shares failed: ${res.status}`);
+  return res.json();
+}
+
+export async function revokeShareLink(id: string) {
+  const res = await fetch(`/api/shares/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (res.status === 401) throw new UnauthorizedError();
+  if (!res.ok && res.status !== 404) throw new Error(`DELETE /api/shares/${id} failed: ${res.status}`);
+}
+
+/** `null` when the link was revoked or never existed. */
+export async function fetchSharedDashboard(token: string): Promise<SharedDashboard | null> {
+  const res = await fetch(`/api/shared/${encodeURIComponent(token)}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`GET /api/shared failed: ${res.status}`);
+  return res.json();
+}
@@ -0,0 +1,108 @@
+import { eachDayOfInterval, endOfMonth, format, startOfMonth } from 'date-fns';
+import type { Habit, HabitCompletion } from '../types';
+import { toDateKey } from './dates';
+import { isHabitDue } from './schedule';
+import { creditFor } from './scoring';
+
+export interface HabitStats {
+  // Credit earned; fractional for measured habits.
+  count: number;
+  // Due days that weren't skipped.
+  total: number;
+  // 0-100.
+  percentage: number;
+}
+
+export interface DayProgress {
+  day: string;
+  percentage: number;
+  completed: number;
+}
+
+export interface OverallStats {
+  // Percent earned and its complement, for the quota pie.
+  completed: number;
+  incomplete: number;
+}
+
+export interface MonthStats {
+  name: string;
+  fullName: string;
+  percentage: number;
+  totalPossible: number;
+  totalCompleted: number;
+  isFuture: boolean;
+}
+
+const percent = (earned: number, due: number) => (due === 0 ? 0 : Math.round((earned / due) * 100));
+
+/**
+ * Credit earned over due days, the basis of every efficiency figure: a day
+ * counts only when `isHabitDue` says so, 'skipped' days are left out, and
+ * partial amounts earn partial credit.
+ */
+function tally(habits: Habit[], days: Date[], completions: HabitCompletion, today: Date) {
+  let earned = 0;
+  let due = 0;
+  days.forEach(day => {
+    const dateKey = toDateKey(day);
+    habits.forEach(habit => {
+      if (!isHabitDue(habit, day, completions, today)) return;
+      const status = completions[dateKey]?.[habit.id];
+      if (status === 'skipped') return;
+      due += 1;
+      earned += creditFor(habit, status);
+    });
+  });
+  return { earned, due };
+}
+
+/** One habit over the shown days; the Daily Matrix efficiency column. */
+export function habitStats(habit: Habit, days: Date[], completions: HabitCompletion, today = new Date()): HabitStats {
+  const { earned, due } = tally([habit], days, completions, today);
+  return { count: earned, total: due, percentage: percent(earned, due) };
+}
+
+/** Several habits pooled, e.g. a group: days are weighted equally, not habits. */
+export function combinedStats(habits: Habit[], days: Date[], completions: HabitCompletion, today = new Date()): HabitStats {
+  const { earned, due } = tally(habits, days, completions, today);
+  return { count: earned, total: due, percentage: percent(earned, due) };
+}
+
+/** Per-day efficiency for the Performance Curve; `label` formats the x-axis. */
+export function dailyProgress(
+  habits: Habit[],
+  days: Date[],
+  completions: HabitCompletion,
+  label = 'd',
+  today = new Date()
+): DayProgress[] {
+  return days.map(day => {
+    const { earned, due } = tally(habits, [day], completions, today);
+    return { day: format(day, label), percentage: percent(earned, due), completed: Math.round(earned * 10) / 10 };
+  });
+}
+
+/** Efficiency over all shown days, split for the quota pie. */
+export function overallStats(habits: Habit[], days: Date[], completions: HabitCompletion, today = new Date()): OverallStats {
+  const { earned, due } = tally(habits, days, completions, today);
+  const percentage = percent(earned, due);
+  return { completed: percentage, incomplete: due === 0 ? 0 : 100 - percentage };
+}
+
+/** January through December of `year`. */
+export function yearStats(habits: Habit[], completions: HabitCompletion, year: number, today = new Date()): MonthStats[] {
+  return Array.from({ length: 12 }, (_, month) => {
+    const monthDate = new Date(year, month, 1);
+    const days = eachDayOfInterval({ start: startOfMonth(monthDate), end: endOfMonth(monthDate) });
+    const { earned, due } = tally(habits, days, completions, today);
+    return {
+      name: format(monthDate, 'MMM'),
+      fullName: format(monthDate, 'MMMM'),
+      percentage: percent(earned, due),
+      totalPossible: due,
+      totalCompleted: Math.round(earned),
+      isFuture: monthDate > today
+    };
+  });
+}
@@ -0,0 +1,105 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import type { Habit, HabitCompletion } from '../types';
+import { fromDateKey, toDateKey } from './dates';
+import { isHabitDue } from './schedule';
+import { isAvoid, isDone, isSlip } from './scoring';
+
+export interface StreakOptions {
+  skipPreservesStreak: boolean;
+}
+
+export interface HabitStreak {
+  current: number;
+  longest: number;
+  // Day of the most recent miss that ended a running streak.
+  lastBrokenOn: string | null;
+}
+
+const EMPTY_STREAK: HabitStreak = { current: 0, longest: 0, lastBrokenOn: null };
+
+const firstLoggedDay = (habitId: string, completions: HabitCompletion) => {
+  let first: string | null = null;
+  for (const key of Object.keys(completions)) {
+    if (completions[key]?.[habitId] === undefined) continue;
+    if (first === null || key < first) first = key;
+  }
+  return first;
+};
+
+/**
+ * Walks the habit's whole history up to `today`. Days the habit is not due
+ * are neutral, and so is an unfinished `today` because it can still be done.
+ * A measured habit only extends its streak on days that meet the target.
+ */
+export function computeStreak(
+  habit: Habit,
+  completions: HabitCompletion,
+  today: Date,
+  options: StreakOptions
+): HabitStreak {
+  const first = isAvoid(habit) ? habit.avoidSince : firstLoggedDay(habit.id, completions);
+  if (!first) return EMPTY_STREAK;
+
+  const end = startOfDay(today);
+  let run = 0;
+  let longest = 0;
+  let lastBrokenOn: string | null = null;
+
+  for (let day = fromDateKey(first); day <= end; day = addDays(day, 1)) {
+    if (!isHabitDue(habit, day, completions, today)) continue;
+
+    const key = toDateKey(day);
+    const status = completions[key]?.[habit.id];
+
+    if (isDone(habit, status)) {
+      run += 1;
+      longest = Math.max(longest, run);
+    } else if (status === 'skipped' && options.skipPreservesStreak) {
+      continue;
+    } else if (status !== 'skipped' && day.getTime() === end.getTime()) {
+      // Today is still open, including a measured habit that is partway there.
+      continue;
+    } else {
+      if (run > 0) lastBrokenOn = key;
+      run = 0;
+    }
+  }
+
+  return { current: run, longest, lastBrokenOn };
+}
+
+export function computeStreaks(habits: Habit[], completions: HabitCompletion, today: Date, options: StreakOptions) {
+  const streaks: Record<string, HabitStreak> = {};
+  habits.forEach(habit => {
+    streaks[habit.id] = computeStreak(habit, completions, today, options);
+  });
+  return streaks;
+}
+
+export interface SlipSummary {
+  lastSlipOn: string | null;
+  // Whole days since the last slip, or since tracking began without one.
+  daysSinceSlip: number;
+  totalSlips: number;
+}
+
+/** Slip history of an avoid habit up to `today`. */
+export function summarizeSlips(habit: Habit, completions: HabitCompletion, today: Date): SlipSummary {
+  const todayKey = toDateKey(today);
+  let lastSlipOn: string | null = null;
+  let totalSlips = 0;
+
+  Object.keys(completions).forEach(key => {
+    const status = completions[key]?.[habit.id];
+    if (!isSlip(status) || key > todayKey || (habit.avoidSince && key < habit.avoidSince)) return;
+    totalSlips += status.slips;
+    if (lastSlipOn === null || key > lastSlipOn) lastSlipOn = key;
+  });
+
+  const from = lastSlipOn ?? habit.avoidSince;
+  return {
+    lastSlipOn,
+    daysSinceSlip: from ? Math.max(0, differenceInCalendarDays(today, fromDateKey(from))) : 0,
+    totalSlips
+  };
+}
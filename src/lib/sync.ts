@@ -0,0 +1,209 @@
+import type { AppSettings, Habit, HabitCompletion, Journal, JournalEntry, RemoteState } from '../types';
+import { UnauthorizedError } from './auth';
+import { sameEntry, withoutHabit } from './journal';
+import { parseState } from './schema';
+import { isLogged, sameStatus, type LoggedStatus } from './scoring';
+
+/** A single granular write against the REST API. */
+export type Mutation =
+  | { type: 'putHabit'; habit: Habit; position: number }
+  | { type: 'deleteHabit'; id: string }
+  | { type: 'putCompletion'; date: string; habitId: string; status: LoggedStatus }
+  | { type: 'deleteCompletion'; date: string; habitId: string }
+  | { type: 'putJournal'; date: string; entry: JournalEntry }
+  | { type: 'deleteJournal'; date: string }
+  | { type: 'putSettings'; settings: AppSettings };
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const diffCompletions = (prev: HabitCompletion, next: HabitCompletion) => {
+  const mutations: Mutation[] = [];
+  const dates = new Set([...Object.keys(prev), ...Object.keys(next)]);
+
+  dates.forEach(date => {
+    // State updates are immutable, so untouched days keep their identity.
+    if (prev[date] === next[date]) return;
+    const before = prev[date] || {};
+    const after = next[date] || {};
+
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach(habitId => {
+      const status = isLogged(after[habitId]) ? after[habitId] : undefined;
+      const previous = isLogged(before[habitId]) ? before[habitId] : undefined;
+      if (sameStatus(status, previous)) return;
+
+      mutations.push(
+        status === undefined
+          ? { type: 'deleteCompletion', date, habitId }
+          : { type: 'putCompletion', date, habitId, status }
+      );
+    });
+  });
+
+  return mutations;
+};
+
+const diffJournal = (prev: Journal, next: Journal): Mutation[] =>
+  [...new Set([...Object.keys(prev), ...Object.keys(next)])]
+    .filter(date => !sameEntry(prev[date], next[date]))
+    .map(date => (next[date] ? { type: 'putJournal', date, entry: next[date] } : { type: 'deleteJournal', date }));
+
+/** The writes that turn `server` (what the server has) into `next` (what the UI shows). */
+export function diffState(server: RemoteState, next: RemoteState): Mutation[] {
+  const nextIds = new Set(next.habits.map(h => h.id));
+  const mutations: Mutation[] = server.habits
+    .filter(habit => !nextIds.has(habit.id))
+    .map(habit => ({ type: 'deleteHabit', id: habit.id }));
+  // A habit's delete takes its history along, so its cells aren't diffed one by one.
+  const prev = mutations.reduce(applyMutation, server);
+
+  next.habits.forEach((habit, position) => {
+    const before = prev.habits[position];
+    if (before && before.id === habit.id && sameJson(before, habit)) return;
+    mutations.push({ type: 'putHabit', habit, position });
+  });
+
+  mutations.push(...diffCompletions(prev.completions, next.completions));
+  mutations.push(...diffJournal(prev.journal ?? {}, next.journal ?? {}));
+
+  if (next.settings && !sameJson(prev.settings, next.settings)) {
+    mutations.push({ type: 'putSettings', settings: next.settings });
+  }
+
+  return mutations;
+}
+
+/** Applies a mutation locally, mirroring what the server does with it. */
+export function applyMutation(state: RemoteState, mutation: Mutation): RemoteState {
+  switch (mutation.type) {
+    case 'putHabit': {
+      const habits = state.habits.filter(h => h.id !== mutation.habit.id);
+      habits.splice(Math.min(mutation.position, habits.length), 0, mutation.habit);
+      return { ...state, habits };
+    }
+    case 'deleteHabit': {
+      const completions: HabitCompletion = {};
+      Object.entries(state.completions).forEach(([date, day]) => {
+        if (!(mutation.id in day)) completions[date] = day;
+        else {
+          const { [mutation.id]: _, ...rest } = day;
+          if (Object.keys(rest).length > 0) completions[date] = rest;
+        }
+      });
+      return {
+        ...state,
+        habits: state.habits.filter(h => h.id !== mutation.id),
+        completions,
+        ...(state.journal ? { journal: withoutHabit(state.journal, mutation.id) } : {})
+      };
+    }
+    case 'putCompletion':
+    case 'deleteCompletion': {
+      const day = { ...(state.completions[mutation.date] || {}) };
+      if (mutation.type === 'putCompletion') day[mutation.habitId] = mutation.status;
+      else delete day[mutation.habitId];
+      return { ...state, completions: { ...state.completions, [mutation.date]: day } };
+    }
+    case 'putJournal':
+      return { ...state, journal: { ...state.journal, [mutation.date]: mutation.entry } };
+    case 'deleteJournal': {
+      const { [mutation.date]: _, ...journal } = state.journal ?? {};
+      return { ...state, journal };
+    }
+    case 'putSettings':
+      return { ...state, settings: mutation.settings };
+  }
+}
+
+const toRequest = (mutation: Mutation): { url: string; method: string; body?: unknown } => {
+  switch (mutation.type) {
+    case 'putHabit':
+      return {
+        url: `/api/habits/${encodeURIComponent(mutation.habit.id)}`,
+        method: 'PUT',
+        body: { ...mutation.habit, position: mutation.position }
+      };
+    case 'deleteHabit':
+      return { url: `/api/habits/${encodeURIComponent(mutation.id)}`, method: 'DELETE' };
+    case 'putCompletion':
+      return {
+        url: `/api/completions/${mutation.date}/${encodeURIComponent(mutation.habitId)}`,
+        method: 'PUT',
+        body: { status: mutation.status }
+      };
+    case 'deleteCompletion':
+      return { url: `/api/completions/${mutation.date}/${encodeURIComponent(mutation.habitId)}`, method: 'DELETE' };
+    case 'putJournal':
+      return { url: `/api/journal/${mutation.date}`, method: 'PUT', body: mutation.entry };
+    case 'deleteJournal':
+      return { url: `/api/journal/${mutation.date}`, method: 'DELETE' };
+    case 'putSettings':
+      return { url: '/api/settings', method: 'PUT', body: mutation.settings };
+  }
+};
+
+/** The server rejected a write because another client saved first. */
+export class ConflictError extends Error {
+  constructor(readonly revision: string | null) {
+    super('Revision conflict');
+  }
+}
+
+/** The server refused the write itself; retrying it won't help. */
+export class RejectedError extends Error {}
+
+/**
+ * Sends one write conditioned on `revision` (the last ETag seen) and returns
+ * the revision the server moved to.
+ */
+export async function sendMutation(mutation: Mutation, revision: string | null) {
+  const { url, method, body } = toRequest(mutation);
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['content-type'] = 'application/json';
+  if (revision) headers['if-match'] = revision;
+
+  const res = await fetch(url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  if (res.status === 401) throw new UnauthorizedError();
+  if (res.status === 409) throw new ConflictError(res.headers.get('etag'));
+  if (res.status === 400 || res.status === 422) throw new RejectedError(`${method} ${url} rejected: ${res.status}`);
+  if (!res.ok) throw new Error(`${method} ${url} failed: ${res.status}`);
+  return res.headers.get('etag');
+}
+
+export async function fetchState() {
+  const res = await fetch('/api/state', { method: 'GET' });
+  if (res.status === 401) throw new UnauthorizedError();
+  if (!res.ok) throw new Error(`GET /api/state failed: ${res.status}`);
+
+  // Refuse to hydrate from a malformed payload rather than saving over it later.
+  const parsed = parseState(await res.json());
+  if (!parsed.ok) throw new Error(`GET /api/state returned invalid state: ${parsed.errors.join('; ')}`);
+
+  return { state: parsed.value, revision: res.headers.get('etag') };
+}
+
+const cellOf = (mutation: Mutation) =>
+  mutation.type === 'putCompletion' || mutation.type === 'deleteCompletion'
+    ? `${mutation.date}|${mutation.habitId}`
+    : mutation.type === 'putJournal' || mutation.type === 'deleteJournal'
+      ? `journal|${mutation.date}`
+      : mutation.type === 'putSettings'
+        ? 'settings'
+        : null;
+
+/**
+ * Appends `next` to a queue, dropping queued writes they overwrite. Only
+ * cell, journal and settings writes are folded; habit writes depend on order.
+ */
+export function enqueue(queue: Mutation[], next: Mutation[]) {
+  const replaced = new Set(next.map(cellOf).filter(Boolean));
+  return [...queue.filter(m => !replaced.has(cellOf(m))), ...next];
+}
+
+/** Replays local, not-yet-saved changes on top of a fresher server state. */
+export function rebase(server: RemoteState, local: Mutation[]) {
+  return local.reduce(applyMutation, server);
+}
@@ -0,0 +1,343 @@
+import type { Habit, HabitCompletion, Journal, RemoteState } from '../types';
+import { UnauthorizedError } from './auth';
+import { cellNoteOf } from './journal';
+import { SCHEMA_VERSION, parseState, type ParseResult } from './schema';
+import { isAmount, isLogged, isSlip, sameStatus } from './scoring';
+
+export type TransferFormat = 'json' | 'csv';
+
+/** `merge` keeps existing data and lays the import on top; `replace` discards it. */
+export type ImportMode = 'merge' | 'replace';
+
+const CSV_HEADER = ['date', 'habit_id', 'habit', 'status', 'note', 'reason', 'slip_note'];
+
+const SLIP_STATUS = /^slip(?::(\d+))?$/;
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// -----------------------
+// Export
+// -----------------------
+
+export const exportJson = (state: RemoteState) => JSON.stringify({ ...state, schemaVersion: SCHEMA_VERSION }, null, 2);
+
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * One row per logged cell, oldest first; `status` is `done`, `skipped`, the
+ * amount logged for a measured habit or `slip:<count>` for an avoid habit.
+ * `note` and `reason` come from the journal, `slip_note` from the slip itself.
+ * Cells that only carry a note get an empty status. Only history is exported;
+ * schedules, settings and the day's mood and energy need the JSON format.
+ */
+export function exportCsv(state: RemoteState) {
+  const names = new Map(state.habits.map(h => [h.id, h.name]));
+  const journal = state.journal ?? {};
+  const rows = [CSV_HEADER];
+
+  [...new Set([...Object.keys(state.completions), ...Object.keys(journal)])].sort().forEach(date => {
+    const day = state.completions[date] ?? {};
+    const habitIds = new Set([...Object.keys(day).filter(habitId => isLogged(day[habitId])), ...Object.keys(journal[date]?.cells ?? {})]);
+    habitIds.forEach(habitId => {
+      const status = day[habitId];
+      const cell = cellNoteOf(journal, date, habitId);
+      const value =
+        status === true ? 'done' : status === 'skipped' ? 'skipped' : isSlip(status) ? `slip:${status.slips}` : isAmount(status) ? String(status) : '';
+      const slipNote = isSlip(status) ? (status.note ?? '') : '';
+      rows.push([date, habitId, names.get(habitId) ?? '', value, cell?.note ?? '', cell?.reason ?? '', slipNote]);
+    });
+  });
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export const exportFileName = (format: TransferFormat, date: string) => `habit-mastery-${date}.${format}`;
+
+// -----------------------
+// Import
+// -----------------------
+
+/** Splits RFC 4180 CSV into rows of cells. */
+function readCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += char;
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+/**
+ * Builds a `RemoteState` from `date,habit_id,habit,status[,note,reason,slip_note]`
+ * rows. `habit_id` may be empty, in which case rows are grouped by habit name.
+ * Habits with slips come back as avoid habits counted from their first row.
+ * Without a `slip_note` column, a slip row's `note` is taken as the slip's.
+ */
+export function parseCsv(text: string): ParseResult<RemoteState> {
+  const [header, ...rows] = readCsv(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(c => c.trim().toLowerCase());
+  const col = (name: string) => columns.indexOf(name);
+
+  const errors: string[] = [];
+  if (col('date') < 0 || col('status') < 0 || (col('habit') < 0 && col('habit_id') < 0)) {
+    return { ok: false, errors: ['header: expected date, habit_id and/or habit, status'] };
+  }
+
+  const habits: Habit[] = [];
+  const byKey = new Map<string, Habit>();
+  const completions: HabitCompletion = {};
+  const journal: Journal = {};
+  const firstRow = new Map<string, string>();
+
+  rows.forEach((row, i) => {
+    const line = `line ${i + 2}`;
+    const date = (row[col('date')] ?? '').trim();
+    const id = col('habit_id') >= 0 ? (row[col('habit_id')] ?? '').trim() : '';
+    const name = col('habit') >= 0 ? (row[col('habit')] ?? '').trim() : '';
+    const status = (row[col('status')] ?? '').trim().toLowerCase();
+    const amount = status === '' ? NaN : Number(status);
+    const slip = SLIP_STATUS.exec(status);
+    const note = col('note') >= 0 ? (row[col('note')] ?? '').trim() : '';
+    const reason = col('reason') >= 0 ? (row[col('reason')] ?? '').trim() : '';
+    const slipNote = col('slip_note') >= 0 ? (row[col('slip_note')] ?? '').trim() : slip ? note : '';
+    const cellNote = col('slip_note') >= 0 || !slip ? note : '';
+
+    if (!DATE_KEY.test(date)) errors.push(`${line}.date: expected yyyy-MM-dd`);
+    if (!id && !name) errors.push(`${line}: expected a habit id or name`);
+    if (!['done', 'skipped', 'true', ''].includes(status) && !isAmount(amount) && !(slip && slip[1] !== '0')) {
+      errors.push(`${line}.status: expected done, skipped, an amount or slip:<count>`);
+    }
+    if (errors.length > 0) return;
+
+    const key = id || `name:${name.toLowerCase()}`;
+    let habit = byKey.get(key);
+    if (!habit) {
+      habit = { id: id || `csv-${habits.length + 1}`, name: name || id };
+      byKey.set(key, habit);
+      habits.push(habit);
+    }
+    if (!firstRow.has(habit.id) || date < firstRow.get(habit.id)) firstRow.set(habit.id, date);
+    // Slip notes live on the slip; every other note and reason goes to the journal.
+    if (cellNote || reason) {
+      const day = (journal[date] ??= {});
+      (day.cells ??= {})[habit.id] = { ...(cellNote ? { note: cellNote } : {}), ...(reason ? { reason } : {}) };
+    }
+    // An empty status is a cell the source tracked but never logged.
+    if (status === '') return;
+    if (slip) habit.polarity = 'avoid';
+    (completions[date] ??= {})[habit.id] = slip
+      ? { slips: Number(slip[1] ?? 1), ...(slipNote ? { note: slipNote } : {}) }
+      : status === 'skipped'
+        ? 'skipped'
+        : isAmount(amount)
+          ? amount
+          : true;
+  });
+
+  if (errors.length > 0) return { ok: false, errors: errors.slice(0, 20) };
+  habits.forEach(habit => {
+    if (habit.polarity === 'avoid') habit.avoidSince = firstRow.get(habit.id);
+  });
+  return parseState({ schemaVersion: SCHEMA_VERSION, habits, completions, journal });
+}
+
+export function parseImport(text: string, format: TransferFormat): ParseResult<RemoteState> {
+  if (format === 'csv') return parseCsv(text);
+  try {
+    return parseState(JSON.parse(text));
+  } catch {
+    return { ok: false, errors: ['expected a JSON document'] };
+  }
+}
+
+/** Guesses the format of an uploaded file from its name, then its content. */
+export const detectFormat = (fileName: string, text: string): TransferFormat =>
+  /\.csv$/i.test(fileName) ? 'csv' : /\.json$/i.test(fileName) ? 'json' : text.trimStart().startsWith('{') ? 'json' : 'csv';
+
+export interface ImportSummary {
+  habitsAdded: number;
+  habitsRemoved: number;
+  // Imported habits that landed on an existing one.
+  habitsMatched: number;
+  cellsAdded: number;
+  cellsChanged: number;
+  cellsRemoved: number;
+  // Imported ids that were rewritten, by name.
+  remapped: { from: string; to: string; name: string }[];
+}
+
+export interface ImportPlan {
+  state: RemoteState;
+  summary: ImportSummary;
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Resolves imported habit ids against `current`: a habit with the same name
+ * keeps the existing id, and an id already used by a different habit gets a
+ * fresh one. Each existing habit takes at most one imported habit, so two
+ * imported habits with the same name stay apart. Completions and cell notes
+ * follow their habit.
+ */
+function remapIds(current: RemoteState, incoming: RemoteState, newId: () => string) {
+  const taken = new Map(current.habits.map(h => [h.id, h]));
+  const claimed = new Set<string>();
+  const ids = new Map<string, string>();
+  const remapped: ImportSummary['remapped'] = [];
+
+  incoming.habits.forEach(habit => {
+    const sameId = taken.get(habit.id);
+    const byName = current.habits.find(h => !claimed.has(h.id) && sameName(h.name, habit.name));
+    const id =
+      sameId && !claimed.has(habit.id) && sameName(sameId.name, habit.name)
+        ? habit.id
+        : byName
+          ? byName.id
+          : sameId || claimed.has(habit.id)
+            ? newId()
+            : habit.id;
+    if (id !== habit.id) remapped.push({ from: habit.id, to: id, name: habit.name });
+    claimed.add(id);
+    ids.set(habit.id, id);
+  });
+
+  const habits = incoming.habits.map(h => ({ ...h, id: ids.get(h.id) }));
+  const completions: HabitCompletion = {};
+  Object.entries(incoming.completions).forEach(([date, day]) => {
+    Object.entries(day).forEach(([habitId, status]) => {
+      if (isLogged(status)) (completions[date] ??= {})[ids.get(habitId) ?? habitId] = status;
+    });
+  });
+
+  const journal: Journal = {};
+  Object.entries(incoming.journal ?? {}).forEach(([date, entry]) => {
+    const cells = Object.fromEntries(Object.entries(entry.cells ?? {}).map(([habitId, note]) => [ids.get(habitId) ?? habitId, note]));
+    journal[date] = { ...entry, ...(entry.cells ? { cells } : {}) };
+  });
+
+  return { habits, completions, journal, remapped };
+}
+
+const countCells = (before: HabitCompletion, after: HabitCompletion) => {
+  let added = 0;
+  let changed = 0;
+  let removed = 0;
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(date => {
+    const a = before[date] || {};
+    const b = after[date] || {};
+    new Set([...Object.keys(a), ...Object.keys(b)]).forEach(habitId => {
+      const was = isLogged(a[habitId]) ? a[habitId] : undefined;
+      const now = isLogged(b[habitId]) ? b[habitId] : undefined;
+      if (sameStatus(was, now)) return;
+      if (was === undefined) added++;
+      else if (now === undefined) removed++;
+      else changed++;
+    });
+  });
+  return { added, changed, removed };
+};
+
+const randomId = () =>
+  typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2, 11);
+
+/**
+ * The state after importing `incoming` into `current`, and what changes. In
+ * `merge` mode existing habits keep their place (imported fields win), new
+ * ones are appended, imported cells overwrite existing ones and journal days
+ * are merged field by field; settings are left alone. `replace` takes the import as is, keeping settings it lacks.
+ */
+export function planImport(current: RemoteState, incoming: RemoteState, mode: ImportMode, newId = randomId): ImportPlan {
+  const { habits: imported, completions: importedCells, journal: importedJournal, remapped } = remapIds(current, incoming, newId);
+  const currentIds = new Set(current.habits.map(h => h.id));
+
+  let state: RemoteState;
+  if (mode === 'replace') {
+    state = {
+      schemaVersion: SCHEMA_VERSION,
+      habits: imported,
+      completions: importedCells,
+      journal: importedJournal,
+      settings: { ...current.settings, ...incoming.settings }
+    };
+  } else {
+    const updates = new Map(imported.map(h => [h.id, h]));
+    const completions: HabitCompletion = { ...current.completions };
+    Object.entries(importedCells).forEach(([date, day]) => {
+      completions[date] = { ...(completions[date] || {}), ...day };
+    });
+    const journal: Journal = { ...current.journal };
+    Object.entries(importedJournal).forEach(([date, entry]) => {
+      const existing = journal[date];
+      journal[date] = existing?.cells && entry.cells ? { ...existing, ...entry, cells: { ...existing.cells, ...entry.cells } } : { ...existing, ...entry };
+    });
+    state = {
+      ...current,
+      schemaVersion: SCHEMA_VERSION,
+      habits: [
+        ...current.habits.map(h => (updates.has(h.id) ? { ...h, ...updates.get(h.id) } : h)),
+        ...imported.filter(h => !currentIds.has(h.id))
+      ],
+      completions,
+      journal
+    };
+  }
+
+  const nextIds = new Set(state.habits.map(h => h.id));
+  const cells = countCells(current.completions, state.completions);
+  return {
+    state,
+    summary: {
+      habitsAdded: state.habits.filter(h => !currentIds.has(h.id)).length,
+      habitsRemoved: current.habits.filter(h => !nextIds.has(h.id)).length,
+      habitsMatched: imported.filter(h => currentIds.has(h.id)).length,
+      cellsAdded: cells.added,
+      cellsChanged: cells.changed,
+      cellsRemoved: cells.removed,
+      remapped
+    }
+  };
+}
+
+// -----------------------
+// Client
+// -----------------------
+
+/**
+ * Imports `text` on the server in one batch (see `POST /api/import`), planned
+ * against what the server has rather than replayed write by write.
+ */
+export async function importRemote(text: string, format: TransferFormat, mode: ImportMode): Promise<ImportSummary> {
+  const res = await fetch(`/api/import?mode=${mode}`, {
+    method: 'POST',
+    headers: { 'content-type': format === 'csv' ? 'text/csv' : 'application/json' },
+    body: text
+  });
+  if (res.status === 401) throw new UnauthorizedError();
+  if (!res.ok) throw new Error(`POST /api/import failed: ${res.status}`);
+  return res.json();
+}
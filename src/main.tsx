@@ -1,10 +1,18 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import SharedView from './components/SharedView.tsx';
 import './index.css';
+import {registerServiceWorker} from './lib/serviceWorker';
+
+// Caches the app shell so the dashboard installs and opens offline.
+registerServiceWorker();
+
+// `/share/:token` is a read-only dashboard opened from a share link, with no sign-in.
+const shareToken = window.location.pathname.match(/^\/share\/([^/]+)\/?$/)?.[1];
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {shareToken ? <SharedView token={decodeURIComponent(shareToken)} /> : <App />}
   </StrictMode>,
 );
@@ -1,9 +1,68 @@
+/** 0 = Sunday ... 6 = Saturday, matching `Date#getDay`. */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/** Inclusive `yyyy-MM-dd` range; an omitted `to` is open-ended. */
+export interface DateRange {
+  from: string;
+  to?: string;
+}
+
+export type ScheduleRule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: Weekday[] }
+  | { type: 'timesPerWeek'; count: number }
+  | { type: 'interval'; every: number; anchor: string };
+
+export type HabitSchedule = ScheduleRule & {
+  // When present, the habit is only due inside one of these ranges.
+  ranges?: DateRange[];
+};
+
+/** Daily amount for a measured habit, e.g. `{ amount: 60, unit: 'min' }`. */
+export interface HabitTarget {
+  amount: number;
+  unit: string;
+}
+
+/**
+ * `build` habits count when ticked. `avoid` habits ("No screentime") count as
+ * kept on every day since `avoidSince` unless a slip is logged.
+ */
+export type HabitPolarity = 'build' | 'avoid';
+
 export interface Habit {
   id: string;
   name: string;
+  // Missing schedule means the habit is due every day.
+  schedule?: HabitSchedule;
+  // Present for measured habits; cells then hold the amount logged.
+  target?: HabitTarget;
+  // Missing means 'build'.
+  polarity?: HabitPolarity;
+  // yyyy-MM-dd; required for avoid habits, days before it don't count.
+  avoidSince?: string;
+  // Local "HH:mm" times to be nudged at while the habit is still unlogged.
+  reminders?: string[];
+  // Section in the Daily Matrix, e.g. "Morning"; missing means ungrouped.
+  group?: string;
+  // yyyy-MM-dd; from this day on the habit is hidden and never due. Earlier days keep their history.
+  archivedOn?: string;
+  // ISO timestamp of when the habit was added.
+  createdAt?: string;
+  // yyyy-MM-dd; the habit only counts from this day, which may be backdated. Missing means it always did.
+  startDate?: string;
+  // yyyy-MM-dd, inclusive; the habit stops counting after this day.
+  endDate?: string;
 }
 
-export type HabitStatus = boolean | 'skipped' | undefined;
+/** Slips logged against an avoid habit on one day. */
+export interface SlipLog {
+  slips: number;
+  note?: string;
+}
+
+/** `true` done, a number is the amount logged for a measured habit, a `SlipLog` a lapse of an avoid habit. */
+export type HabitStatus = boolean | 'skipped' | number | SlipLog | undefined;
 
 export interface HabitCompletion {
   [date: string]: {
@@ -11,20 +70,75 @@ export interface HabitCompletion {
   };
 }
 
+/** Context for one cell: a free note and, on a 'skipped' day, why. */
+export interface CellNote {
+  note?: string;
+  // One of SKIP_REASONS in lib/journal.ts or the user's own words.
+  reason?: string;
+}
+
+/** 1 (low) to 5 (high). */
+export type JournalScore = 1 | 2 | 3 | 4 | 5;
+
+/** How a day went, beside what was logged. Empty entries are not stored. */
+export interface JournalEntry {
+  mood?: JournalScore;
+  energy?: JournalScore;
+  note?: string;
+  // Keyed by habit id, like the day's completions.
+  cells?: { [habitId: string]: CellNote };
+}
+
+export interface Journal {
+  [date: string]: JournalEntry;
+}
+
+export interface AppSettings {
+  // Whether a 'skipped' day keeps a streak alive instead of breaking it.
+  skipPreservesStreak: boolean;
+  // Email an end-of-day list of habits still unlogged; see /api/cron/digest.
+  dailyDigest: boolean;
+  // Daily Matrix groups shown folded.
+  collapsedGroups: string[];
+  // IANA zone days are counted in; empty follows the device. See lib/dates.
+  timeZone: string;
+  // Hours after midnight still logged against the previous day, 0-12.
+  dayStartHour: number;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  skipPreservesStreak: true,
+  dailyDigest: false,
+  collapsedGroups: [],
+  timeZone: '',
+  dayStartHour: 0,
+};
+
+/** Everything persisted through `/api/state`. */
+export interface RemoteState {
+  // See SCHEMA_VERSION in lib/schema.ts; missing means version 1.
+  schemaVersion?: number;
+  habits: Habit[];
+  completions: HabitCompletion;
+  // Missing in documents from before version 9.
+  journal?: Journal;
+  settings?: AppSettings;
+}
+
 export const INITIAL_HABITS: Habit[] = [
-  { id: '1', name: 'Get up at 5:00 AM' },
+  { id: '1', name: 'Get up at 5:00 AM', reminders: ['05:00'] },
   { id: '2', name: 'All prayers in time' },
-  { id: '3', name: 'Study for govt 1 hour' },
-  { id: '4', name: 'Road to Data Analyst 2 hours' },
-  { id: '5', name: 'Business plan and execute 2 hours' },
-  { id: '6', name: 'MMA (Sat, Sun)' },
+  { id: '3', name: 'Study for govt 1 hour', target: { amount: 60, unit: 'min' } },
+  { id: '4', name: 'Road to Data Analyst 2 hours', target: { amount: 120, unit: 'min' } },
+  { id: '5', name: 'Business plan and execute 2 hours', target: { amount: 120, unit: 'min' } },
+  { id: '6', name: 'MMA (Sat, Sun)', schedule: { type: 'weekdays', days: [6, 0] } },
   { id: '7', name: 'Being reserve' },
   { id: '8', name: 'GYM' },
   { id: '9', name: 'Shower' },
   { id: '10', name: 'Daily task' },
   { id: '11', name: 'Project' },
   { id: '12', name: 'Perseverance' },
-  { id: '13', name: 'No screentime & social accounts' },
-  { id: '14', name: 'No waste of time' },
-  { id: '15', name: 'Sleep at 11:00 PM' },
+  { id: '13', name: 'No screentime & social accounts', polarity: 'avoid' },
+  { id: '14', name: 'No waste of time', polarity: 'avoid' },
+  { id: '15', name: 'Sleep at 11:00 PM', reminders: ['22:30'] },
 ];
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, format } from 'date-fns';
+import { correlations, keystoneHabits, outcomeTable, weekdayRates } from '../src/lib/analytics';
+import type { Habit, HabitCompletion } from '../src/types';
+
+const sleep: Habit = { id: 'sleep', name: 'Sleep at 11:00 PM' };
+const wake: Habit = { id: 'wake', name: 'Get up at 5:00 AM' };
+const read: Habit = { id: 'read', name: 'Read' };
+
+// Monday 2 March 2026, four weeks of history.
+const start = new Date(2026, 2, 2);
+const today = addDays(start, 27);
+const key = (offset: number) => format(addDays(start, offset), 'yyyy-MM-dd');
+
+// Sleep on even days; wake the day after every early night; read on weekdays only.
+const completions: HabitCompletion = {};
+for (let i = 0; i < 28; i++) {
+  const day: HabitCompletion[string] = {};
+  if (i % 2 === 0) day.sleep = true;
+  if (i % 2 === 1) day.wake = true;
+  if (i % 7 < 5) day.read = true;
+  completions[key(i)] = day;
+}
+
+const table = outcomeTable([sleep, wake, read], completions, today);
+
+describe('outcomeTable', () => {
+  it('runs from the first logged day to today', () => {
+    expect(table.days).toHaveLength(28);
+    expect(table.credits[0].slice(0, 3)).toEqual([1, 0, 1]);
+  });
+
+  it('leaves skipped days out', () => {
+    const skipped = outcomeTable([read], { [key(0)]: { read: 'skipped' }, [key(1)]: { read: true } }, addDays(start, 1));
+    expect(skipped.credits[0]).toEqual([null, 1]);
+  });
+});
+
+describe('weekdayRates', () => {
+  it('splits success by weekday, Monday first', () => {
+    const rates = weekdayRates(table)[2].rates.map(rate => rate.percentage);
+    expect(rates).toEqual([100, 100, 100, 100, 100, 0, 0]);
+  });
+});
+
+describe('correlations', () => {
+  it('finds a habit that predicts another the next day', () => {
+    const [top] = correlations(table, 1);
+    expect([top.from.id, top.to.id]).toEqual(['sleep', 'wake']);
+    expect(top.coefficient).toBeCloseTo(1);
+    expect([top.rateWhenDone, top.rateWhenMissed]).toEqual([100, 0]);
+  });
+
+  it('lists same-day pairs once', () => {
+    const pairs = correlations(table, 0);
+    expect(pairs.map(p => `${p.from.id}-${p.to.id}`).sort()).toEqual(['sleep-read', 'sleep-wake', 'wake-read']);
+    expect(pairs[0].coefficient).toBeCloseTo(-1);
+  });
+
+  it('needs enough shared days', () => {
+    expect(correlations(table, 1, 60)).toEqual([]);
+  });
+});
+
+describe('keystoneHabits', () => {
+  it('ranks habits by how much better the rest of the day goes', () => {
+    const alwaysWith = (offset: number) => offset % 3 !== 0;
+    const stack: HabitCompletion = {};
+    for (let i = 0; i < 28; i++) stack[key(i)] = alwaysWith(i) ? { sleep: true, wake: true, read: true } : { wake: i % 2 === 0 };
+    const [top] = keystoneHabits(outcomeTable([sleep, wake, read], stack, today));
+
+    expect(top.habit.id).toBe('sleep');
+    expect(top.highWhenMissed).toBe(0);
+    expect(top.lift).toBe(100);
+  });
+});
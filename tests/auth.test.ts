@@ -0,0 +1,40 @@
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { consumeLoginToken, createLoginToken, findOrCreateUser } from '../functions/_lib/auth';
+import { SqliteD1 } from '../server/d1';
+import { applyMigrations } from '../server/migrations';
+import { asD1 } from './helpers';
+
+let d1: SqliteD1;
+
+beforeEach(() => {
+  d1 = new SqliteD1(':memory:');
+  applyMigrations(d1, path.resolve(__dirname, '../migrations'));
+});
+
+describe('consumeLoginToken', () => {
+  it('returns the email once, even for requests racing on the same link', async () => {
+    const token = await createLoginToken(asD1(d1), 'bruce@example.com');
+    const results = await Promise.all([consumeLoginToken(asD1(d1), token), consumeLoginToken(asD1(d1), token)]);
+    expect(results.sort()).toEqual(['bruce@example.com', null].sort());
+    expect(await consumeLoginToken(asD1(d1), token)).toBeNull();
+  });
+
+  it('rejects an expired token', async () => {
+    const token = await createLoginToken(asD1(d1), 'bruce@example.com');
+    d1.db.prepare("UPDATE login_tokens SET expires_at = datetime('now', '-1 minute')").run();
+    expect(await consumeLoginToken(asD1(d1), token)).toBeNull();
+  });
+});
+
+describe('findOrCreateUser', () => {
+  it('creates one account for racing first sign-ins, and only that one takes over legacy data', async () => {
+    d1.db.prepare("INSERT INTO habits (user_id, id, name) VALUES ('legacy', 'gym', 'GYM')").run();
+    const env = { DB: asD1(d1), LEGACY_OWNER_EMAIL: 'Bruce@Example.com' };
+
+    const [first, second] = await Promise.all([findOrCreateUser(env, 'bruce@example.com'), findOrCreateUser(env, 'bruce@example.com')]);
+    expect(second).toEqual(first);
+    expect(d1.db.prepare('SELECT id FROM users').all()).toEqual([{ id: first.id }]);
+    expect(d1.db.prepare('SELECT user_id FROM habits').all()).toEqual([{ user_id: first.id }]);
+  });
+});
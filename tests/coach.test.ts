@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { writeReport } from '../functions/_lib/coach';
+import { stubModel } from '../functions/_lib/model';
+import { analyzeWeeks, draftNarrative } from '../src/lib/coaching';
+import { SCHEMA_VERSION } from '../src/lib/schema';
+import type { RemoteState } from '../src/types';
+
+const state: RemoteState = {
+  schemaVersion: SCHEMA_VERSION,
+  habits: [{ id: 'gym', name: 'GYM' }],
+  completions: { '2026-03-02': { gym: true }, '2026-03-04': { gym: true } },
+  journal: {}
+};
+
+// Reviews the week of Monday 2 March 2026.
+const facts = analyzeWeeks(state, new Date(2026, 2, 10));
+
+describe('writeReport', () => {
+  it("uses the model's narrative when it replies with the expected JSON", async () => {
+    const model = stubModel(({ prompt }) => {
+      expect(prompt).toContain('week of 2026-03-02');
+      return '```json\n{ "headline": "Steady start", "summary": "Two gym days.", "tips": ["Book Friday", 3] }\n```';
+    });
+
+    const report = await writeReport(model, facts);
+    expect(report).toMatchObject({ weekOf: '2026-03-02', model: 'local-stub' });
+    expect(report.narrative).toEqual({ headline: 'Steady start', summary: 'Two gym days.', tips: ['Book Friday'] });
+  });
+
+  it('falls back to the draft when the reply is malformed', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const malformed = await writeReport(stubModel(() => '{ "headline": "Cut off'), facts);
+    const throwing = await writeReport(
+      stubModel(() => {
+        throw new Error('quota');
+      }),
+      facts
+    );
+    warn.mockRestore();
+
+    for (const report of [malformed, throwing]) {
+      expect(report.model).toBe('draft');
+      expect(report.narrative).toEqual(draftNarrative(facts));
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { hoursIntoDay, isTimeZone, logicalToday, toDateKey, wallClock } from '../src/lib/dates';
+import { remindersBetween } from '../src/lib/reminders';
+import type { Habit } from '../src/types';
+
+// 23:30 UTC on Monday 2 March 2026: already Tuesday in Berlin, still Monday in New York.
+const lateMonday = new Date('2026-03-02T23:30:00Z');
+
+describe('wallClock', () => {
+  it('reads the date and time in the given zone', () => {
+    expect(toDateKey(wallClock(lateMonday, 'Europe/Berlin').date)).toBe('2026-03-03');
+    expect(wallClock(lateMonday, 'Europe/Berlin').time).toBe('00:30');
+    expect(toDateKey(wallClock(lateMonday, 'America/New_York').date)).toBe('2026-03-02');
+    expect(wallClock(lateMonday, 'America/New_York').time).toBe('18:30');
+  });
+
+  it('returns the day as local midnight', () => {
+    const { date } = wallClock(lateMonday, 'Asia/Tokyo');
+    expect([date.getHours(), date.getMinutes()]).toEqual([0, 0]);
+  });
+});
+
+describe('logicalToday', () => {
+  it('uses the time zone date', () => {
+    expect(toDateKey(logicalToday({ timeZone: 'Europe/Berlin' }, lateMonday))).toBe('2026-03-03');
+    expect(toDateKey(logicalToday({ timeZone: 'UTC' }, lateMonday))).toBe('2026-03-02');
+  });
+
+  it('keeps the previous day until the rollover hour', () => {
+    // 00:30 in Berlin with days starting at 04:00 is still Monday night.
+    expect(toDateKey(logicalToday({ timeZone: 'Europe/Berlin', dayStartHour: 4 }, lateMonday))).toBe('2026-03-02');
+    const morning = new Date('2026-03-03T03:00:00Z');
+    expect(toDateKey(logicalToday({ timeZone: 'Europe/Berlin', dayStartHour: 4 }, morning))).toBe('2026-03-03');
+  });
+
+  it('rolls over across a daylight saving change', () => {
+    // Berlin springs forward on 29 March 2026; 04:30 local is 02:30 UTC.
+    const afterChange = new Date('2026-03-29T02:30:00Z');
+    expect(toDateKey(logicalToday({ timeZone: 'Europe/Berlin', dayStartHour: 4 }, afterChange))).toBe('2026-03-28');
+    expect(toDateKey(logicalToday({ timeZone: 'Europe/Berlin', dayStartHour: 3 }, afterChange))).toBe('2026-03-29');
+  });
+});
+
+describe('hoursIntoDay', () => {
+  it('counts from the rollover hour', () => {
+    expect(hoursIntoDay({ timeZone: 'America/New_York' }, lateMonday)).toBe(18);
+    // 00:30 in Berlin with days starting at 04:00 is 20 hours into Monday.
+    expect(hoursIntoDay({ timeZone: 'Europe/Berlin', dayStartHour: 4 }, lateMonday)).toBe(20);
+  });
+});
+
+describe('isTimeZone', () => {
+  it('accepts IANA names only', () => {
+    expect(isTimeZone('Europe/Berlin')).toBe(true);
+    expect(isTimeZone('Mars/Olympus')).toBe(false);
+    expect(isTimeZone('')).toBe(false);
+    expect(isTimeZone(4)).toBe(false);
+  });
+});
+
+describe('remindersBetween', () => {
+  const habit: Habit = { id: 'read', name: 'Read', reminders: ['00:15'] };
+
+  it('fires on the clock of the time zone', () => {
+    const since = new Date('2026-03-02T23:10:00Z');
+    expect(remindersBetween([habit], {}, since, lateMonday, { timeZone: 'Europe/Berlin' })).toHaveLength(1);
+    expect(remindersBetween([habit], {}, since, lateMonday, { timeZone: 'America/New_York' })).toHaveLength(0);
+  });
+
+  it('checks the logged state of the day the user is still in', () => {
+    const since = new Date('2026-03-02T23:10:00Z');
+    const boundary = { timeZone: 'Europe/Berlin', dayStartHour: 4 };
+    expect(remindersBetween([habit], { '2026-03-02': { read: true } }, since, lateMonday, boundary)).toHaveLength(0);
+    expect(remindersBetween([habit], { '2026-03-03': { read: true } }, since, lateMonday, boundary)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,89 @@
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { sendDigests } from '../functions/_lib/digest';
+import { fakeNotifier } from '../functions/_lib/notifier';
+import { ensureSchema } from '../functions/_lib/schema';
+import { onRequestPost as postDigest } from '../functions/api/cron/digest';
+import { onRequestPost as postState } from '../functions/api/state';
+import { SCHEMA_VERSION } from '../src/lib/schema';
+import type { AppSettings, RemoteState } from '../src/types';
+import { SqliteD1 } from '../server/d1';
+import { applyMigrations } from '../server/migrations';
+import { asD1, invoke } from './helpers';
+
+let d1: SqliteD1;
+let accounts = 0;
+
+beforeEach(() => {
+  d1 = new SqliteD1(':memory:');
+  applyMigrations(d1, path.resolve(__dirname, '../migrations'));
+});
+
+// An account with one unlogged habit and digests on; a fresh id each time, as ensureSchema caches.
+const signUp = async (settings: Partial<AppSettings> = {}) => {
+  accounts += 1;
+  const user = { id: `digest-${accounts}`, email: `digest${accounts}@example.com` };
+  d1.db.prepare('INSERT INTO users (id, email) VALUES (?, ?)').run(user.id, user.email);
+  await ensureSchema(asD1(d1), user.id);
+  const state: RemoteState = {
+    schemaVersion: SCHEMA_VERSION,
+    habits: [{ id: 'gym', name: 'GYM' }],
+    completions: {},
+    journal: {},
+    settings: { skipPreservesStreak: false, dailyDigest: true, collapsedGroups: [], timeZone: 'UTC', dayStartHour: 0, ...settings }
+  };
+  const request = new Request('http://localhost/api/state', { method: 'POST', body: JSON.stringify(state) });
+  await invoke(postState, d1, request, { data: { user } });
+  return user;
+};
+
+const cron = (env: { CRON_SECRET?: string }, headers: Record<string, string> = {}) =>
+  invoke(postDigest, d1, new Request('http://localhost/api/cron/digest', { method: 'POST', headers }), { env });
+
+describe('cron route', () => {
+  it('is off without a CRON_SECRET', async () => {
+    expect((await cron({}, { authorization: 'Bearer anything' })).status).toBe(404);
+  });
+
+  it('rejects a wrong or missing bearer token', async () => {
+    expect((await cron({ CRON_SECRET: 's3cret' }, { authorization: 'Bearer guess' })).status).toBe(403);
+    expect((await cron({ CRON_SECRET: 's3cret' })).status).toBe(403);
+  });
+});
+
+describe('sendDigests', () => {
+  it('sends once per day and skips accounts already recorded in digests_sent', async () => {
+    const user = await signUp();
+    const notifier = fakeNotifier();
+
+    expect(await sendDigests(asD1(d1), notifier, '2026-03-02')).toEqual({ sent: 1, skipped: 0, failed: 0 });
+    expect(notifier.sent).toEqual([expect.objectContaining({ userId: user.id, email: user.email, subject: '1 habit still open for Monday, Mar 2' })]);
+
+    expect(await sendDigests(asD1(d1), notifier, '2026-03-02')).toEqual({ sent: 0, skipped: 1, failed: 0 });
+    expect(notifier.sent).toHaveLength(1);
+  });
+
+  it("waits for the evening of each account's own day", async () => {
+    const auckland = await signUp({ timeZone: 'Pacific/Auckland' });
+    const losAngeles = await signUp({ timeZone: 'America/Los_Angeles' });
+    const lateRiser = await signUp({ timeZone: 'UTC', dayStartHour: 4 });
+    const notifier = fakeNotifier();
+    const sentOn = () => d1.db.prepare('SELECT user_id, date FROM digests_sent ORDER BY user_id').all();
+
+    // 18:30 on Mar 3 in Auckland, 21:30 on Mar 2 in Los Angeles, 05:30 on Mar 3 in UTC.
+    expect(await sendDigests(asD1(d1), notifier, undefined, new Date('2026-03-03T05:30:00Z'))).toEqual({ sent: 1, skipped: 2, failed: 0 });
+    expect(sentOn()).toEqual([{ user_id: losAngeles.id, date: '2026-03-02' }]);
+
+    // 21:30 on Mar 3 in Auckland, just past midnight in Los Angeles, 08:30 in UTC.
+    await sendDigests(asD1(d1), notifier, undefined, new Date('2026-03-03T08:30:00Z'));
+    // 01:30 on Mar 4 in UTC is still Mar 3 with a rollover at 04:00.
+    await sendDigests(asD1(d1), notifier, undefined, new Date('2026-03-04T01:30:00Z'));
+
+    expect(sentOn()).toEqual([
+      { user_id: auckland.id, date: '2026-03-03' },
+      { user_id: losAngeles.id, date: '2026-03-02' },
+      { user_id: lateRiser.id, date: '2026-03-03' }
+    ]);
+    expect(notifier.sent.find(n => n.userId === auckland.id)?.subject).toBe('1 habit still open for Tuesday, Mar 3');
+  });
+});
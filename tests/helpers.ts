@@ -0,0 +1,31 @@
+import type { AuthData } from '../functions/_lib/auth';
+import type { Env } from '../functions/_lib/store';
+import type { SqliteD1 } from '../server/d1';
+
+/** `server/d1.ts` implements the parts of `D1Database` the Functions use. */
+export const asD1 = (d1: SqliteD1) => d1 as unknown as Env['DB'];
+
+type Parts = {
+  params?: Record<string, string>;
+  data?: Partial<AuthData>;
+  // Extra bindings next to `DB`, e.g. `CRON_SECRET`.
+  env?: Omit<Partial<Env>, 'DB'>;
+};
+
+/** Calls a Pages Function the way Cloudflare does, with `d1` bound as `env.DB`. */
+export const invoke = <Context>(
+  handler: (context: Context) => Response | Promise<Response>,
+  d1: SqliteD1,
+  request: Request,
+  { params = {}, data = {}, env = {} }: Parts = {}
+) =>
+  handler({
+    request,
+    env: { ...env, DB: asD1(d1) },
+    params,
+    data,
+    functionPath: new URL(request.url).pathname,
+    waitUntil: () => {},
+    passThroughOnException: () => {},
+    next: async () => new Response(null, { status: 404 })
+  } as Context);
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { diffStates, redoEntry, undoEntry } from '../src/lib/history';
+import { cleanEntry, journalScores, withEntry, withoutHabit } from '../src/lib/journal';
+import { parseState, SCHEMA_VERSION } from '../src/lib/schema';
+import { exportCsv, parseCsv } from '../src/lib/transfer';
+import type { Habit, Journal } from '../src/types';
+
+const gym: Habit = { id: 'gym', name: 'GYM' };
+const read: Habit = { id: 'read', name: 'Read' };
+
+const journal: Journal = {
+  '2026-03-02': { mood: 4, energy: 3, cells: { read: { note: 'Finished part one' } } },
+  '2026-03-03': { mood: 2, note: 'Flu', cells: { gym: { reason: 'Sick', note: 'Fever' } } }
+};
+
+describe('cleanEntry', () => {
+  it('trims text and drops blank fields and cells', () => {
+    expect(cleanEntry({ mood: 3, note: '  ', cells: { gym: { note: ' Legs ' }, read: { note: '', reason: ' ' } } })).toEqual({
+      mood: 3,
+      cells: { gym: { note: 'Legs' } }
+    });
+  });
+
+  it('is undefined for an entry with nothing left', () => {
+    expect(cleanEntry({ note: '', cells: { gym: {} } })).toBeUndefined();
+  });
+});
+
+describe('withEntry', () => {
+  it('sets a day and removes it once empty', () => {
+    const next = withEntry(journal, '2026-03-04', { energy: 5 });
+    expect(next['2026-03-04']).toEqual({ energy: 5 });
+    expect(withEntry(next, '2026-03-04', { note: ' ' })).toEqual(journal);
+  });
+});
+
+describe('withoutHabit', () => {
+  it('drops the habit notes and days left empty by it', () => {
+    expect(withoutHabit(journal, 'read')).toEqual({
+      '2026-03-02': { mood: 4, energy: 3 },
+      '2026-03-03': journal['2026-03-03']
+    });
+    expect(withoutHabit({ '2026-03-02': { cells: { read: { note: 'x' } } } }, 'read')).toEqual({});
+  });
+});
+
+describe('journalScores', () => {
+  it('leaves gaps on days without a score', () => {
+    const days = [new Date(2026, 2, 2), new Date(2026, 2, 3), new Date(2026, 2, 4)];
+    expect(journalScores(journal, days)).toEqual([
+      { mood: 4, energy: 3 },
+      { mood: 2, energy: null },
+      { mood: null, energy: null }
+    ]);
+  });
+});
+
+describe('history', () => {
+  it('undoes and redoes a journal edit', () => {
+    const before = { habits: [gym], completions: {}, journal };
+    const after = { ...before, journal: withEntry(journal, '2026-03-03', { mood: 3 }) };
+    const entry = diffStates('Edited journal for Mar 3', before, after);
+
+    expect(entry?.days).toHaveLength(1);
+    expect(undoEntry(after, entry).journal).toEqual(journal);
+    expect(redoEntry(before, entry).journal).toEqual(after.journal);
+  });
+});
+
+describe('schema', () => {
+  it('accepts a journal and defaults a missing one', () => {
+    const parsed = parseState({ schemaVersion: SCHEMA_VERSION, habits: [gym, read], completions: {}, journal });
+    expect(parsed.ok && parsed.value.journal).toEqual(journal);
+    const legacy = parseState({ schemaVersion: 8, habits: [gym], completions: {} });
+    expect(legacy.ok && legacy.value.journal).toEqual({});
+  });
+
+  it('rejects scores outside 1-5', () => {
+    const parsed = parseState({ schemaVersion: SCHEMA_VERSION, habits: [gym], completions: {}, journal: { '2026-03-02': { mood: 7 } } });
+    expect(parsed.errors).toContain('journal.2026-03-02.mood: expected 1-5');
+  });
+});
+
+describe('CSV', () => {
+  it('round-trips cell notes and skip reasons', () => {
+    const csv = exportCsv({ habits: [gym, read], completions: { '2026-03-03': { gym: 'skipped' } }, journal });
+    expect(csv).toContain('2026-03-03,gym,GYM,skipped,Fever,Sick');
+    expect(csv).toContain('2026-03-02,read,Read,,Finished part one,');
+
+    const parsed = parseCsv(csv);
+    expect(parsed.ok && parsed.value.journal).toEqual({
+      '2026-03-02': { cells: { read: { note: 'Finished part one' } } },
+      '2026-03-03': { cells: { gym: { note: 'Fever', reason: 'Sick' } } }
+    });
+  });
+
+  it('keeps a slip note apart from the cell note', () => {
+    const sugar: Habit = { id: 'sugar', name: 'Sugar', polarity: 'avoid', avoidSince: '2026-03-01' };
+    const csv = exportCsv({
+      habits: [sugar],
+      completions: { '2026-03-03': { sugar: { slips: 2, note: 'Office party' } } },
+      journal: { '2026-03-03': { cells: { sugar: { note: 'Two slices' } } } }
+    });
+    expect(csv).toContain('2026-03-03,sugar,Sugar,slip:2,Two slices,,Office party');
+
+    const parsed = parseCsv(csv);
+    expect(parsed.ok && parsed.value.completions).toEqual({ '2026-03-03': { sugar: { slips: 2, note: 'Office party' } } });
+    expect(parsed.ok && parsed.value.journal).toEqual({ '2026-03-03': { cells: { sugar: { note: 'Two slices' } } } });
+  });
+});
@@ -0,0 +1,150 @@
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ensureSchema } from '../functions/_lib/schema';
+import { onRequestGet as getBadge } from '../functions/api/shared/[token]/badge/[habitId]';
+import { onRequestGet as getShared } from '../functions/api/shared/[token]/index';
+import { onRequestDelete as revoke } from '../functions/api/shares/[id]';
+import { onRequestGet as listShares, onRequestPost as createShare } from '../functions/api/shares/index';
+import { onRequestPost as postState } from '../functions/api/state';
+import { SCHEMA_VERSION } from '../src/lib/schema';
+import { checkShareScope } from '../src/lib/shares';
+import type { RemoteState } from '../src/types';
+import { SqliteD1 } from '../server/d1';
+import { applyMigrations } from '../server/migrations';
+import { asD1, invoke } from './helpers';
+
+let d1: SqliteD1;
+let user: { id: string; email: string };
+let accounts = 0;
+
+beforeEach(async () => {
+  d1 = new SqliteD1(':memory:');
+  applyMigrations(d1, path.resolve(__dirname, '../migrations'));
+  accounts += 1;
+  user = { id: `sharer-${accounts}`, email: `sharer${accounts}@example.com` };
+  d1.db.prepare('INSERT INTO users (id, email) VALUES (?, ?)').run(user.id, user.email);
+  await ensureSchema(asD1(d1), user.id);
+  await call(postState, new Request('http://localhost/api/state', { method: 'POST', body: JSON.stringify(state) }));
+});
+
+// Every handler is called as the sharing account; the public ones ignore it.
+const call = <Context>(handler: (context: Context) => Response | Promise<Response>, request: Request, params: Record<string, string> = {}) =>
+  invoke(handler, d1, request, { params, data: { user } });
+
+const state: RemoteState = {
+  schemaVersion: SCHEMA_VERSION,
+  habits: [
+    { id: 'gym', name: 'GYM' },
+    { id: 'read', name: 'Read' },
+    { id: 'sugar', name: 'Sugar', polarity: 'avoid', avoidSince: '2026-03-01' }
+  ],
+  completions: {
+    '2026-03-01': { gym: true, read: true },
+    '2026-03-02': { gym: true },
+    '2026-03-03': { gym: true, read: 'skipped', sugar: { slips: 2, note: 'Office party' } }
+  },
+  journal: { '2026-03-02': { note: 'Private' } },
+  settings: { skipPreservesStreak: false, dailyDigest: false, collapsedGroups: [], timeZone: 'UTC', dayStartHour: 0 }
+};
+
+const create = async (scope: object) => {
+  const res = await call(createShare, new Request('http://localhost/api/shares', { method: 'POST', body: JSON.stringify(scope) }));
+  return { status: res.status, body: await res.json() };
+};
+
+const open = (token: string) => call(getShared, new Request(`http://localhost/api/shared/${token}`), { token });
+
+const badge = (token: string, habitId: string, metric = 'streak') =>
+  call(getBadge, new Request(`http://localhost/api/shared/${token}/badge/${habitId}?metric=${metric}`), { token, habitId });
+
+describe('share links', () => {
+  it('opens a read-only dashboard limited to the chosen habits and dates', async () => {
+    const { status, body } = await create({ label: 'Coach', habitIds: ['gym'], from: '2026-03-02' });
+    expect(status).toBe(201);
+    expect(body.link).toMatchObject({ label: 'Coach', habitIds: ['gym'], from: '2026-03-02', to: null });
+
+    const dashboard = await (await open(body.token)).json();
+    expect(dashboard.habits.map((h: { id: string }) => h.id)).toEqual(['gym']);
+    expect(dashboard.completions).toEqual({ '2026-03-02': { gym: true }, '2026-03-03': { gym: true } });
+    expect(dashboard).not.toHaveProperty('journal');
+  });
+
+  it('shares slip counts without their notes', async () => {
+    const { body } = await create({ habitIds: ['sugar'] });
+    const res = await open(body.token);
+    const text = await res.text();
+    expect(JSON.parse(text).completions).toEqual({ '2026-03-03': { sugar: { slips: 2 } } });
+    expect(text).not.toContain('Office party');
+  });
+
+  it('never lists or stores the token itself', async () => {
+    const { body } = await create({});
+    const links = await (await call(listShares, new Request('http://localhost/api/shares'))).json();
+    expect(links).toHaveLength(1);
+    expect(JSON.stringify(links)).not.toContain(body.token);
+    expect(JSON.stringify(d1.db.prepare('SELECT * FROM share_links').all())).not.toContain(body.token);
+  });
+
+  it('stops working once revoked', async () => {
+    const { body } = await create({});
+    const res = await call(revoke, new Request(`http://localhost/api/shares/${body.link.id}`, { method: 'DELETE' }), { id: body.link.id });
+    expect(res.status).toBe(200);
+    expect((await open(body.token)).status).toBe(404);
+    expect((await badge(body.token, 'gym')).status).toBe(404);
+  });
+
+  it('rejects bad scopes', async () => {
+    expect((await create({ habitIds: [], to: 'soon' })).status).toBe(400);
+    expect(checkShareScope({ from: '2026-03-05', to: '2026-03-01' })).toEqual(['share.to: expected on or after from']);
+  });
+});
+
+describe('owner settings', () => {
+  it('falls back to the app defaults for settings never stored', async () => {
+    const { settings: _, ...rest } = state;
+    await call(
+      postState,
+      new Request('http://localhost/api/state', {
+        method: 'POST',
+        body: JSON.stringify({ ...rest, completions: { ...state.completions, '2026-03-02': { gym: true, read: true }, '2026-03-04': { read: true } } })
+      })
+    );
+    const { body } = await create({ to: '2026-03-04' });
+
+    expect((await (await open(body.token)).json()).settings).toEqual({ skipPreservesStreak: true, timeZone: '', dayStartHour: 0 });
+    // The skip on Mar 3 keeps the streak alive, as it does in the app.
+    expect(await (await badge(body.token, 'read')).text()).toContain('Read: 3 day streak');
+  });
+
+  it('leaves archived habits out of a link to all habits', async () => {
+    await call(
+      postState,
+      new Request('http://localhost/api/state', {
+        method: 'POST',
+        body: JSON.stringify({ ...state, habits: [...state.habits, { id: 'old', name: 'Old', archivedOn: '2026-02-01' }] })
+      })
+    );
+    const { body } = await create({});
+    const dashboard = await (await open(body.token)).json();
+    expect(dashboard.habits.map((h: { id: string }) => h.id)).toEqual(['gym', 'read', 'sugar']);
+    expect((await badge(body.token, 'old')).status).toBe(404);
+  });
+});
+
+describe('badges', () => {
+  it('renders an SVG badge for a shared habit', async () => {
+    const { body } = await create({ to: '2026-03-03' });
+    const res = await badge(body.token, 'gym');
+    expect(res.headers.get('content-type')).toContain('image/svg+xml');
+    const svg = await res.text();
+    expect(svg).toContain('GYM: 3 day streak');
+
+    expect(await (await badge(body.token, 'gym', 'month')).text()).toContain('100% Mar');
+  });
+
+  it('only serves habits in the link', async () => {
+    const { body } = await create({ habitIds: ['read'] });
+    expect((await badge(body.token, 'gym')).status).toBe(404);
+    expect((await badge(body.token, 'read', 'weekly')).status).toBe(400);
+  });
+});
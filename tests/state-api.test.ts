@@ -0,0 +1,152 @@
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ensureSchema } from '../functions/_lib/schema';
+import { onRequestDelete as deleteHabit } from '../functions/api/habits/[id]';
+import { onRequestGet, onRequestPost } from '../functions/api/state';
+import { SCHEMA_VERSION } from '../src/lib/schema';
+import type { RemoteState } from '../src/types';
+import { SqliteD1 } from '../server/d1';
+import { applyMigrations } from '../server/migrations';
+import { asD1, invoke } from './helpers';
+
+let d1: SqliteD1;
+let user: { id: string; email: string };
+let accounts = 0;
+
+beforeEach(async () => {
+  d1 = new SqliteD1(':memory:');
+  applyMigrations(d1, path.resolve(__dirname, '../migrations'));
+  // A fresh id each time: ensureSchema remembers the accounts it has checked.
+  accounts += 1;
+  user = { id: `user-${accounts}`, email: `user${accounts}@example.com` };
+  d1.db.prepare('INSERT INTO users (id, email) VALUES (?, ?)').run(user.id, user.email);
+  // What functions/api/_middleware.ts does before every route.
+  await ensureSchema(asD1(d1), user.id);
+});
+
+const get = () => invoke(onRequestGet, d1, new Request('http://localhost/api/state'), { data: { user } });
+
+const post = (body: string, headers: Record<string, string> = {}) =>
+  invoke(
+    onRequestPost,
+    d1,
+    new Request('http://localhost/api/state', { method: 'POST', headers: { 'content-type': 'application/json', ...headers }, body }),
+    { data: { user } }
+  );
+
+const state: RemoteState = {
+  schemaVersion: SCHEMA_VERSION,
+  habits: [
+    { id: 'gym', name: 'GYM' },
+    { id: 'read', name: 'Read', target: { amount: 30, unit: 'min' }, group: 'Mind' }
+  ],
+  completions: {
+    '2026-03-02': { gym: true, read: 45 },
+    '2026-03-03': { gym: 'skipped' }
+  },
+  journal: {
+    '2026-03-03': { mood: 2, energy: 1, note: 'Flu', cells: { gym: { reason: 'Sick' } } }
+  },
+  settings: { skipPreservesStreak: false, dailyDigest: false, collapsedGroups: [], timeZone: 'Europe/Berlin', dayStartHour: 4 }
+};
+
+describe('GET /api/state', () => {
+  it('returns an empty current-version state for a new account', async () => {
+    const res = await get();
+    expect(res.status).toBe(200);
+    expect(res.headers.get('etag')).toBe('"0"');
+    expect(await res.json()).toEqual({ schemaVersion: SCHEMA_VERSION, habits: [], completions: {}, journal: {}, settings: {} });
+  });
+
+  it('only returns the signed-in account', async () => {
+    d1.db.prepare("INSERT INTO users (id, email) VALUES ('other', 'alfred@example.com')").run();
+    d1.db.prepare("INSERT INTO habits (user_id, id, name, position, data_json) VALUES ('other', 'x', 'Other', 0, '{}')").run();
+    expect((await (await get()).json()).habits).toEqual([]);
+  });
+});
+
+describe('POST /api/state', () => {
+  it('stores a state that GET returns unchanged', async () => {
+    const res = await post(JSON.stringify(state));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true });
+    expect(res.headers.get('etag')).toBe('"1"');
+
+    const read = await get();
+    expect(read.headers.get('etag')).toBe('"1"');
+    expect(await read.json()).toEqual(state);
+  });
+
+  it('replaces everything stored before', async () => {
+    await post(JSON.stringify(state));
+    await post(
+      JSON.stringify({
+        ...state,
+        habits: [state.habits[0]],
+        completions: { '2026-03-04': { gym: true } },
+        journal: {},
+        settings: { skipPreservesStreak: true }
+      })
+    );
+
+    const body = await (await get()).json();
+    expect(body.habits).toEqual([state.habits[0]]);
+    expect(body.completions).toEqual({ '2026-03-04': { gym: true } });
+    expect(body.journal).toEqual({});
+    expect(body.settings).toEqual({ skipPreservesStreak: true });
+  });
+
+  it('migrates an older document before storing it', async () => {
+    const legacy = { habits: [{ id: 'gym', name: 'GYM' }], completions: { '2026-03-02': { gym: true }, '2026-03-03': { gym: false } } };
+    expect((await post(JSON.stringify(legacy))).status).toBe(200);
+    expect((await (await get()).json()).completions).toEqual({ '2026-03-02': { gym: true } });
+  });
+
+  it('rejects malformed JSON', async () => {
+    const res = await post('{"habits": [');
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Invalid payload', errors: ['body: expected JSON'] });
+  });
+
+  it('rejects an empty body', async () => {
+    expect((await post('')).status).toBe(400);
+  });
+
+  it('rejects a document that fails validation and stores nothing', async () => {
+    const res = await post(JSON.stringify({ ...state, habits: [{ id: 'gym' }, { id: 'gym', name: 'Twice' }] }));
+    expect(res.status).toBe(400);
+    const { errors } = await res.json();
+    expect(errors).toContain('habits[0].name: expected a non-empty string');
+    expect(errors).toContain('habits: duplicate ids');
+    expect((await (await get()).json()).habits).toEqual([]);
+  });
+
+  it('rejects a write based on a stale revision', async () => {
+    await post(JSON.stringify(state));
+    const res = await post(JSON.stringify({ ...state, habits: [] }), { 'if-match': '"0"' });
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: 'Revision conflict', revision: 1 });
+    expect((await (await get()).json()).habits).toHaveLength(2);
+  });
+
+  it('accepts a write based on the current revision', async () => {
+    await post(JSON.stringify(state));
+    expect((await post(JSON.stringify(state), { 'if-match': '"1"' })).status).toBe(200);
+  });
+});
+
+describe('DELETE /api/habits/:id', () => {
+  it("removes the habit's completions and cell notes with it", async () => {
+    await post(JSON.stringify(state));
+    const res = await invoke(deleteHabit, d1, new Request('http://localhost/api/habits/gym', { method: 'DELETE' }), {
+      params: { id: 'gym' },
+      data: { user }
+    });
+    expect(res.status).toBe(200);
+
+    expect(d1.db.prepare("SELECT * FROM completions WHERE habit_id = 'gym'").all()).toEqual([]);
+    const body = await (await get()).json();
+    expect(body.completions).toEqual({ '2026-03-02': { read: 45 } });
+    expect(body.journal).toEqual({ '2026-03-03': { mood: 2, energy: 1, note: 'Flu' } });
+  });
+});
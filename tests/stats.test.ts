@@ -0,0 +1,116 @@
+import { eachDayOfInterval } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { combinedStats, dailyProgress, habitStats, overallStats, yearStats } from '../src/lib/stats';
+import type { Habit, HabitCompletion } from '../src/types';
+
+// Monday 2 March to Sunday 8 March 2026, looked at from the following Tuesday.
+const week = eachDayOfInterval({ start: new Date(2026, 2, 2), end: new Date(2026, 2, 8) });
+const today = new Date(2026, 2, 10);
+
+const gym: Habit = { id: 'gym', name: 'GYM' };
+const read: Habit = { id: 'read', name: 'Read', target: { amount: 60, unit: 'min' } };
+const mma: Habit = { id: 'mma', name: 'MMA', schedule: { type: 'weekdays', days: [6, 0] } };
+const screens: Habit = { id: 'screens', name: 'No screens', polarity: 'avoid', avoidSince: '2026-03-05' };
+
+const completions: HabitCompletion = {
+  '2026-03-02': { gym: true, read: 30 },
+  '2026-03-03': { gym: 'skipped', read: 90 },
+  '2026-03-04': { gym: true, read: true },
+  '2026-03-06': { screens: { slips: 2 } },
+  '2026-03-07': { mma: true }
+};
+
+describe('habitStats', () => {
+  it('counts done days over due days and leaves skipped days out', () => {
+    expect(habitStats(gym, week, completions, today)).toEqual({ count: 2, total: 6, percentage: 33 });
+  });
+
+  it('gives partial credit for amounts below the target', () => {
+    expect(habitStats(read, week, completions, today)).toEqual({ count: 2.5, total: 7, percentage: 36 });
+  });
+
+  it('only counts days the schedule makes due', () => {
+    expect(habitStats(mma, week, completions, today)).toEqual({ count: 1, total: 2, percentage: 50 });
+  });
+
+  it('counts avoid habits as kept from avoidSince unless a slip is logged', () => {
+    expect(habitStats(screens, week, completions, today)).toEqual({ count: 3, total: 4, percentage: 75 });
+  });
+
+  it('ignores days before the start date', () => {
+    const late = { ...gym, startDate: '2026-03-04' };
+    expect(habitStats(late, week, completions, today)).toEqual({ count: 1, total: 5, percentage: 20 });
+  });
+
+  it('ignores days from the archive date on', () => {
+    const archived = { ...gym, archivedOn: '2026-03-05' };
+    expect(habitStats(archived, week, completions, today)).toEqual({ count: 2, total: 2, percentage: 100 });
+  });
+
+  it('is zero when nothing was due', () => {
+    expect(habitStats(mma, week.slice(0, 5), completions, today)).toEqual({ count: 0, total: 0, percentage: 0 });
+  });
+});
+
+describe('combinedStats', () => {
+  it('pools due days across habits', () => {
+    expect(combinedStats([gym, mma], week, completions, today)).toEqual({ count: 3, total: 8, percentage: 38 });
+  });
+});
+
+describe('dailyProgress', () => {
+  it('scores each day across all habits', () => {
+    const days = dailyProgress([gym, read, mma], week, completions, 'MMM d', today);
+    expect(days).toHaveLength(7);
+    expect(days[0]).toEqual({ day: 'Mar 2', percentage: 75, completed: 1.5 });
+    // GYM skipped, Read done: the skip drops out of the denominator.
+    expect(days[1]).toEqual({ day: 'Mar 3', percentage: 100, completed: 1 });
+    expect(days[5]).toEqual({ day: 'Mar 7', percentage: 33, completed: 1 });
+  });
+
+  it('reports 0% for a day with nothing due', () => {
+    expect(dailyProgress([mma], week.slice(0, 1), completions, 'd', today)).toEqual([{ day: '2', percentage: 0, completed: 0 }]);
+  });
+
+  it('leaves out a habit added later instead of counting it as missed', () => {
+    const added = { id: 'new', name: 'New', startDate: '2026-03-08' };
+    expect(dailyProgress([gym, added], week.slice(0, 1), completions, 'd', today)[0].percentage).toBe(100);
+  });
+});
+
+describe('overallStats', () => {
+  it('splits the period into completed and incomplete percentages', () => {
+    // GYM 2/6 + Read 2.5/7 = 4.5 / 13.
+    expect(overallStats([gym, read], week, completions, today)).toEqual({ completed: 35, incomplete: 65 });
+  });
+
+  it('is empty when nothing was due', () => {
+    expect(overallStats([mma], week.slice(0, 5), completions, today)).toEqual({ completed: 0, incomplete: 0 });
+  });
+
+  it('is empty without habits', () => {
+    expect(overallStats([], week, completions, today)).toEqual({ completed: 0, incomplete: 0 });
+  });
+});
+
+describe('yearStats', () => {
+  const year = yearStats([mma], completions, 2026, today);
+
+  it('covers January through December', () => {
+    expect(year.map(month => month.name)).toEqual(['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']);
+    expect(year[2].fullName).toBe('March');
+  });
+
+  it('totals each month and flags months after today', () => {
+    // Nine weekend days in March 2026, one of them done.
+    expect(year[2]).toMatchObject({ totalPossible: 9, totalCompleted: 1, percentage: 11, isFuture: false });
+    expect(year[3].isFuture).toBe(true);
+  });
+
+  it('has nothing due in months before an avoid habit started', () => {
+    const months = yearStats([screens], completions, 2026, today);
+    expect(months[1]).toMatchObject({ totalPossible: 0, percentage: 0 });
+    // 5 to 10 March: six clean-or-slipped days, one with a slip.
+    expect(months[2]).toMatchObject({ totalPossible: 6, totalCompleted: 5 });
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION } from '../src/lib/schema';
+import { planImport } from '../src/lib/transfer';
+import type { RemoteState } from '../src/types';
+
+const current: RemoteState = { schemaVersion: SCHEMA_VERSION, habits: [{ id: 'gym', name: 'GYM' }], completions: {} };
+
+describe('planImport', () => {
+  it('matches each existing habit to one imported habit of the same name', () => {
+    const incoming: RemoteState = {
+      schemaVersion: SCHEMA_VERSION,
+      habits: [
+        { id: 'a', name: 'Gym' },
+        { id: 'b', name: 'gym ' }
+      ],
+      completions: { '2026-03-02': { a: true, b: 30 } }
+    };
+
+    const { state, summary } = planImport(current, incoming, 'merge', () => 'fresh');
+    expect(state.habits.map(h => h.id)).toEqual(['gym', 'b']);
+    expect(state.completions).toEqual({ '2026-03-02': { gym: true, b: 30 } });
+    expect(summary).toMatchObject({ habitsAdded: 1, habitsMatched: 1 });
+  });
+});